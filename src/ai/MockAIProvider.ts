@@ -0,0 +1,174 @@
+// src/ai/MockAIProvider.ts
+
+import { createHash } from 'crypto';
+import { deflateSync } from 'zlib';
+import { AITextRequest, IAIProvider } from '../utils/types';
+
+// Offline provider: answers are picked from fixtures with a seed derived from
+// the prompt, so the same request always gets the same answer
+
+const FIRST_NAMES = ['Aldric', 'Brenna', 'Corvin', 'Dara', 'Eldon', 'Fiora', 'Garrick', 'Hesta', 'Ivor', 'Junia'];
+const EPITHETS = ['Ashborn', 'Brightwater', 'Coldforge', 'Duskwhisper', 'Emberfall', 'Greycloak', 'Ironvale', 'Stormsong'];
+const ORIGINS = [
+    'a border village burned by raiders',
+    'a temple library high in the mountains',
+    'the crowded docks of a merchant city',
+    'a travelling troupe of performers',
+    'a disgraced noble house'
+];
+const GOALS = [
+    'recover a stolen family heirloom',
+    'prove their worth to a doubting mentor',
+    'find the source of a spreading blight',
+    'repay an old debt to a thieves guild',
+    'map the ruins beneath their hometown'
+];
+const APPEARANCES = [
+    'tall and lean, with a scar across one cheek and a weathered travelling cloak',
+    'short and sturdy, with braided hair and well-worn leather gear',
+    'sharp-eyed and wiry, dressed in dark patched clothing',
+    'broad-shouldered, with a bright tabard and a dented helm'
+];
+const PERSONALITIES = ['Brave but reckless', 'Curious and bookish', 'Quiet and watchful', 'Cheerful and stubborn', 'Proud and loyal'];
+const SCENES = [
+    'The path narrows between moss-covered stones',
+    'Lantern light flickers across the damp walls',
+    'A cold wind carries distant voices through the trees',
+    'Dust drifts down from the cracked ceiling'
+];
+const NEXT_OPTIONS = ['Search the area', 'Press onward', 'Rest and listen', 'Talk to the nearest stranger'];
+const QUEST_THEMES = ['Lost Relic', 'Silent Village', 'Sunken Shrine', 'Broken Crown'];
+const REWARD_ITEMS = ['Health Potion', 'Antitoxin', 'Silver Ring', 'Dagger', 'Leather Armor'];
+
+export class MockAIProvider implements IAIProvider {
+    readonly name = 'mock';
+
+    async generateText(request: AITextRequest): Promise<string> {
+        const seed = this.seed(`${request.task}:${request.prompt}`);
+        const pick = <T>(values: T[], offset: number = 0): T => values[(seed + offset) % values.length];
+        const vars = request.variables;
+
+        switch (request.task) {
+            case 'character_name':
+                return `${pick(FIRST_NAMES)} ${pick(EPITHETS, 3)}`;
+            case 'character_story':
+                return JSON.stringify({
+                    name: `${pick(FIRST_NAMES)} ${pick(EPITHETS, 3)}`,
+                    backstory: `Raised in ${pick(ORIGINS, 1)}, this ${vars.class} set out to ${pick(GOALS, 2)}.`,
+                    appearance: pick(APPEARANCES, 4),
+                    personality: pick(PERSONALITIES, 5)
+                });
+            case 'evolution_story':
+                return JSON.stringify({
+                    name: `${vars.name} the Ascended`,
+                    backstory: `${vars.backstory} Tested beyond mortal limits, ${vars.name} emerged transformed.`,
+                    appearance: `${pick(APPEARANCES, 4)}, now wreathed in a faint radiant aura`,
+                    personality: `${vars.personality !== 'Unknown' ? vars.personality : pick(PERSONALITIES, 5)}, tempered by ascension`
+                });
+            case 'game_action': {
+                const outcomes = ['success', 'success', 'partial', 'failure'] as const;
+                const outcome = pick([...outcomes]);
+                return JSON.stringify({
+                    description: `${pick(SCENES, 1)}. You attempt to ${String(vars.action).toLowerCase()}, and the result is a ${outcome}.`,
+                    outcome,
+                    experience: 50 + (seed % 11) * 10,
+                    rewards: outcome === 'success' ? { gold: 5 + (seed % 20) } : undefined,
+                    nextOptions: [pick(NEXT_OPTIONS, 1), pick(NEXT_OPTIONS, 2)]
+                });
+            }
+            case 'session_summary':
+                return `${vars.summary} The adventure continued: ${String(vars.turns).split('\n').slice(-3).join(' ')}`.slice(0, 800);
+            case 'encounter': {
+                // Monster ids come from the bestiary list the prompt offered
+                const monsters = String(vars.monsters)
+                    .split('\n')
+                    .map((line) => line.match(/^- ([\w-]+):/)?.[1])
+                    .filter((id): id is string => !!id);
+                const count = vars.difficulty === 'hard' ? 3 : vars.difficulty === 'easy' ? 1 : 2;
+                return JSON.stringify({
+                    description: `${pick(SCENES, 2)}. A ${vars.difficulty} ${vars.type} encounter awaits.`,
+                    challenges: [`Overcome the ${vars.type} challenge`, 'Keep your footing'],
+                    monsters: vars.type === 'combat' && monsters.length > 0
+                        ? Array.from({ length: count }, (_, index) => pick(monsters, index))
+                        : [],
+                    rewards: { experience: Number(vars.level) * 50 * count }
+                });
+            }
+            case 'questline': {
+                const title = `The ${pick(QUEST_THEMES)}`;
+                const objectiveCount = vars.length === 'long' ? 5 : vars.length === 'medium' ? 4 : 3;
+                return JSON.stringify({
+                    title,
+                    description: `A ${vars.theme} quest for a level ${vars.level} adventurer: ${pick(GOALS, 1)}.`,
+                    objectives: Array.from({ length: objectiveCount }, (_, index) => `${title}: step ${index + 1}`),
+                    rewards: {
+                        experience: Number(vars.level) * 200,
+                        items: [pick(REWARD_ITEMS, 2)],
+                        gold: Number(vars.level) * 25
+                    },
+                    encounters: [
+                        { type: 'exploration', description: pick(SCENES, 3) },
+                        { type: 'combat', description: 'Guardians block the way forward' }
+                    ]
+                });
+            }
+        }
+    }
+
+    async generateImage(prompt: string): Promise<Buffer> {
+        return this.placeholderPng(this.seed(prompt));
+    }
+
+    private seed(input: string): number {
+        return createHash('sha256').update(input).digest().readUInt32BE(0);
+    }
+
+    // 64x64 PNG: a seeded background with a lighter block where the character would be
+    private placeholderPng(seed: number): Buffer {
+        const size = 64;
+        const background = [seed & 0x7f, (seed >> 8) & 0x7f, (seed >> 16) & 0x7f];
+        const figure = background.map((channel) => channel + 0x80);
+
+        const rows: Buffer[] = [];
+        for (let y = 0; y < size; y++) {
+            const row = Buffer.alloc(1 + size * 3);
+            for (let x = 0; x < size; x++) {
+                const inFigure = x >= 20 && x < 44 && y >= 12 && y < 56;
+                row.set(inFigure ? figure : background, 1 + x * 3);
+            }
+            rows.push(row);
+        }
+
+        const header = Buffer.alloc(13);
+        header.writeUInt32BE(size, 0);
+        header.writeUInt32BE(size, 4);
+        header.set([8, 2, 0, 0, 0], 8); // 8-bit RGB, no interlace
+
+        return Buffer.concat([
+            Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+            this.pngChunk('IHDR', header),
+            this.pngChunk('IDAT', deflateSync(Buffer.concat(rows))),
+            this.pngChunk('IEND', Buffer.alloc(0))
+        ]);
+    }
+
+    private pngChunk(type: string, data: Buffer): Buffer {
+        const length = Buffer.alloc(4);
+        length.writeUInt32BE(data.length);
+        const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+        const crc = Buffer.alloc(4);
+        crc.writeUInt32BE(this.crc32(body));
+        return Buffer.concat([length, body, crc]);
+    }
+
+    private crc32(data: Buffer): number {
+        let crc = 0xffffffff;
+        for (const byte of data) {
+            crc ^= byte;
+            for (let bit = 0; bit < 8; bit++) {
+                crc = (crc >>> 1) ^ (0xedb88320 & -(crc & 1));
+            }
+        }
+        return (crc ^ 0xffffffff) >>> 0;
+    }
+}
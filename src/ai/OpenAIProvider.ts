@@ -0,0 +1,47 @@
+// src/ai/OpenAIProvider.ts
+
+import { ChatOpenAI, DallEAPIWrapper } from '@langchain/openai';
+import { AITextRequest, IAIProvider } from '../utils/types';
+
+export interface OpenAIProviderOptions {
+    apiKey: string;
+    // Set for OpenAI-compatible servers (vLLM, Ollama, LM Studio, ...)
+    baseUrl?: string;
+    textModel: string;
+    imageModel: string;
+}
+
+export class OpenAIProvider implements IAIProvider {
+    readonly name: string;
+    private readonly model: ChatOpenAI;
+    private readonly images: DallEAPIWrapper;
+
+    constructor(options: OpenAIProviderOptions) {
+        this.name = options.baseUrl ? 'openai-compatible' : 'openai';
+
+        this.model = new ChatOpenAI({
+            modelName: options.textModel,
+            temperature: 0.7,
+            openAIApiKey: options.apiKey,
+            configuration: options.baseUrl ? { baseURL: options.baseUrl } : undefined
+        });
+
+        this.images = new DallEAPIWrapper({
+            openAIApiKey: options.apiKey,
+            modelName: options.imageModel,
+            baseUrl: options.baseUrl,
+            // Local servers rarely host the generated file, so ask for the bytes
+            dallEResponseFormat: 'b64_json'
+        });
+    }
+
+    async generateText(request: AITextRequest): Promise<string> {
+        const response = await this.model.invoke(request.prompt);
+        return String(response.content);
+    }
+
+    async generateImage(prompt: string): Promise<Buffer> {
+        const image = await this.images.invoke({ input: prompt });
+        return Buffer.from(String(image), 'base64');
+    }
+}
@@ -0,0 +1,127 @@
+// src/chain/CdpChainClient.ts
+
+import { Coinbase, Wallet, readContract } from '@coinbase/coinbase-sdk';
+import { ethers } from 'ethers';
+import * as fs from 'fs';
+import * as path from 'path';
+import { IChainClient, NetworkConfig } from '../utils/types';
+import { getProvider } from './network';
+import logger from '../utils/Logger';
+
+// Below this the wallet asks the testnet faucet for more, or warns on mainnet
+const LOW_BALANCE_ETH = 0.1;
+
+// CDP networks with a faucet; real funds have to be sent to the wallet
+const FAUCET_NETWORKS = ['base-sepolia', 'ethereum-sepolia', 'ethereum-holesky'];
+
+// Backend wallet held by the Coinbase CDP SDK; its data lives in .wallet/wallet.json
+export class CdpChainClient implements IChainClient {
+    readonly name = 'cdp';
+    private wallet: Wallet | null = null;
+    private signer: ethers.Wallet | null = null;
+    private readonly storageDir: string;
+    private readonly networkId: string;
+
+    constructor(network: NetworkConfig) {
+        if (!network.cdpNetworkId) {
+            throw new Error(`Network ${network.name} is not supported by CDP; use CHAIN_CLIENT=ethers`);
+        }
+        this.networkId = network.cdpNetworkId;
+        this.storageDir = path.join(__dirname, '../../.wallet');
+        if (!fs.existsSync(this.storageDir)) {
+            fs.mkdirSync(this.storageDir, { recursive: true });
+        }
+    }
+
+    async initialize(): Promise<void> {
+        Coinbase.configure({
+            apiKeyName: process.env.CDP_API_KEY_NAME!,
+            privateKey: process.env.CDP_PRIVATE_KEY!.replace(/\\n/g, '\n')
+        });
+        logger.debug('Coinbase SDK configured');
+
+        const walletDataPath = path.join(this.storageDir, 'wallet.json');
+
+        if (fs.existsSync(walletDataPath)) {
+            logger.info('Loading existing wallet');
+            const walletData = JSON.parse(fs.readFileSync(walletDataPath, 'utf8'));
+            this.wallet = await Wallet.import(walletData);
+        } else {
+            logger.info('Creating new wallet');
+            this.wallet = await Wallet.create({ networkId: this.networkId });
+
+            fs.writeFileSync(walletDataPath, JSON.stringify(await this.wallet.export()));
+            logger.debug('Wallet data saved');
+        }
+
+        // The transaction manager and deployments sign with the exported key, so
+        // nonces and fees stay under the backend's control
+        const address = await this.wallet.getDefaultAddress();
+        this.signer = new ethers.Wallet(await address.export(), getProvider());
+
+        const balanceInEth = await this.getBalance();
+        logger.info('Current wallet balance', { balanceInEth });
+        logger.info('Wallet address', { walletId: address.getId() });
+
+        if (parseFloat(balanceInEth) < LOW_BALANCE_ETH) {
+            if (!this.hasFaucet()) {
+                logger.warn('Low wallet balance, fund the wallet to keep sending transactions', {
+                    balanceInEth,
+                    networkId: this.networkId,
+                    address: address.getId()
+                });
+                return;
+            }
+            logger.warn('Low balance detected, requesting test tokens');
+            await this.requestTestTokens();
+        }
+    }
+
+    async getAddress(): Promise<string> {
+        const address = await this.requireWallet().getDefaultAddress();
+        return address.getId();
+    }
+
+    async getBalance(): Promise<string> {
+        const balances = await this.requireWallet().listBalances();
+        return (balances.get('eth') || '0').toString();
+    }
+
+    async getSigner(): Promise<ethers.Signer> {
+        if (!this.signer) {
+            throw new Error('Wallet not initialized');
+        }
+        return this.signer;
+    }
+
+    async requestTestTokens(): Promise<void> {
+        if (!this.hasFaucet()) {
+            throw new Error(`Test token faucet is not available on ${this.networkId}`);
+        }
+        logger.info('Requesting test tokens from faucet');
+        const faucetTx = await this.requireWallet().faucet();
+        await faucetTx.wait();
+        logger.info('Successfully received test tokens');
+    }
+
+    async readContract(contractAddress: string, method: string, args: Record<string, any>, abi: any[]): Promise<any> {
+        return readContract({
+            networkId: this.networkId,
+            contractAddress: contractAddress as `0x${string}`,
+            method,
+            args,
+            abi
+        });
+    }
+
+    private hasFaucet(): boolean {
+        return FAUCET_NETWORKS.includes(this.networkId);
+    }
+
+    private requireWallet(): Wallet {
+        if (!this.wallet) {
+            throw new Error('Wallet not initialized');
+        }
+        return this.wallet;
+    }
+}
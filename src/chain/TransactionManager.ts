@@ -0,0 +1,521 @@
+// src/chain/TransactionManager.ts
+
+import { ethers } from 'ethers';
+import { randomUUID } from 'crypto';
+import {
+    IChainClient,
+    IKeyValueStore,
+    ITransactionManager,
+    ServiceError,
+    TransactionRecord,
+    TransactionRequest
+} from '../utils/types';
+import { getNetworkConfig, getProvider, getTransactionLink } from './network';
+import logger from '../utils/Logger';
+
+export interface TransactionManagerOptions {
+    confirmations: number;
+    // Fee caps in wei; fees are never bid above these, replacements included
+    maxFeePerGas?: bigint;
+    maxPriorityFeePerGas?: bigint;
+    // How long a broadcast may sit unmined before it is re-sent with higher fees
+    replacementTimeoutMs: number;
+    maxReplacements: number;
+    // Give up waiting after this long; the transaction stays pending and may still land
+    timeoutMs: number;
+    pollIntervalMs: number;
+    // Confirmed and failed transactions are kept this long
+    historyTtlSeconds: number;
+}
+
+interface Fees {
+    maxFeePerGas?: bigint;
+    maxPriorityFeePerGas?: bigint;
+    gasPrice?: bigint;
+}
+
+interface ConfirmedTransaction {
+    transaction: TransactionRecord;
+    receipt: ethers.TransactionReceipt;
+}
+
+// Headroom over estimateGas, since state can change before the transaction lands
+const GAS_LIMIT_BUFFER_PERCENT = 120n;
+
+// Nodes reject replacements that don't raise both fees by at least 10%
+const REPLACEMENT_BUMP_PERCENT = 115n;
+
+// Sends the backend wallet's transactions one nonce at a time and follows each
+// one until it is confirmed, speeding it up while it is stuck
+export class TransactionManager implements ITransactionManager {
+    private nextNonce: number | null = null;
+    private queue: Promise<unknown> = Promise.resolve();
+    // One follower per unsettled transaction, shared by everyone waiting on it
+    private readonly watchers = new Map<string, Promise<ConfirmedTransaction>>();
+
+    constructor(
+        private readonly chainClient: IChainClient,
+        private readonly store: IKeyValueStore,
+        private readonly options: TransactionManagerOptions
+    ) {}
+
+    // Settles transactions left pending by the last shutdown, and follows the
+    // rest again until they are mined or dropped
+    async start(): Promise<void> {
+        const keys = await this.store.keys(this.pendingPrefix());
+        let settled = 0;
+        let expired = 0;
+
+        for (const key of keys) {
+            const record = await this.store.get<TransactionRecord>(this.recordKey(key.slice(this.pendingPrefix().length)));
+            if (!record || record.status !== 'pending') {
+                await this.store.delete(key);
+                continue;
+            }
+
+            const receipt = await this.findReceipt(record.hashes);
+            if (receipt) {
+                await this.settle(record, receipt);
+                settled++;
+            } else if (!record.data && !(await this.isKnownToNode(record))) {
+                // Recorded before calldata was kept, so it can't be sent again
+                await this.drop(record, 'Transaction was lost before a restart and cannot be re-sent');
+                expired++;
+            } else {
+                this.watch(record);
+            }
+        }
+
+        if (keys.length > 0) {
+            logger.info('Reconciled pending transactions', {
+                pending: keys.length,
+                settled,
+                expired,
+                watching: keys.length - settled - expired
+            });
+        }
+    }
+
+    async send(request: TransactionRequest): Promise<ConfirmedTransaction> {
+        const signer = await this.chainClient.getSigner();
+        const record = await this.serialize(() => this.submit(signer, request));
+        return this.withTimeout(this.watch(record), record);
+    }
+
+    async waitForTransaction(hash: string): Promise<ConfirmedTransaction> {
+        const record = await this.getTransaction(hash);
+        if (!record) {
+            const serviceError = new ServiceError(`Transaction ${hash} not found`);
+            serviceError.code = 'TRANSACTION_NOT_FOUND';
+            serviceError.statusCode = 404;
+            throw serviceError;
+        }
+        if (record.status === 'failed') {
+            throw this.settledError(record);
+        }
+        if (record.status === 'confirmed') {
+            const receipt = await getProvider().getTransactionReceipt(record.hash);
+            if (receipt) {
+                return { transaction: record, receipt };
+            }
+            // Reorged out since it was confirmed; follow it again
+        }
+        return this.withTimeout(this.watch(record), record);
+    }
+
+    async getTransaction(hash: string): Promise<TransactionRecord | null> {
+        const id = await this.store.get<string>(this.hashKey(hash));
+        return id ? this.store.get<TransactionRecord>(this.recordKey(id)) : null;
+    }
+
+    async getTransactionsByOperation(operation: string): Promise<TransactionRecord[]> {
+        const ids = (await this.store.get<string[]>(this.operationKey(operation))) || [];
+        const records = await Promise.all(ids.map((id) => this.store.get<TransactionRecord>(this.recordKey(id))));
+        return records.filter((record): record is TransactionRecord => record !== null);
+    }
+
+    // Nonces are handed out in submission order, so sends must not interleave
+    private serialize<T>(task: () => Promise<T>): Promise<T> {
+        const result = this.queue.then(task, task);
+        this.queue = result.catch(() => undefined);
+        return result;
+    }
+
+    private async submit(signer: ethers.Signer, request: TransactionRequest): Promise<TransactionRecord> {
+        const provider = getProvider();
+        const from = await signer.getAddress();
+
+        // A revert surfaces here, before a nonce is spent on it
+        const gasLimit = (await provider.estimateGas({ from, to: request.to, data: request.data }))
+            * GAS_LIMIT_BUFFER_PERCENT / 100n;
+        const fees = await this.estimateFees();
+
+        const template: ethers.TransactionRequest = {
+            to: request.to,
+            data: request.data,
+            gasLimit,
+            chainId: getNetworkConfig().chainId
+        };
+
+        let response: ethers.TransactionResponse;
+        let nonce: number;
+        for (let attempt = 0; ; attempt++) {
+            if (this.nextNonce === null) {
+                this.nextNonce = await provider.getTransactionCount(from, 'pending');
+            }
+            nonce = this.nextNonce;
+
+            try {
+                response = await signer.sendTransaction({ ...template, ...fees, nonce });
+                break;
+            } catch (error) {
+                // Re-read the nonce from the node next time, in case this one was
+                // used outside the manager or never reached the mempool
+                this.nextNonce = null;
+                if (attempt === 0 && ethers.isError(error, 'NONCE_EXPIRED')) {
+                    logger.warn('Nonce already used, resyncing from chain', { nonce });
+                    continue;
+                }
+                throw error;
+            }
+        }
+        this.nextNonce = nonce + 1;
+
+        const now = new Date().toISOString();
+        const record: TransactionRecord = {
+            id: randomUUID(),
+            hash: response.hash,
+            hashes: [response.hash],
+            operation: request.operation,
+            method: request.method,
+            from,
+            to: request.to,
+            data: request.data,
+            nonce,
+            gasLimit: gasLimit.toString(),
+            ...this.serializeFees(fees),
+            replacements: 0,
+            confirmations: request.confirmations ?? this.options.confirmations,
+            status: 'pending',
+            transactionLink: getTransactionLink(response.hash),
+            createdAt: now,
+            updatedAt: now
+        };
+
+        await this.store.set(this.recordKey(record.id), record);
+        await this.store.set(this.hashKey(record.hash), record.id);
+        await this.store.set(this.pendingKey(record.id), true);
+        if (record.operation) {
+            const ids = (await this.store.get<string[]>(this.operationKey(record.operation))) || [];
+            await this.store.set(this.operationKey(record.operation), [...ids, record.id], this.options.historyTtlSeconds);
+        }
+
+        logger.info('Transaction submitted', { hash: record.hash, method: record.method, nonce });
+        return record;
+    }
+
+    private watch(record: TransactionRecord): Promise<ConfirmedTransaction> {
+        let watcher = this.watchers.get(record.id);
+        if (!watcher) {
+            watcher = this.follow(record).finally(() => this.watchers.delete(record.id));
+            // Failures are recorded on the transaction; a caller that stopped
+            // waiting must not turn them into unhandled rejections
+            watcher.catch(() => undefined);
+            this.watchers.set(record.id, watcher);
+        }
+        return watcher;
+    }
+
+    // Callers give up after timeoutMs, but the transaction is followed until it settles
+    private async withTimeout(watcher: Promise<ConfirmedTransaction>, record: TransactionRecord): Promise<ConfirmedTransaction> {
+        let timer: NodeJS.Timeout | undefined;
+        const timeout = new Promise<never>((_, reject) => {
+            timer = setTimeout(() => {
+                const serviceError = new ServiceError(`Transaction ${record.hash} not confirmed in time; it may still be mined`);
+                serviceError.code = 'TRANSACTION_TIMEOUT';
+                serviceError.statusCode = 504;
+                reject(serviceError);
+            }, this.options.timeoutMs);
+        });
+
+        try {
+            return await Promise.race([watcher, timeout]);
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+
+    private async follow(record: TransactionRecord): Promise<ConfirmedTransaction> {
+        const provider = getProvider();
+        let broadcastAt = Date.now();
+
+        while (true) {
+            try {
+                let receipt = await this.findReceipt(record.hashes);
+
+                if (!receipt && await provider.getTransactionCount(record.from, 'latest') > record.nonce) {
+                    // The nonce was mined; look once more in case it was ours landing
+                    // between the two reads
+                    receipt = await this.findReceipt(record.hashes);
+                    if (!receipt) {
+                        await this.drop(record, 'Transaction was dropped and its nonce used by another transaction');
+                        throw this.settledError(record);
+                    }
+                }
+
+                if (receipt && await receipt.confirmations() >= record.confirmations) {
+                    const settled = await this.settle(record, receipt);
+                    if (settled.status === 'failed') {
+                        throw this.settledError(settled);
+                    }
+                    return { transaction: settled, receipt };
+                }
+
+                if (!receipt && Date.now() - broadcastAt >= this.options.replacementTimeoutMs) {
+                    const resent = (record.replacements < this.options.maxReplacements && await this.speedUp(record))
+                        || await this.resendIfForgotten(record);
+                    if (resent) {
+                        broadcastAt = Date.now();
+                    }
+                }
+            } catch (error) {
+                if (error instanceof ServiceError) {
+                    throw error;
+                }
+                // A flaky RPC must not leave the transaction unwatched
+                logger.warn('Failed to check transaction', {
+                    hash: record.hash,
+                    error: error instanceof Error ? error.message : 'Unknown error'
+                });
+            }
+
+            await new Promise((resolve) => setTimeout(resolve, this.options.pollIntervalMs));
+        }
+    }
+
+    // Re-sends the same nonce with higher fees; false when the caps leave no room
+    private async speedUp(record: TransactionRecord): Promise<boolean> {
+        if (!record.data) {
+            return false;
+        }
+        const current = this.parseFees(record);
+        const latest = await this.estimateFees();
+        const bumped = this.bumpFees(current, latest);
+        if (!bumped) {
+            logger.warn('Transaction stuck but fee caps leave no room to speed it up', { hash: record.hash });
+            return false;
+        }
+
+        let response: ethers.TransactionResponse;
+        try {
+            const signer = await this.chainClient.getSigner();
+            response = await signer.sendTransaction({ ...this.template(record), ...bumped });
+        } catch (error) {
+            // Either a hash already mined the nonce or the node wants a bigger bump;
+            // the next poll sorts out which
+            logger.warn('Transaction replacement rejected', {
+                hash: record.hash,
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+            return false;
+        }
+
+        Object.assign(record, this.serializeFees(bumped), {
+            hash: response.hash,
+            hashes: [...record.hashes, response.hash],
+            replacements: record.replacements + 1,
+            transactionLink: getTransactionLink(response.hash),
+            updatedAt: new Date().toISOString()
+        });
+        await this.store.set(this.recordKey(record.id), record);
+        await this.store.set(this.hashKey(response.hash), record.id);
+
+        logger.info('Transaction sped up', { hash: response.hash, nonce: record.nonce, replacements: record.replacements });
+        return true;
+    }
+
+    // A node restart or mempool eviction can forget a transaction that never
+    // mined. Signing the same nonce and fees again gives the same hash.
+    private async resendIfForgotten(record: TransactionRecord): Promise<boolean> {
+        if (!record.data || await this.isKnownToNode(record)) {
+            return false;
+        }
+
+        try {
+            const signer = await this.chainClient.getSigner();
+            await signer.sendTransaction({ ...this.template(record), ...this.parseFees(record) });
+        } catch (error) {
+            logger.warn('Transaction rebroadcast rejected', {
+                hash: record.hash,
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+            return false;
+        }
+
+        logger.info('Transaction rebroadcast', { hash: record.hash, nonce: record.nonce });
+        return true;
+    }
+
+    private async isKnownToNode(record: TransactionRecord): Promise<boolean> {
+        for (const hash of record.hashes) {
+            if (await getProvider().getTransaction(hash)) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    private template(record: TransactionRecord): ethers.TransactionRequest {
+        return {
+            to: record.to,
+            data: record.data,
+            gasLimit: BigInt(record.gasLimit),
+            nonce: record.nonce,
+            chainId: getNetworkConfig().chainId
+        };
+    }
+
+    private async estimateFees(): Promise<Fees> {
+        const feeData = await getProvider().getFeeData();
+        const { maxFeePerGas: maxFeeCap, maxPriorityFeePerGas: priorityCap } = this.options;
+
+        if (feeData.maxFeePerGas === null || feeData.maxPriorityFeePerGas === null) {
+            return { gasPrice: this.cap(feeData.gasPrice ?? 0n, maxFeeCap) };
+        }
+
+        const maxPriorityFeePerGas = this.cap(feeData.maxPriorityFeePerGas, priorityCap);
+        const maxFeePerGas = this.cap(feeData.maxFeePerGas, maxFeeCap);
+        return {
+            maxFeePerGas: maxFeePerGas < maxPriorityFeePerGas ? maxPriorityFeePerGas : maxFeePerGas,
+            maxPriorityFeePerGas
+        };
+    }
+
+    // The higher of a 15% bump and the current market, or null if a cap blocks it
+    private bumpFees(current: Fees, latest: Fees): Fees | null {
+        const bump = (value: bigint | undefined, market: bigint | undefined, cap?: bigint): bigint | null => {
+            const minimum = (value ?? 0n) * REPLACEMENT_BUMP_PERCENT / 100n;
+            const next = market !== undefined && market > minimum ? market : minimum;
+            return cap !== undefined && next > cap ? null : next;
+        };
+
+        if (current.gasPrice !== undefined) {
+            const gasPrice = bump(current.gasPrice, latest.gasPrice, this.options.maxFeePerGas);
+            return gasPrice === null ? null : { gasPrice };
+        }
+
+        const maxFeePerGas = bump(current.maxFeePerGas, latest.maxFeePerGas, this.options.maxFeePerGas);
+        const maxPriorityFeePerGas = bump(current.maxPriorityFeePerGas, latest.maxPriorityFeePerGas, this.options.maxPriorityFeePerGas);
+        if (maxFeePerGas === null || maxPriorityFeePerGas === null) {
+            return null;
+        }
+        return { maxFeePerGas, maxPriorityFeePerGas };
+    }
+
+    private cap(value: bigint, cap?: bigint): bigint {
+        return cap !== undefined && value > cap ? cap : value;
+    }
+
+    private serializeFees(fees: Fees): Pick<TransactionRecord, 'maxFeePerGas' | 'maxPriorityFeePerGas' | 'gasPrice'> {
+        return {
+            maxFeePerGas: fees.maxFeePerGas?.toString(),
+            maxPriorityFeePerGas: fees.maxPriorityFeePerGas?.toString(),
+            gasPrice: fees.gasPrice?.toString()
+        };
+    }
+
+    private parseFees(record: TransactionRecord): Fees {
+        return {
+            maxFeePerGas: record.maxFeePerGas ? BigInt(record.maxFeePerGas) : undefined,
+            maxPriorityFeePerGas: record.maxPriorityFeePerGas ? BigInt(record.maxPriorityFeePerGas) : undefined,
+            gasPrice: record.gasPrice ? BigInt(record.gasPrice) : undefined
+        };
+    }
+
+    private async findReceipt(hashes: string[]): Promise<ethers.TransactionReceipt | null> {
+        for (const hash of hashes) {
+            const receipt = await getProvider().getTransactionReceipt(hash);
+            if (receipt) {
+                return receipt;
+            }
+        }
+        return null;
+    }
+
+    private async settle(record: TransactionRecord, receipt: ethers.TransactionReceipt): Promise<TransactionRecord> {
+        if (receipt.status !== 1) {
+            await this.fail(record, 'Transaction reverted', receipt);
+            return record;
+        }
+
+        Object.assign(record, {
+            status: 'confirmed',
+            hash: receipt.hash,
+            blockNumber: receipt.blockNumber,
+            transactionLink: getTransactionLink(receipt.hash),
+            updatedAt: new Date().toISOString()
+        });
+        await this.finish(record);
+        logger.info('Transaction confirmed', { hash: record.hash, method: record.method, blockNumber: record.blockNumber });
+        return record;
+    }
+
+    // The nonce may now be free or taken by someone else, so it is read from the chain again
+    private async drop(record: TransactionRecord, error: string): Promise<void> {
+        this.nextNonce = null;
+        await this.fail(record, error);
+    }
+
+    private settledError(record: TransactionRecord): ServiceError {
+        // Only a mined transaction has a block; anything else failed by being dropped
+        const serviceError = new ServiceError(
+            record.blockNumber !== undefined ? `Transaction ${record.hash} reverted` : `Transaction ${record.hash} was dropped`
+        );
+        serviceError.code = record.blockNumber !== undefined ? 'CONTRACT_CALL_REVERTED' : 'TRANSACTION_DROPPED';
+        serviceError.statusCode = 502;
+        return serviceError;
+    }
+
+    private async fail(record: TransactionRecord, error: string, receipt?: ethers.TransactionReceipt): Promise<void> {
+        Object.assign(record, {
+            status: 'failed',
+            error,
+            updatedAt: new Date().toISOString()
+        }, receipt && {
+            hash: receipt.hash,
+            blockNumber: receipt.blockNumber,
+            transactionLink: getTransactionLink(receipt.hash)
+        });
+        await this.finish(record);
+        logger.error('Transaction failed', { hash: record.hash, method: record.method, error });
+    }
+
+    private async finish(record: TransactionRecord): Promise<void> {
+        const ttl = this.options.historyTtlSeconds;
+        await this.store.set(this.recordKey(record.id), record, ttl);
+        for (const hash of record.hashes) {
+            await this.store.set(this.hashKey(hash), record.id, ttl);
+        }
+        await this.store.delete(this.pendingKey(record.id));
+    }
+
+    private recordKey(id: string): string {
+        return `tx:record:${id}`;
+    }
+
+    private hashKey(hash: string): string {
+        return `tx:hash:${hash.toLowerCase()}`;
+    }
+
+    private operationKey(operation: string): string {
+        return `tx:operation:${operation}`;
+    }
+
+    private pendingPrefix(): string {
+        return 'tx:pending:';
+    }
+
+    private pendingKey(id: string): string {
+        return `${this.pendingPrefix()}${id}`;
+    }
+}
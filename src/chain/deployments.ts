@@ -0,0 +1,210 @@
+// src/chain/deployments.ts
+
+import { ethers } from 'ethers';
+import * as fs from 'fs';
+import * as path from 'path';
+import { DeploymentInfo, DeploymentRegistryEntry, ServiceError } from '../utils/types';
+import { getNetworkConfig, getProvider } from './network';
+import { CompilerService } from '../services/CompilerService';
+import logger from '../utils/Logger';
+
+// deployments/<network>/<contract>.json, each holding every deployment made there
+const DEPLOYMENTS_DIR = path.join(__dirname, '../../deployments');
+const CONTRACTS_DIR = path.join(__dirname, '../../src/contracts');
+
+const activeDeployments = new Map<string, DeploymentInfo>();
+
+export function hashAbi(abi: any[]): string {
+    return ethers.id(JSON.stringify(abi));
+}
+
+export function contractSourcePath(contractName: string): string {
+    return path.join(CONTRACTS_DIR, `${contractName}.sol`);
+}
+
+function registryPath(network: string, contractName: string): string {
+    return path.join(DEPLOYMENTS_DIR, network, `${contractName}.json`);
+}
+
+export function readRegistry(contractName: string, network: string = getNetworkConfig().name): DeploymentRegistryEntry | null {
+    const filePath = registryPath(network, contractName);
+    if (fs.existsSync(filePath)) {
+        return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    }
+
+    // Before the registry there was one deployments/<contract>.json for whichever
+    // network was deployed to last
+    const legacyPath = path.join(DEPLOYMENTS_DIR, `${contractName}.json`);
+    if (fs.existsSync(legacyPath)) {
+        const legacy: DeploymentInfo = JSON.parse(fs.readFileSync(legacyPath, 'utf8'));
+        if (legacy.network === network) {
+            return { network, chainId: getNetworkConfig().chainId, contractName, deployments: [legacy] };
+        }
+    }
+    return null;
+}
+
+export function recordDeployment(contractName: string, info: DeploymentInfo): string {
+    const registry = readRegistry(contractName, info.network) || {
+        network: info.network,
+        chainId: info.chainId ?? getNetworkConfig().chainId,
+        contractName,
+        deployments: []
+    };
+    registry.deployments.push(info);
+
+    const filePath = registryPath(info.network, contractName);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(registry, null, 2));
+    activeDeployments.delete(contractName);
+    return path.relative(process.cwd(), filePath);
+}
+
+// The latest deployment on the configured chain, or the one CONTRACT_ADDRESS names
+export function getActiveDeployment(contractName: string): DeploymentInfo {
+    const cached = activeDeployments.get(contractName);
+    if (cached) {
+        return cached;
+    }
+
+    const { name, chainId } = getNetworkConfig();
+    const registry = readRegistry(contractName, name);
+    const candidates = (registry?.deployments || []).filter(
+        (deployment) => (deployment.chainId ?? registry!.chainId) === chainId
+    );
+    const pinned = process.env.CONTRACT_ADDRESS?.toLowerCase();
+    const deployment = pinned
+        ? candidates.find((candidate) => candidate.address.toLowerCase() === pinned)
+        : candidates[candidates.length - 1];
+
+    if (!deployment) {
+        const serviceError = new ServiceError(
+            pinned
+                ? `No ${contractName} deployment at ${process.env.CONTRACT_ADDRESS} on ${name} (chain ${chainId})`
+                : `No ${contractName} deployment on ${name} (chain ${chainId}). Please run: npm run deploy`
+        );
+        serviceError.code = 'DEPLOYMENT_NOT_FOUND';
+        serviceError.statusCode = 500;
+        throw serviceError;
+    }
+
+    activeDeployments.set(contractName, deployment);
+    return deployment;
+}
+
+// Selectors the dispatcher compares calldata against, read from PUSH1-PUSH4
+// operands only. solc pushes selectors with leading zero bytes in fewer bytes.
+function pushedSelectors(code: string): Set<number> {
+    const bytes = ethers.getBytes(code);
+    const selectors = new Set<number>();
+
+    for (let i = 0; i < bytes.length; i++) {
+        const opcode = bytes[i];
+        // PUSH1 (0x60) to PUSH32 (0x7f) carry opcode - 0x5f bytes of data
+        if (opcode >= 0x60 && opcode <= 0x7f) {
+            const size = opcode - 0x5f;
+            if (size <= 4) {
+                selectors.add(bytes.slice(i + 1, i + 1 + size).reduce((value, byte) => value * 256 + byte, 0));
+            }
+            i += size;
+        }
+    }
+    return selectors;
+}
+
+function missingFunctions(abi: any[], selectors: Set<number>): string[] {
+    const missing: string[] = [];
+    new ethers.Interface(abi).forEachFunction((fragment) => {
+        if (!selectors.has(Number(fragment.selector))) {
+            missing.push(fragment.format());
+        }
+    });
+    return missing;
+}
+
+// The server is written against the contract source it ships with, which may
+// have moved on since the deployment. An unchanged source hash settles it;
+// otherwise the source is compiled and every function it declares has to be
+// in the deployed dispatcher.
+async function verifySource(contractName: string, deployment: DeploymentInfo, code: string): Promise<void> {
+    const sourcePath = contractSourcePath(contractName);
+    if (!fs.existsSync(sourcePath)) {
+        logger.warn('Contract source not found, skipping source check', { contractName, sourcePath });
+        return;
+    }
+
+    if (deployment.sourceHash === ethers.id(fs.readFileSync(sourcePath, 'utf8'))) {
+        return;
+    }
+
+    const { abi } = await CompilerService.compile(sourcePath, contractName);
+    const missing = missingFunctions(abi, pushedSelectors(code));
+    if (missing.length > 0) {
+        const serviceError = new ServiceError(
+            `${contractName} at ${deployment.address} was deployed from an older source and lacks ${missing.join(', ')}. Please run: npm run deploy`
+        );
+        serviceError.code = 'DEPLOYMENT_SOURCE_MISMATCH';
+        serviceError.statusCode = 500;
+        throw serviceError;
+    }
+    logger.warn('Contract source changed since deployment, but the deployed code has all of its functions', {
+        contractName,
+        address: deployment.address
+    });
+}
+
+// Checks the active deployment still exists on chain and is the code that was
+// deployed. The runtime code hash recorded at deploy time catches a contract
+// that was replaced or a devnet reset; deployments recorded without it are
+// checked for every ABI function in the dispatcher instead.
+export async function verifyDeployment(contractName: string): Promise<DeploymentInfo> {
+    const deployment = getActiveDeployment(contractName);
+
+    if (deployment.abiHash && deployment.abiHash !== hashAbi(deployment.abi)) {
+        const serviceError = new ServiceError(`${contractName} ABI was modified after deployment`);
+        serviceError.code = 'DEPLOYMENT_ABI_MISMATCH';
+        serviceError.statusCode = 500;
+        throw serviceError;
+    }
+
+    const code = await getProvider().getCode(deployment.address);
+    if (code === '0x') {
+        const serviceError = new ServiceError(
+            `No contract code at ${deployment.address} on ${deployment.network}. Please run: npm run deploy`
+        );
+        serviceError.code = 'DEPLOYMENT_NOT_FOUND';
+        serviceError.statusCode = 500;
+        throw serviceError;
+    }
+
+    if (deployment.codeHash) {
+        if (ethers.keccak256(code) !== deployment.codeHash) {
+            const serviceError = new ServiceError(
+                `${contractName} at ${deployment.address} is not the code that was deployed there. Please run: npm run deploy`
+            );
+            serviceError.code = 'DEPLOYMENT_CODE_MISMATCH';
+            serviceError.statusCode = 500;
+            throw serviceError;
+        }
+    } else {
+        const missing = missingFunctions(deployment.abi, pushedSelectors(code));
+        if (missing.length > 0) {
+            const serviceError = new ServiceError(
+                `${contractName} at ${deployment.address} does not implement ${missing.join(', ')}`
+            );
+            serviceError.code = 'DEPLOYMENT_ABI_MISMATCH';
+            serviceError.statusCode = 500;
+            throw serviceError;
+        }
+    }
+
+    await verifySource(contractName, deployment, code);
+
+    logger.info('Contract deployment verified', {
+        contractName,
+        address: deployment.address,
+        network: deployment.network,
+        deploymentTime: deployment.deploymentTime
+    });
+    return deployment;
+}
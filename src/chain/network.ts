@@ -0,0 +1,64 @@
+// src/chain/network.ts
+
+import { ethers } from 'ethers';
+import { NetworkConfig } from '../utils/types';
+
+// Known networks; RPC_URL, CHAIN_ID, NETWORK_ID and EXPLORER_URL override any field
+const NETWORKS: Record<string, Omit<NetworkConfig, 'name'>> = {
+    'base-sepolia': {
+        url: 'https://sepolia.base.org',
+        chainId: 84532,
+        cdpNetworkId: 'base-sepolia',
+        explorerUrl: 'https://sepolia.basescan.org'
+    },
+    'base-mainnet': {
+        url: 'https://mainnet.base.org',
+        chainId: 8453,
+        cdpNetworkId: 'base-mainnet',
+        explorerUrl: 'https://basescan.org'
+    },
+    // Anvil and Hardhat nodes both default to this port and chain id
+    localhost: {
+        url: 'http://127.0.0.1:8545',
+        chainId: 31337
+    }
+};
+
+let networkConfig: NetworkConfig | null = null;
+let provider: ethers.JsonRpcProvider | null = null;
+
+export function getNetworkConfig(): NetworkConfig {
+    if (!networkConfig) {
+        const name = process.env.NETWORK || 'base-sepolia';
+        const preset = NETWORKS[name];
+        // BASE_SEPOLIA_URL is the older name for RPC_URL
+        const url = process.env.RPC_URL || process.env.BASE_SEPOLIA_URL || preset?.url;
+
+        if (!url || !(process.env.CHAIN_ID || preset)) {
+            throw new Error(`Unknown NETWORK "${name}": set RPC_URL and CHAIN_ID for custom networks`);
+        }
+
+        networkConfig = {
+            name,
+            url,
+            chainId: parseInt(process.env.CHAIN_ID || String(preset.chainId)),
+            cdpNetworkId: process.env.NETWORK_ID || preset?.cdpNetworkId,
+            explorerUrl: process.env.EXPLORER_URL || preset?.explorerUrl
+        };
+    }
+    return networkConfig;
+}
+
+// One provider for the process, so every service talks to the same node
+export function getProvider(): ethers.JsonRpcProvider {
+    if (!provider) {
+        const config = getNetworkConfig();
+        provider = new ethers.JsonRpcProvider(config.url, config.chainId, { staticNetwork: true });
+    }
+    return provider;
+}
+
+export function getTransactionLink(hash: string): string | undefined {
+    const { explorerUrl } = getNetworkConfig();
+    return explorerUrl ? `${explorerUrl.replace(/\/$/, '')}/tx/${hash}` : undefined;
+}
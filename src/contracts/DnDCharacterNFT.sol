@@ -113,6 +113,19 @@ contract DnDCharacterNFT is ERC721URIStorage, Ownable {
     }
 
     function gainExperience(uint256 tokenId, uint256 amount) external onlyOwner {
+        _gainExperience(tokenId, amount);
+    }
+
+    // Applies many grants in one transaction; each still emits its own
+    // ExperienceGained and LevelUp events
+    function batchGainExperience(uint256[] calldata tokenIds, uint256[] calldata amounts) external onlyOwner {
+        require(tokenIds.length == amounts.length, "Length mismatch");
+        for (uint256 i = 0; i < tokenIds.length; i++) {
+            _gainExperience(tokenIds[i], amounts[i]);
+        }
+    }
+
+    function _gainExperience(uint256 tokenId, uint256 amount) internal {
         require(_exists(tokenId), "Character does not exist");
         
         Character storage character = characters[tokenId];
@@ -127,6 +140,13 @@ contract DnDCharacterNFT is ERC721URIStorage, Ownable {
         emit ExperienceGained(tokenId, amount);
     }
 
+    // Points a token at regenerated metadata; _setTokenURI emits the
+    // ERC-4906 MetadataUpdate event so marketplaces refetch it
+    function setTokenURI(uint256 tokenId, string memory newTokenURI) external onlyOwner {
+        require(_exists(tokenId), "Character does not exist");
+        _setTokenURI(tokenId, newTokenURI);
+    }
+
     function advanceSeason() external onlyOwner {
         currentSeason++;
         emit SeasonAdvanced(currentSeason);
@@ -0,0 +1,122 @@
+// src/controllers/AuthController.ts
+
+import { Router, Request, Response, RequestHandler } from 'express';
+import { Service } from 'typedi';
+import { IAuthService, ServiceError } from '../utils/types';
+import { createRequireAuth } from '../middleware/auth';
+import logger from '../utils/Logger';
+
+const ERROR_STATUS_CODES: Record<string, number> = {
+    INVALID_SIWE_MESSAGE: 400,
+    SIWE_MESSAGE_REJECTED: 401,
+    SIWE_NONCE_INVALID: 401,
+    SIWE_MESSAGE_EXPIRED: 401,
+    INVALID_SIWE_SIGNATURE: 401,
+    INVALID_REFRESH_TOKEN: 401,
+    AUTH_NOT_CONFIGURED: 503
+};
+
+@Service()
+export class AuthController {
+    private router: Router;
+
+    constructor(private authService: IAuthService) {
+        this.router = Router();
+        this.initializeRoutes();
+    }
+
+    private initializeRoutes() {
+        this.router.get('/auth/nonce', this.createNonce.bind(this) as RequestHandler);
+        this.router.post('/auth/verify', this.verify.bind(this) as RequestHandler);
+        this.router.post('/auth/refresh', this.refresh.bind(this) as RequestHandler);
+        this.router.post('/auth/logout', this.logout.bind(this) as RequestHandler);
+        this.router.get('/auth/me', createRequireAuth(this.authService), this.getCaller.bind(this) as RequestHandler);
+    }
+
+    private async createNonce(req: Request, res: Response) {
+        try {
+            const nonce = await this.authService.createNonce();
+            res.json(nonce);
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    private async verify(req: Request, res: Response) {
+        try {
+            const { message, signature } = req.body;
+
+            if (!message || !signature) {
+                return res.status(400).json({
+                    error: 'Missing required fields: message and signature'
+                });
+            }
+
+            const session = await this.authService.signIn(String(message), String(signature));
+            res.status(201).json(session);
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    private async refresh(req: Request, res: Response) {
+        try {
+            const { refreshToken } = req.body;
+
+            if (!refreshToken) {
+                return res.status(400).json({
+                    error: 'Missing required field: refreshToken'
+                });
+            }
+
+            const session = await this.authService.refresh(String(refreshToken));
+            res.json(session);
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    private async logout(req: Request, res: Response) {
+        try {
+            const { refreshToken } = req.body;
+
+            if (!refreshToken) {
+                return res.status(400).json({
+                    error: 'Missing required field: refreshToken'
+                });
+            }
+
+            await this.authService.signOut(String(refreshToken));
+            res.status(204).end();
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    private async getCaller(req: Request, res: Response) {
+        res.json(req.auth);
+    }
+
+    private handleError(error: unknown, res: Response) {
+        if (error instanceof ServiceError) {
+            const statusCode = ERROR_STATUS_CODES[error.code] || error.statusCode || 500;
+            logger.error('Auth error occurred', {
+                message: error.message,
+                code: error.code,
+                statusCode
+            });
+            return res.status(statusCode).json({
+                error: error.message,
+                code: error.code
+            });
+        }
+
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        logger.error('Unknown error occurred', { message });
+        return res.status(500).json({ error: message });
+    }
+
+    getRouter(): Router {
+        return this.router;
+    }
+}
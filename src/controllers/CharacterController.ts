@@ -6,7 +6,7 @@ import {
     ICharacterService, 
     Tokens, 
     CharacterClass,
-    CreateCharacterResponse 
+    CharacterCreationResult 
 } from '../utils/types';
 import logger from '../utils/Logger';
 
@@ -54,7 +54,7 @@ export class CharacterController {
                 });
             }
 
-            const result: CreateCharacterResponse = await this.characterService.createCharacter(
+            const result: CharacterCreationResult = await this.characterService.createCharacter(
                 playerAddress,
                 characterClass as CharacterClass
             );
@@ -62,7 +62,7 @@ export class CharacterController {
             logger.info('Character created successfully', {
                 playerAddress,
                 characterClass,
-                transaction: result.transaction
+                transactionHash: result.transactionHash
             });
 
             res.json(result);
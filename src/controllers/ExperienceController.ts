@@ -0,0 +1,73 @@
+// src/controllers/ExperienceController.ts
+
+import { Router, Request, Response, RequestHandler } from 'express';
+import { Service } from 'typedi';
+import { IExperienceService, ServiceError } from '../utils/types';
+import { requireAdminKey } from '../middleware/adminAuth';
+import logger from '../utils/Logger';
+
+const ERROR_STATUS_CODES: Record<string, number> = {
+    PARKED_EXPERIENCE_NOT_FOUND: 404,
+    LOCK_TIMEOUT: 503
+};
+
+@Service()
+export class ExperienceController {
+    private router: Router;
+
+    constructor(private experienceService: IExperienceService) {
+        this.router = Router();
+        this.initializeRoutes();
+    }
+
+    private initializeRoutes() {
+        this.router.get('/admin/experience/parked', requireAdminKey as RequestHandler, this.getParked.bind(this) as RequestHandler);
+        this.router.post('/admin/experience/parked/:tokenId/retry', requireAdminKey as RequestHandler, this.retryParked.bind(this) as RequestHandler);
+    }
+
+    private async getParked(req: Request, res: Response) {
+        try {
+            const grants = await this.experienceService.listParked();
+            res.json({ total: grants.length, grants });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    private async retryParked(req: Request, res: Response) {
+        try {
+            const tokenId = Number(req.params.tokenId);
+            if (!Number.isInteger(tokenId) || tokenId < 1) {
+                return res.status(400).json({ error: 'Invalid token id' });
+            }
+
+            const grants = await this.experienceService.retryParked(tokenId);
+            res.status(202).json({ tokenId, total: grants.length, grants });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    private handleError(error: unknown, res: Response) {
+        if (error instanceof ServiceError) {
+            const statusCode = ERROR_STATUS_CODES[error.code] || error.statusCode || 500;
+            logger.error('Experience error occurred', {
+                message: error.message,
+                code: error.code,
+                statusCode
+            });
+            return res.status(statusCode).json({
+                error: error.message,
+                code: error.code
+            });
+        }
+
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        logger.error('Unknown error occurred', { message });
+        return res.status(500).json({ error: message });
+    }
+
+    getRouter(): Router {
+        return this.router;
+    }
+}
@@ -5,11 +5,16 @@ import { Service, Inject } from 'typedi';
 import { 
     ICharacterService, 
     IAIService, 
+    IAuthService,
+    IJobService,
+    IKeyValueStore,
     Tokens,
     CharacterClass,
     ServiceError,
     GameMasterResponse
 } from '../utils/types';
+import { createRequireAuth, createRequireCharacterOwner } from '../middleware/auth';
+import { createIdempotency } from '../middleware/idempotency';
 import logger from '../utils/Logger';
 
 @Service()
@@ -18,28 +23,48 @@ export class GameController {
 
     constructor(
         private characterService: ICharacterService,
-        private aiService: IAIService
+        private aiService: IAIService,
+        private authService: IAuthService,
+        private jobService: IJobService,
+        private store: IKeyValueStore
     ) {
         this.router = Router();
         this.initializeRoutes();
     }
 
     private initializeRoutes() {
-        this.router.post('/characters', this.createCharacter.bind(this) as RequestHandler);
-        this.router.get('/characters/:address', this.getCharactersByOwner.bind(this) as RequestHandler);
+        const requireAuth = createRequireAuth(this.authService);
+        const requireOwner = createRequireCharacterOwner(this.characterService);
+        const idempotent = createIdempotency(this.store);
+
+        this.router.post('/characters', requireAuth, idempotent, this.createCharacter.bind(this) as RequestHandler);
+        this.router.get('/characters/:id', this.getCharacters.bind(this) as RequestHandler);
+        this.router.post('/characters/:tokenId/evolve', requireAuth, requireOwner, idempotent, this.evolveCharacter.bind(this) as RequestHandler);
     }
 
     private async createCharacter(req: Request, res: Response) {
         try {
-            const { playerAddress, characterClass } = req.body;
-            
-            if (!playerAddress || !characterClass) {
+            const { characterClass } = req.body;
+            // Characters are always minted to the signed-in wallet
+            const playerAddress = req.auth!.address;
+
+            if (req.body.playerAddress && String(req.body.playerAddress).toLowerCase() !== playerAddress) {
+                logger.warn('Rejected mint to another address', {
+                    caller: playerAddress,
+                    playerAddress: req.body.playerAddress
+                });
+                return res.status(403).json({
+                    error: 'Characters can only be minted to the signed-in address',
+                    code: 'MINT_NOT_AUTHORIZED'
+                });
+            }
+
+            if (!characterClass) {
                 logger.warn('Missing required fields', {
-                    playerAddress: !!playerAddress,
                     characterClass: !!characterClass
                 });
                 return res.status(400).json({
-                    error: 'Missing required fields: playerAddress and characterClass'
+                    error: 'Missing required field: characterClass'
                 });
             }
 
@@ -53,26 +78,57 @@ export class GameController {
                 });
             }
 
-            const result = await this.characterService.createCharacter(
+            // Creation takes minutes, so it runs as a job the client polls or streams
+            const job = await this.jobService.createCharacterJob(
                 playerAddress,
                 characterClass as CharacterClass
             );
 
-            logger.info('Character created successfully', {
+            logger.info('Character creation accepted', {
                 playerAddress,
                 characterClass,
-                result
+                jobId: job.id
             });
 
-            res.status(201).json(result);
+            res.status(202)
+                .location(`${req.baseUrl}/jobs/${job.id}`)
+                .json(job);
         } catch (error) {
             this.handleError(error, res);
         }
     }
 
-    private async getCharactersByOwner(req: Request, res: Response) {
+    // One path segment serves both lookups: a token id or an owner address
+    private async getCharacters(req: Request, res: Response) {
+        const id = String(req.params.id);
+
+        if (/^0x[0-9a-fA-F]{40}$/.test(id)) {
+            return this.getCharactersByOwner(id, req, res);
+        }
+        if (/^[1-9][0-9]*$/.test(id)) {
+            return this.getCharacterDetails(Number(id), res);
+        }
+
+        logger.warn('Invalid character lookup', { id });
+        return res.status(400).json({
+            error: 'Expected a token id or an owner address'
+        });
+    }
+
+    private async getCharacterDetails(tokenId: number, res: Response) {
+        try {
+            const details = await this.characterService.getCharacterDetails(tokenId);
+
+            logger.info('Character details retrieved', { tokenId, owner: details.owner });
+
+            res.json(details);
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    private async getCharactersByOwner(address: string, req: Request, res: Response) {
         try {
-            const { address } = req.params;
             const page = Number(req.query.page) || 1;
             const limit = Number(req.query.limit) || 10;
             
@@ -95,6 +151,31 @@ export class GameController {
         }
     }
 
+    private async evolveCharacter(req: Request, res: Response) {
+        try {
+            const tokenId = Number(req.params.tokenId);
+
+            if (!Number.isInteger(tokenId) || tokenId <= 0) {
+                logger.warn('Invalid token id provided', { tokenId: req.params.tokenId });
+                return res.status(400).json({
+                    error: 'Invalid token id'
+                });
+            }
+
+            const result = await this.characterService.evolveCharacter(tokenId);
+
+            logger.info('Character evolved successfully', {
+                tokenId,
+                evolvedTokenId: result.evolvedTokenId,
+                transactionHash: result.transactionHash
+            });
+
+            res.status(201).json(result);
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
     private handleError(error: unknown, res: Response) {
         if (error instanceof ServiceError) {
             logger.error('Service error occurred', {
@@ -0,0 +1,495 @@
+// src/controllers/GameplayController.ts
+
+import { Router, Request, Response, RequestHandler } from 'express';
+import { Service } from 'typedi';
+import {
+    EncounterDifficulty,
+    EquipmentSlot,
+    IAuthService,
+    ICharacterService,
+    ICombatService,
+    IGameService,
+    IInventoryService,
+    IKeyValueStore,
+    ILedgerService,
+    ISessionService,
+    ServiceError
+} from '../utils/types';
+import { createRequireAuth, createRequireCharacterOwner } from '../middleware/auth';
+import { createIdempotency } from '../middleware/idempotency';
+import logger from '../utils/Logger';
+
+// Gameplay failures usually come from an upstream dependency (AI model or
+// chain RPC), so they surface as 502 rather than a generic 500.
+const ERROR_STATUS_CODES: Record<string, number> = {
+    INVALID_ACTION_CONTEXT: 400,
+    CHARACTER_NOT_FOUND: 404,
+    SESSION_NOT_FOUND: 404,
+    SESSION_NOT_ACTIVE: 409,
+    INVALID_COMBAT_ACTION: 400,
+    COMBAT_NOT_FOUND: 404,
+    MONSTER_NOT_FOUND: 404,
+    COMBAT_NOT_ACTIVE: 409,
+    ITEM_NOT_FOUND: 404,
+    ITEM_NOT_OWNED: 409,
+    ITEM_NOT_EQUIPPABLE: 400,
+    INVALID_EQUIPMENT_SLOT: 400,
+    INSUFFICIENT_ITEMS: 409,
+    ITEM_NOT_FOR_SALE: 400,
+    INVALID_AMOUNT: 400,
+    INVALID_LEDGER_SOURCE: 400,
+    INSUFFICIENT_FUNDS: 409,
+    QUEST_START_FAILED: 502,
+    QUEST_ACTION_FAILED: 502,
+    COMBAT_START_FAILED: 502,
+    COMBAT_ACTION_FAILED: 502
+};
+
+const QUEST_LENGTHS = ['short', 'medium', 'long'];
+const ENCOUNTER_DIFFICULTIES: EncounterDifficulty[] = ['easy', 'medium', 'hard'];
+const EQUIPMENT_SLOTS: EquipmentSlot[] = ['weapon', 'armor', 'accessory'];
+const SPENDING_TYPES = ['purchase', 'repair'];
+const MAX_HISTORY_PAGE = 100;
+
+@Service()
+export class GameplayController {
+    private router: Router;
+
+    constructor(
+        private characterService: ICharacterService,
+        private gameService: IGameService,
+        private sessionService: ISessionService,
+        private combatService: ICombatService,
+        private inventoryService: IInventoryService,
+        private ledgerService: ILedgerService,
+        private authService: IAuthService,
+        private store: IKeyValueStore
+    ) {
+        this.router = Router();
+        this.initializeRoutes();
+    }
+
+    private initializeRoutes() {
+        // Reads are public; anything that changes a character requires its owner
+        const requireAuth = createRequireAuth(this.authService);
+        const requireOwner = createRequireCharacterOwner(this.characterService);
+        const idempotent = createIdempotency(this.store);
+
+        this.router.post('/characters/:tokenId/actions', requireAuth, requireOwner, idempotent, this.processAction.bind(this) as RequestHandler);
+        this.router.post('/characters/:tokenId/quests', requireAuth, requireOwner, idempotent, this.startQuest.bind(this) as RequestHandler);
+        this.router.post('/characters/:tokenId/quests/:questId/actions', requireAuth, requireOwner, idempotent, this.processQuestAction.bind(this) as RequestHandler);
+        this.router.post('/characters/:tokenId/combat', requireAuth, requireOwner, idempotent, this.startCombat.bind(this) as RequestHandler);
+        this.router.get('/characters/:tokenId/combat/:encounterId', this.getEncounter.bind(this) as RequestHandler);
+        this.router.post('/characters/:tokenId/combat/:encounterId/actions', requireAuth, requireOwner, idempotent, this.processCombatAction.bind(this) as RequestHandler);
+        this.router.post('/characters/:tokenId/sessions', requireAuth, requireOwner, idempotent, this.startSession.bind(this) as RequestHandler);
+        this.router.get('/characters/:tokenId/sessions/current', this.getActiveSession.bind(this) as RequestHandler);
+        this.router.post('/characters/:tokenId/sessions/current/end', requireAuth, requireOwner, idempotent, this.endSession.bind(this) as RequestHandler);
+        this.router.get('/characters/:tokenId/inventory', this.getInventory.bind(this) as RequestHandler);
+        this.router.post('/characters/:tokenId/inventory/equip', requireAuth, requireOwner, idempotent, this.equipItem.bind(this) as RequestHandler);
+        this.router.post('/characters/:tokenId/inventory/unequip', requireAuth, requireOwner, idempotent, this.unequipItem.bind(this) as RequestHandler);
+        this.router.post('/characters/:tokenId/inventory/purchase', requireAuth, requireOwner, idempotent, this.purchaseItem.bind(this) as RequestHandler);
+        this.router.get('/characters/:tokenId/gold', this.getGoldBalance.bind(this) as RequestHandler);
+        this.router.get('/characters/:tokenId/gold/transactions', this.getGoldTransactions.bind(this) as RequestHandler);
+        this.router.post('/characters/:tokenId/gold/spend', requireAuth, requireOwner, idempotent, this.spendGold.bind(this) as RequestHandler);
+    }
+
+    private async processAction(req: Request, res: Response) {
+        try {
+            const tokenId = this.parseTokenId(req);
+            const { action, ...context } = req.body;
+
+            if (tokenId === null || !action) {
+                return res.status(400).json({
+                    error: 'Missing required fields: tokenId and action'
+                });
+            }
+
+            const result = await this.gameService.processAction(action, {
+                ...context,
+                tokenId
+            });
+
+            logger.info('Game action processed', {
+                tokenId,
+                action,
+                outcome: result.outcome
+            });
+
+            res.json(result);
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    private async startQuest(req: Request, res: Response) {
+        try {
+            const tokenId = this.parseTokenId(req);
+            const { theme, length } = req.body;
+
+            if (tokenId === null) {
+                return res.status(400).json({
+                    error: 'Invalid token id'
+                });
+            }
+
+            if (length !== undefined && !QUEST_LENGTHS.includes(length)) {
+                return res.status(400).json({
+                    error: `Invalid quest length, expected one of: ${QUEST_LENGTHS.join(', ')}`
+                });
+            }
+
+            const quest = await this.gameService.startQuest(tokenId, theme, length);
+
+            logger.info('Quest started', {
+                tokenId,
+                questId: quest.questId,
+                title: quest.title
+            });
+
+            res.status(201).json(quest);
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    private async processQuestAction(req: Request, res: Response) {
+        try {
+            const tokenId = this.parseTokenId(req);
+            const questId = String(req.params.questId);
+            const { action, currentScene } = req.body;
+
+            if (tokenId === null || !action) {
+                return res.status(400).json({
+                    error: 'Missing required fields: tokenId and action'
+                });
+            }
+
+            // The scene is only used to open a new session; afterwards the server tracks it
+            const result = await this.gameService.processQuestAction(tokenId, questId, action, {
+                currentScene
+            });
+
+            logger.info('Quest action processed', {
+                tokenId,
+                questId,
+                outcome: result.outcome
+            });
+
+            res.json(result);
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    private async startCombat(req: Request, res: Response) {
+        try {
+            const tokenId = this.parseTokenId(req);
+            const { difficulty, monsters } = req.body;
+
+            if (tokenId === null) {
+                return res.status(400).json({
+                    error: 'Invalid token id'
+                });
+            }
+
+            if (difficulty !== undefined && !ENCOUNTER_DIFFICULTIES.includes(difficulty)) {
+                return res.status(400).json({
+                    error: `Invalid difficulty, expected one of: ${ENCOUNTER_DIFFICULTIES.join(', ')}`
+                });
+            }
+
+            if (monsters !== undefined && (!Array.isArray(monsters) || !monsters.every((id) => typeof id === 'string'))) {
+                return res.status(400).json({
+                    error: 'monsters must be an array of bestiary ids'
+                });
+            }
+
+            // A chosen lineup is rated by its challenge rating instead
+            if (difficulty !== undefined && monsters !== undefined) {
+                return res.status(400).json({
+                    error: 'Pass either difficulty or monsters, not both'
+                });
+            }
+
+            const encounter = await this.gameService.startCombat(tokenId, difficulty, monsters);
+
+            logger.info('Combat started', {
+                tokenId,
+                encounterId: encounter.id,
+                difficulty: encounter.difficulty
+            });
+
+            res.status(201).json(encounter);
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    private async getEncounter(req: Request, res: Response) {
+        try {
+            const tokenId = this.parseTokenId(req);
+
+            if (tokenId === null) {
+                return res.status(400).json({ error: 'Invalid token id' });
+            }
+
+            const encounter = await this.combatService.getEncounter(tokenId, String(req.params.encounterId));
+            res.json(encounter);
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    private async processCombatAction(req: Request, res: Response) {
+        try {
+            const tokenId = this.parseTokenId(req);
+            const encounterId = String(req.params.encounterId);
+            const { action, targetId } = req.body;
+
+            if (tokenId === null || !action) {
+                return res.status(400).json({
+                    error: 'Missing required fields: tokenId and action'
+                });
+            }
+
+            const result = await this.gameService.processCombatAction(tokenId, encounterId, action, targetId);
+
+            logger.info('Combat action processed', {
+                tokenId,
+                encounterId,
+                action,
+                outcome: result.outcome
+            });
+
+            res.json(result);
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    private async startSession(req: Request, res: Response) {
+        try {
+            const tokenId = this.parseTokenId(req);
+            const { questId, scene } = req.body;
+
+            if (tokenId === null) {
+                return res.status(400).json({
+                    error: 'Invalid token id'
+                });
+            }
+
+            const session = await this.sessionService.startSession(tokenId, { questId, scene });
+            res.status(201).json(session);
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    private async getActiveSession(req: Request, res: Response) {
+        try {
+            const tokenId = this.parseTokenId(req);
+
+            if (tokenId === null) {
+                return res.status(400).json({ error: 'Invalid token id' });
+            }
+
+            const session = await this.sessionService.getActiveSession(tokenId);
+            if (!session) {
+                return res.status(404).json({
+                    error: 'No active session for this character',
+                    code: 'SESSION_NOT_FOUND'
+                });
+            }
+
+            res.json(session);
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    private async endSession(req: Request, res: Response) {
+        try {
+            const tokenId = this.parseTokenId(req);
+
+            if (tokenId === null) {
+                return res.status(400).json({
+                    error: 'Invalid token id'
+                });
+            }
+
+            const session = await this.sessionService.endSession(tokenId);
+            res.json(session);
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    private async getInventory(req: Request, res: Response) {
+        try {
+            const tokenId = this.parseTokenId(req);
+
+            if (tokenId === null) {
+                return res.status(400).json({ error: 'Invalid token id' });
+            }
+
+            const inventory = await this.inventoryService.getInventory(tokenId);
+            res.json(inventory);
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    private async equipItem(req: Request, res: Response) {
+        try {
+            const tokenId = this.parseTokenId(req);
+            const { itemId } = req.body;
+
+            if (tokenId === null || !itemId) {
+                return res.status(400).json({
+                    error: 'Missing required fields: tokenId and itemId'
+                });
+            }
+
+            const inventory = await this.inventoryService.equip(tokenId, String(itemId));
+            res.json(inventory);
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    private async unequipItem(req: Request, res: Response) {
+        try {
+            const tokenId = this.parseTokenId(req);
+            const { slot } = req.body;
+
+            if (tokenId === null || !slot) {
+                return res.status(400).json({
+                    error: 'Missing required fields: tokenId and slot'
+                });
+            }
+
+            if (!EQUIPMENT_SLOTS.includes(slot)) {
+                return res.status(400).json({
+                    error: `Invalid slot, expected one of: ${EQUIPMENT_SLOTS.join(', ')}`
+                });
+            }
+
+            const inventory = await this.inventoryService.unequip(tokenId, slot);
+            res.json(inventory);
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    private async purchaseItem(req: Request, res: Response) {
+        try {
+            const tokenId = this.parseTokenId(req);
+            const { itemId, quantity = 1 } = req.body;
+
+            if (tokenId === null || !itemId) {
+                return res.status(400).json({
+                    error: 'Missing required fields: tokenId and itemId'
+                });
+            }
+
+            if (!Number.isInteger(quantity) || quantity <= 0) {
+                return res.status(400).json({ error: 'quantity must be a positive integer' });
+            }
+
+            const inventory = await this.inventoryService.purchaseItem(tokenId, String(itemId), quantity);
+            const balance = await this.ledgerService.getBalance(tokenId);
+            res.json({ inventory, balance });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    private async getGoldBalance(req: Request, res: Response) {
+        try {
+            const tokenId = this.parseTokenId(req);
+
+            if (tokenId === null) {
+                return res.status(400).json({ error: 'Invalid token id' });
+            }
+
+            const balance = await this.ledgerService.getBalance(tokenId);
+            res.json({ tokenId, balance });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    private async getGoldTransactions(req: Request, res: Response) {
+        try {
+            const tokenId = this.parseTokenId(req);
+
+            if (tokenId === null) {
+                return res.status(400).json({ error: 'Invalid token id' });
+            }
+
+            const limit = Math.min(Math.max(Number(req.query.limit) || 20, 1), MAX_HISTORY_PAGE);
+            const offset = Math.max(Number(req.query.offset) || 0, 0);
+
+            const transactions = await this.ledgerService.getHistory(tokenId, { limit, offset });
+            res.json({ tokenId, transactions, limit, offset });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    private async spendGold(req: Request, res: Response) {
+        try {
+            const tokenId = this.parseTokenId(req);
+            const { amount, type, reason, referenceId } = req.body;
+
+            if (tokenId === null || amount === undefined || !type || !reason) {
+                return res.status(400).json({
+                    error: 'Missing required fields: tokenId, amount, type and reason'
+                });
+            }
+
+            if (!SPENDING_TYPES.includes(type)) {
+                return res.status(400).json({
+                    error: `Invalid type, expected one of: ${SPENDING_TYPES.join(', ')}`
+                });
+            }
+
+            const transaction = await this.ledgerService.debit(tokenId, Number(amount), {
+                reason: String(reason),
+                source: { type, id: referenceId !== undefined ? String(referenceId) : undefined }
+            });
+            res.status(201).json(transaction);
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    private parseTokenId(req: Request): number | null {
+        const tokenId = Number(req.params.tokenId);
+        return Number.isInteger(tokenId) && tokenId > 0 ? tokenId : null;
+    }
+
+
+    private handleError(error: unknown, res: Response) {
+        if (error instanceof ServiceError) {
+            const statusCode = ERROR_STATUS_CODES[error.code] || error.statusCode || 500;
+            logger.error('Gameplay error occurred', {
+                message: error.message,
+                code: error.code,
+                statusCode
+            });
+            return res.status(statusCode).json({
+                error: error.message,
+                code: error.code
+            });
+        }
+
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        logger.error('Unknown error occurred', { message });
+        return res.status(500).json({ error: message });
+    }
+
+    getRouter(): Router {
+        return this.router;
+    }
+}
@@ -0,0 +1,147 @@
+// src/controllers/JobController.ts
+
+import { Router, Request, Response, RequestHandler } from 'express';
+import { Service } from 'typedi';
+import { CharacterCreationJob, IJobService, JobStatus, ServiceError } from '../utils/types';
+import { requireAdminKey } from '../middleware/adminAuth';
+import logger from '../utils/Logger';
+
+const ERROR_STATUS_CODES: Record<string, number> = {
+    JOB_NOT_FOUND: 404,
+    JOB_NOT_RETRYABLE: 409,
+    JOB_NOT_ABANDONABLE: 409,
+    CREATION_ALREADY_MINTED: 409
+};
+
+// Statuses that need no further updates from the worker; the stream closes on them
+const SETTLED_STATUSES: JobStatus[] = ['completed', 'failed', 'pending_mint'];
+
+// Comment lines keep idle proxies from closing the event stream
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+@Service()
+export class JobController {
+    private router: Router;
+
+    constructor(private jobService: IJobService) {
+        this.router = Router();
+        this.initializeRoutes();
+    }
+
+    private initializeRoutes() {
+        this.router.get('/jobs/:jobId', this.getJob.bind(this) as RequestHandler);
+        this.router.get('/jobs/:jobId/events', this.streamJob.bind(this) as RequestHandler);
+        this.router.get('/admin/jobs/stuck', requireAdminKey as RequestHandler, this.getStuckJobs.bind(this) as RequestHandler);
+        this.router.post('/admin/jobs/:jobId/retry', requireAdminKey as RequestHandler, this.retryJob.bind(this) as RequestHandler);
+        this.router.post('/admin/jobs/:jobId/abandon', requireAdminKey as RequestHandler, this.abandonJob.bind(this) as RequestHandler);
+    }
+
+    private async getJob(req: Request, res: Response) {
+        try {
+            const job = await this.jobService.getJob(String(req.params.jobId));
+            res.json(job);
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    private async streamJob(req: Request, res: Response) {
+        const jobId = String(req.params.jobId);
+        const pending: CharacterCreationJob[] = [];
+        let ready = false;
+        let closed = false;
+
+        const send = (job: CharacterCreationJob) => {
+            if (closed) {
+                return;
+            }
+            res.write(`event: job\ndata: ${JSON.stringify(job)}\n\n`);
+            if (SETTLED_STATUSES.includes(job.status)) {
+                close();
+                res.end();
+            }
+        };
+
+        // Subscribe before reading the snapshot so no update falls in between
+        const unsubscribe = this.jobService.subscribe(jobId, (job) => {
+            ready ? send(job) : pending.push(job);
+        });
+        const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), HEARTBEAT_INTERVAL_MS);
+        const close = () => {
+            closed = true;
+            clearInterval(heartbeat);
+            unsubscribe();
+        };
+        req.on('close', close);
+
+        try {
+            const job = await this.jobService.getJob(jobId);
+
+            res.status(200).set({
+                'Content-Type': 'text/event-stream',
+                'Cache-Control': 'no-cache',
+                'Connection': 'keep-alive'
+            });
+            res.flushHeaders();
+
+            send(job);
+            ready = true;
+            pending
+                .filter((update) => update.updatedAt > job.updatedAt)
+                .forEach(send);
+        } catch (error) {
+            close();
+            this.handleError(error, res);
+        }
+    }
+
+    private async getStuckJobs(req: Request, res: Response) {
+        try {
+            const jobs = await this.jobService.getStuckJobs();
+            res.json({ total: jobs.length, jobs });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    private async retryJob(req: Request, res: Response) {
+        try {
+            const job = await this.jobService.retryJob(String(req.params.jobId));
+            res.status(202).json(job);
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    private async abandonJob(req: Request, res: Response) {
+        try {
+            const job = await this.jobService.abandonJob(String(req.params.jobId));
+            res.json(job);
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    private handleError(error: unknown, res: Response) {
+        if (error instanceof ServiceError) {
+            const statusCode = ERROR_STATUS_CODES[error.code] || error.statusCode || 500;
+            logger.error('Job error occurred', {
+                message: error.message,
+                code: error.code,
+                statusCode
+            });
+            return res.status(statusCode).json({
+                error: error.message,
+                code: error.code
+            });
+        }
+
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        logger.error('Unknown error occurred', { message });
+        return res.status(500).json({ error: message });
+    }
+
+    getRouter(): Router {
+        return this.router;
+    }
+}
@@ -0,0 +1,112 @@
+// src/controllers/LeaderboardController.ts
+
+import { Router, Request, Response, RequestHandler } from 'express';
+import { Service } from 'typedi';
+import { CharacterClass, ILeaderboardService, LeaderboardScope, ServiceError } from '../utils/types';
+import { requireAdminKey } from '../middleware/adminAuth';
+import logger from '../utils/Logger';
+
+const ERROR_STATUS_CODES: Record<string, number> = {
+    CONTRACT_NOT_CONFIGURED: 503,
+    LEADERBOARD_NOT_READY: 503,
+    SEASON_NOT_FOUND: 404
+};
+
+@Service()
+export class LeaderboardController {
+    private router: Router;
+
+    constructor(private leaderboardService: ILeaderboardService) {
+        this.router = Router();
+        this.initializeRoutes();
+    }
+
+    private initializeRoutes() {
+        this.router.get('/leaderboards', this.getGlobal.bind(this) as RequestHandler);
+        this.router.get('/leaderboards/classes/:characterClass', this.getByClass.bind(this) as RequestHandler);
+        this.router.get('/leaderboards/seasons/:seasonId', this.getBySeason.bind(this) as RequestHandler);
+        this.router.get('/leaderboards/owners/:address', this.getByOwner.bind(this) as RequestHandler);
+        this.router.post('/admin/leaderboards/refresh', requireAdminKey as RequestHandler, this.refresh.bind(this) as RequestHandler);
+    }
+
+    private async getGlobal(req: Request, res: Response) {
+        await this.respond(req, res, 'global');
+    }
+
+    private async getByClass(req: Request, res: Response) {
+        const characterClass = String(req.params.characterClass).toLowerCase();
+
+        if (!Object.values(CharacterClass).includes(characterClass as CharacterClass)) {
+            return res.status(400).json({
+                error: `Invalid character class, expected one of: ${Object.values(CharacterClass).join(', ')}`
+            });
+        }
+
+        await this.respond(req, res, 'class', characterClass);
+    }
+
+    private async getBySeason(req: Request, res: Response) {
+        const seasonId = Number(req.params.seasonId);
+
+        if (!Number.isInteger(seasonId) || seasonId < 1) {
+            return res.status(400).json({ error: 'Invalid season id' });
+        }
+
+        await this.respond(req, res, 'season', String(seasonId));
+    }
+
+    private async getByOwner(req: Request, res: Response) {
+        const address = String(req.params.address);
+
+        if (!/^0x[0-9a-fA-F]{40}$/.test(address)) {
+            return res.status(400).json({ error: 'Invalid owner address' });
+        }
+
+        await this.respond(req, res, 'owner', address);
+    }
+
+    private async refresh(req: Request, res: Response) {
+        // A refresh syncs the whole event index, so it is not held inside the request
+        this.leaderboardService.refresh().catch((error) => {
+            logger.error('Leaderboard refresh failed', {
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+        });
+        res.status(202).json({ status: 'refreshing' });
+    }
+
+    private async respond(req: Request, res: Response, scope: LeaderboardScope, filter?: string) {
+        try {
+            const page = parseInt(String(req.query.page)) || 1;
+            const limit = parseInt(String(req.query.limit)) || undefined;
+
+            const leaderboard = await this.leaderboardService.getLeaderboard(scope, { filter, page, limit });
+            res.json(leaderboard);
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    private handleError(error: unknown, res: Response) {
+        if (error instanceof ServiceError) {
+            const statusCode = ERROR_STATUS_CODES[error.code] || error.statusCode || 500;
+            logger.error('Leaderboard error occurred', {
+                message: error.message,
+                code: error.code,
+                statusCode
+            });
+            return res.status(statusCode).json({
+                error: error.message,
+                code: error.code
+            });
+        }
+
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        logger.error('Unknown error occurred', { message });
+        return res.status(500).json({ error: message });
+    }
+
+    getRouter(): Router {
+        return this.router;
+    }
+}
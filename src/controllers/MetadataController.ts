@@ -0,0 +1,86 @@
+// src/controllers/MetadataController.ts
+
+import { Router, Request, Response, RequestHandler } from 'express';
+import { Service } from 'typedi';
+import { IMetadataService, ServiceError } from '../utils/types';
+import { requireAdminKey } from '../middleware/adminAuth';
+import logger from '../utils/Logger';
+
+const ERROR_STATUS_CODES: Record<string, number> = {
+    CHARACTER_NOT_FOUND: 404,
+    METADATA_REFRESH_IN_PROGRESS: 409,
+    METADATA_UPDATE_FAILED: 502,
+    METADATA_UPDATE_UNSUPPORTED: 501,
+    CONTRACT_NOT_CONFIGURED: 503
+};
+
+@Service()
+export class MetadataController {
+    private router: Router;
+
+    constructor(private metadataService: IMetadataService) {
+        this.router = Router();
+        this.initializeRoutes();
+    }
+
+    private initializeRoutes() {
+        this.router.get('/characters/:tokenId/metadata/history', this.getHistory.bind(this) as RequestHandler);
+        this.router.post('/admin/characters/:tokenId/metadata/refresh', requireAdminKey as RequestHandler, this.refresh.bind(this) as RequestHandler);
+    }
+
+    private async getHistory(req: Request, res: Response) {
+        try {
+            const tokenId = this.parseTokenId(req);
+            if (tokenId === null) {
+                return res.status(400).json({ error: 'Invalid token id' });
+            }
+
+            const versions = await this.metadataService.getHistory(tokenId);
+            res.json({ tokenId, versions });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    private async refresh(req: Request, res: Response) {
+        try {
+            const tokenId = this.parseTokenId(req);
+            if (tokenId === null) {
+                return res.status(400).json({ error: 'Invalid token id' });
+            }
+
+            const result = await this.metadataService.refreshMetadata(tokenId);
+            res.json(result);
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    private parseTokenId(req: Request): number | null {
+        const tokenId = Number(req.params.tokenId);
+        return Number.isInteger(tokenId) && tokenId > 0 ? tokenId : null;
+    }
+
+    private handleError(error: unknown, res: Response) {
+        if (error instanceof ServiceError) {
+            const statusCode = ERROR_STATUS_CODES[error.code] || error.statusCode || 500;
+            logger.error('Metadata error occurred', {
+                message: error.message,
+                code: error.code,
+                statusCode
+            });
+            return res.status(statusCode).json({
+                error: error.message,
+                code: error.code
+            });
+        }
+
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        logger.error('Unknown error occurred', { message });
+        return res.status(500).json({ error: message });
+    }
+
+    getRouter(): Router {
+        return this.router;
+    }
+}
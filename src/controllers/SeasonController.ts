@@ -0,0 +1,116 @@
+// src/controllers/SeasonController.ts
+
+import { Router, Request, Response, RequestHandler } from 'express';
+import { Service } from 'typedi';
+import { ISeasonService, ServiceError } from '../utils/types';
+import { requireAdminKey } from '../middleware/adminAuth';
+import logger from '../utils/Logger';
+
+const ERROR_STATUS_CODES: Record<string, number> = {
+    SEASON_NOT_FOUND: 404,
+    SEASON_MISMATCH: 409,
+    CONTRACT_NOT_CONFIGURED: 503,
+    SEASON_ADVANCE_FAILED: 502,
+    SEASONAL_POWER_SYNC_FAILED: 502
+};
+
+@Service()
+export class SeasonController {
+    private router: Router;
+
+    constructor(private seasonService: ISeasonService) {
+        this.router = Router();
+        this.initializeRoutes();
+    }
+
+    private initializeRoutes() {
+        this.router.get('/seasons/current', this.getCurrentSeason.bind(this) as RequestHandler);
+        this.router.get('/seasons/:seasonId/standings', this.getStandings.bind(this) as RequestHandler);
+        this.router.post('/admin/seasons/advance', requireAdminKey as RequestHandler, this.advanceSeason.bind(this) as RequestHandler);
+        this.router.post('/admin/seasons/current/power', requireAdminKey as RequestHandler, this.syncSeasonalPower.bind(this) as RequestHandler);
+    }
+
+    private async getCurrentSeason(req: Request, res: Response) {
+        try {
+            const season = await this.seasonService.getCurrentSeason();
+            res.json(season);
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    private async getStandings(req: Request, res: Response) {
+        try {
+            const seasonParam = String(req.params.seasonId);
+            const seasonId = seasonParam === 'current' ? undefined : Number(seasonParam);
+
+            if (seasonId !== undefined && (!Number.isInteger(seasonId) || seasonId < 1)) {
+                return res.status(400).json({ error: 'Invalid season id' });
+            }
+
+            const standings = await this.seasonService.getStandings(seasonId);
+            const archive = seasonId !== undefined ? await this.seasonService.getArchive(seasonId) : null;
+
+            res.json({
+                seasonId: seasonId ?? (await this.seasonService.getCurrentSeason()).seasonId,
+                final: archive !== null,
+                endedAt: archive?.endedAt,
+                standings
+            });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    private async advanceSeason(req: Request, res: Response) {
+        try {
+            const seasonId = Number(req.body?.seasonId);
+            if (!Number.isInteger(seasonId) || seasonId < 1) {
+                return res.status(400).json({ error: 'seasonId of the season to end is required' });
+            }
+
+            const result = await this.seasonService.advanceSeason(seasonId);
+
+            logger.info('Season advanced via admin API', {
+                endedSeason: result.archived.seasonId,
+                currentSeason: result.current.seasonId
+            });
+
+            res.status(201).json(result);
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    private async syncSeasonalPower(req: Request, res: Response) {
+        try {
+            const result = await this.seasonService.syncSeasonalPower();
+            res.json(result);
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    private handleError(error: unknown, res: Response) {
+        if (error instanceof ServiceError) {
+            const statusCode = ERROR_STATUS_CODES[error.code] || error.statusCode || 500;
+            logger.error('Season error occurred', {
+                message: error.message,
+                code: error.code,
+                statusCode
+            });
+            return res.status(statusCode).json({
+                error: error.message,
+                code: error.code
+            });
+        }
+
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        logger.error('Unknown error occurred', { message });
+        return res.status(500).json({ error: message });
+    }
+
+    getRouter(): Router {
+        return this.router;
+    }
+}
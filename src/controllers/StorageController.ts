@@ -0,0 +1,61 @@
+// src/controllers/StorageController.ts
+
+import { Router, Request, Response, RequestHandler } from 'express';
+import { Service } from 'typedi';
+import { IIPFSService, IPFSServiceError } from '../utils/types';
+import { isCid } from '../utils/cid';
+import logger from '../utils/Logger';
+
+// Development gateway for the local storage backends; content never changes,
+// so clients may cache it forever
+@Service()
+export class StorageController {
+    private router: Router;
+
+    constructor(private ipfsService: IIPFSService) {
+        this.router = Router();
+        this.initializeRoutes();
+    }
+
+    private initializeRoutes() {
+        this.router.get('/ipfs/:cid', this.getContent.bind(this) as RequestHandler);
+    }
+
+    private async getContent(req: Request, res: Response) {
+        const cid = String(req.params.cid);
+        if (!isCid(cid)) {
+            return res.status(400).json({ error: 'Invalid CID', code: 'INVALID_CID' });
+        }
+
+        try {
+            const content = await this.ipfsService.getContent(cid);
+            res.set({
+                'Content-Type': this.contentType(content),
+                'Cache-Control': 'public, max-age=31536000, immutable',
+                'ETag': `"${cid}"`
+            });
+            res.send(content);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            logger.debug('Local content not found', { cid, message });
+            res.status(error instanceof IPFSServiceError ? 404 : 500).json({ error: message, code: 'CONTENT_NOT_FOUND' });
+        }
+    }
+
+    // Stored blocks carry no content type, so sniff the ones this app writes
+    private contentType(content: Buffer): string {
+        if (content.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+            return 'image/png';
+        }
+        try {
+            JSON.parse(content.toString('utf8'));
+            return 'application/json';
+        } catch {
+            return 'application/octet-stream';
+        }
+    }
+
+    getRouter(): Router {
+        return this.router;
+    }
+}
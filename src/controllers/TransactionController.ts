@@ -0,0 +1,82 @@
+// src/controllers/TransactionController.ts
+
+import { Router, Request, Response, RequestHandler } from 'express';
+import { Service } from 'typedi';
+import { ITransactionManager, ServiceError } from '../utils/types';
+import logger from '../utils/Logger';
+
+const ERROR_STATUS_CODES: Record<string, number> = {
+    TRANSACTION_NOT_FOUND: 404
+};
+
+@Service()
+export class TransactionController {
+    private router: Router;
+
+    constructor(private transactionManager: ITransactionManager) {
+        this.router = Router();
+        this.initializeRoutes();
+    }
+
+    private initializeRoutes() {
+        this.router.get('/transactions', this.getTransactionsByOperation.bind(this) as RequestHandler);
+        this.router.get('/transactions/:hash', this.getTransaction.bind(this) as RequestHandler);
+    }
+
+    private async getTransaction(req: Request, res: Response) {
+        try {
+            const hash = String(req.params.hash);
+            if (!/^0x[0-9a-fA-F]{64}$/.test(hash)) {
+                return res.status(400).json({ error: 'Invalid transaction hash' });
+            }
+
+            const transaction = await this.transactionManager.getTransaction(hash);
+            if (!transaction) {
+                const serviceError = new ServiceError('Transaction not found');
+                serviceError.code = 'TRANSACTION_NOT_FOUND';
+                serviceError.statusCode = 404;
+                throw serviceError;
+            }
+            res.json(transaction);
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    private async getTransactionsByOperation(req: Request, res: Response) {
+        try {
+            const operation = req.query.operation;
+            if (typeof operation !== 'string' || operation.length === 0) {
+                return res.status(400).json({ error: 'operation query parameter is required' });
+            }
+
+            const transactions = await this.transactionManager.getTransactionsByOperation(operation);
+            res.json({ operation, transactions });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    private handleError(error: unknown, res: Response) {
+        if (error instanceof ServiceError) {
+            const statusCode = ERROR_STATUS_CODES[error.code] || error.statusCode || 500;
+            logger.error('Transaction error occurred', {
+                message: error.message,
+                code: error.code,
+                statusCode
+            });
+            return res.status(statusCode).json({
+                error: error.message,
+                code: error.code
+            });
+        }
+
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        logger.error('Unknown error occurred', { message });
+        return res.status(500).json({ error: message });
+    }
+
+    getRouter(): Router {
+        return this.router;
+    }
+}
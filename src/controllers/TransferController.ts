@@ -0,0 +1,133 @@
+// src/controllers/TransferController.ts
+
+import { Router, Request, Response, RequestHandler } from 'express';
+import { Service } from 'typedi';
+import { IAuthService, ICharacterService, IKeyValueStore, ITransferService, ServiceError } from '../utils/types';
+import { createRequireAuth, createRequireCharacterOwner } from '../middleware/auth';
+import { createIdempotency } from '../middleware/idempotency';
+import logger from '../utils/Logger';
+
+const ERROR_STATUS_CODES: Record<string, number> = {
+    CHARACTER_NOT_FOUND: 404,
+    INVALID_TRANSFER_RECIPIENT: 400,
+    INVALID_TRANSFER_AUTHORIZATION: 400,
+    INVALID_TRANSFER_SIGNATURE: 400,
+    TRANSFER_AUTHORIZATION_EXPIRED: 400,
+    TRANSFER_NOT_AUTHORIZED: 403,
+    TRANSFER_NONCE_MISMATCH: 409,
+    TRANSFER_IN_PROGRESS: 409,
+    TRANSFER_NOT_CONFIRMED: 409,
+    TRANSFER_NOT_FOUND: 400,
+    TRANSFER_FAILED: 502,
+    CONTRACT_NOT_CONFIGURED: 503
+};
+
+@Service()
+export class TransferController {
+    private router: Router;
+
+    constructor(
+        private transferService: ITransferService,
+        private characterService: ICharacterService,
+        private authService: IAuthService,
+        private store: IKeyValueStore
+    ) {
+        this.router = Router();
+        this.initializeRoutes();
+    }
+
+    private initializeRoutes() {
+        const requireAuth = createRequireAuth(this.authService);
+        const requireOwner = createRequireCharacterOwner(this.characterService);
+        const idempotent = createIdempotency(this.store);
+
+        this.router.get('/characters/:tokenId/transfer/authorization', requireAuth, requireOwner, this.getAuthorization.bind(this) as RequestHandler);
+        this.router.post('/characters/:tokenId/transfer', requireAuth, requireOwner, idempotent, this.transfer.bind(this) as RequestHandler);
+        // The caller no longer owns the character once the transfer has landed
+        this.router.post('/characters/:tokenId/transfer/complete', requireAuth, idempotent, this.completeTransfer.bind(this) as RequestHandler);
+    }
+
+    private async getAuthorization(req: Request, res: Response) {
+        try {
+            const tokenId = this.parseTokenId(req);
+            const to = req.query.to ? String(req.query.to) : undefined;
+
+            if (tokenId === null || !to) {
+                return res.status(400).json({
+                    error: 'Missing required fields: tokenId and to'
+                });
+            }
+
+            const typedData = await this.transferService.getAuthorizationRequest(tokenId, to);
+            res.json(typedData);
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    private async transfer(req: Request, res: Response) {
+        try {
+            const tokenId = this.parseTokenId(req);
+            const { authorization, signature, relay } = req.body;
+
+            if (tokenId === null || !authorization || !signature) {
+                return res.status(400).json({
+                    error: 'Missing required fields: tokenId, authorization and signature'
+                });
+            }
+
+            const result = await this.transferService.transfer(tokenId, authorization, String(signature), {
+                relay: relay === undefined ? undefined : Boolean(relay)
+            });
+            res.status(result.status === 'completed' ? 200 : 202).json(result);
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    private async completeTransfer(req: Request, res: Response) {
+        try {
+            const tokenId = this.parseTokenId(req);
+            const { transactionHash } = req.body;
+
+            if (tokenId === null || !transactionHash) {
+                return res.status(400).json({
+                    error: 'Missing required fields: tokenId and transactionHash'
+                });
+            }
+
+            const result = await this.transferService.completeTransfer(tokenId, String(transactionHash));
+            res.json(result);
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    private parseTokenId(req: Request): number | null {
+        const tokenId = Number(req.params.tokenId);
+        return Number.isInteger(tokenId) && tokenId > 0 ? tokenId : null;
+    }
+
+    private handleError(error: unknown, res: Response) {
+        if (error instanceof ServiceError) {
+            const statusCode = ERROR_STATUS_CODES[error.code] || error.statusCode || 500;
+            logger.error('Transfer error occurred', {
+                message: error.message,
+                code: error.code,
+                statusCode
+            });
+            return res.status(statusCode).json({
+                error: error.message,
+                code: error.code
+            });
+        }
+
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        logger.error('Unknown error occurred', { message });
+        return res.status(500).json({ error: message });
+    }
+
+    getRouter(): Router {
+        return this.router;
+    }
+}
@@ -1,11 +1,41 @@
 import { Container as TypeDIContainer } from 'typedi';
-import { ServiceState } from '../utils/types';
+import { IAIProvider, IChainClient, IKeyValueStore, IStorageProvider, ServiceState } from '../utils/types';
 import { WalletService } from '../services/WalletService';
 import { ContractDeploymentService } from '../services/ContractDeploymentService';
 import { CharacterService } from '../services/CharacterService';
 import { GameService } from '../services/GameService';
 import { AIService } from '../services/AIService';
 import { IPFSService } from '../services/IPFSService';
+import { SessionService } from '../services/SessionService';
+import { CombatService } from '../services/CombatService';
+import { BestiaryService } from '../services/BestiaryService';
+import { ItemCatalogService } from '../services/ItemCatalogService';
+import { LootService } from '../services/LootService';
+import { InventoryService } from '../services/InventoryService';
+import { LedgerService } from '../services/LedgerService';
+import { SeasonService } from '../services/SeasonService';
+import { LeaderboardService } from '../services/LeaderboardService';
+import { IndexerService } from '../services/IndexerService';
+import { TransferService } from '../services/TransferService';
+import { AuthService } from '../services/AuthService';
+import { JobService } from '../services/JobService';
+import { MetadataService } from '../services/MetadataService';
+import { ExperienceService } from '../services/ExperienceService';
+import { OpenAIProvider } from '../ai/OpenAIProvider';
+import { MockAIProvider } from '../ai/MockAIProvider';
+import { MemoryStore } from '../storage/MemoryStore';
+import { PinataStorageProvider } from '../storage/PinataStorageProvider';
+import { LocalStorageProvider } from '../storage/LocalStorageProvider';
+import { KuboStorageProvider } from '../storage/KuboStorageProvider';
+import { RedisStore } from '../storage/RedisStore';
+import { FileStore } from '../storage/FileStore';
+import { CdpChainClient } from '../chain/CdpChainClient';
+import { EthersChainClient } from '../chain/EthersChainClient';
+import { getNetworkConfig, getProvider } from '../chain/network';
+import { verifyDeployment } from '../chain/deployments';
+import { TransactionManager } from '../chain/TransactionManager';
+import path from 'path';
+import { ethers } from 'ethers';
 import logger from '../utils/Logger';
 
 export class Container {
@@ -17,15 +47,44 @@ export class Container {
         }
 
         try {
+            if (!isDeployment) {
+                // Refuse to start against a contract that is gone or doesn't match its ABI
+                await verifyDeployment('DnDCharacterNFT');
+            }
+
             // Initialize and register base services
-            const walletService = new WalletService(isDeployment);
+            // A deployment only needs to track its own run's transactions
+            const { store, backend } = isDeployment
+                ? { store: new MemoryStore(), backend: 'memory' }
+                : this.createStore();
+            TypeDIContainer.set('STORE', store);
+            logger.info('Storage backend selected', { backend });
+
+            const chainClient = this.createChainClient();
+            TypeDIContainer.set('CHAIN_CLIENT', chainClient);
+            logger.info('Chain client selected', { client: chainClient.name, network: getNetworkConfig().name });
+
+            const transactionManager = this.createTransactionManager(chainClient, store);
+            TypeDIContainer.set('TRANSACTION_MANAGER', transactionManager);
+
+            const walletService = new WalletService(chainClient, transactionManager, isDeployment);
             await walletService.initialize();
             TypeDIContainer.set('WALLET_SERVICE', walletService);
 
-            const ipfsService = new IPFSService();
+            const storageProvider = this.createStorageProvider();
+            TypeDIContainer.set('STORAGE_PROVIDER', storageProvider);
+
+            const ipfsService = new IPFSService(storageProvider);
             TypeDIContainer.set('IPFS_SERVICE', ipfsService);
 
-            const aiService = new AIService();
+            const bestiaryService = new BestiaryService();
+            TypeDIContainer.set('BESTIARY_SERVICE', bestiaryService);
+
+            const aiProvider = this.createAIProvider();
+            TypeDIContainer.set('AI_PROVIDER', aiProvider);
+            logger.info('AI provider selected', { provider: aiProvider.name });
+
+            const aiService = new AIService(bestiaryService, aiProvider);
             TypeDIContainer.set('AI_SERVICE', aiService);
 
             if (isDeployment) {
@@ -37,19 +96,93 @@ export class Container {
             }
 
             // Register runtime services
+            await transactionManager.start();
+
+            const itemCatalogService = new ItemCatalogService();
+            TypeDIContainer.set('ITEM_CATALOG_SERVICE', itemCatalogService);
+
+            const ledgerService = new LedgerService(store);
+            TypeDIContainer.set('LEDGER_SERVICE', ledgerService);
+
+            const seasonService = new SeasonService(walletService, store, transactionManager);
+            TypeDIContainer.set('SEASON_SERVICE', seasonService);
+
+            const inventoryService = new InventoryService(store, itemCatalogService, ledgerService);
+            TypeDIContainer.set('INVENTORY_SERVICE', inventoryService);
+
+            const indexerService = new IndexerService(store);
+            TypeDIContainer.set('INDEXER_SERVICE', indexerService);
+
+            const experienceService = new ExperienceService(walletService, transactionManager, store);
+            TypeDIContainer.set('EXPERIENCE_SERVICE', experienceService);
+
             const characterService = new CharacterService(
                 walletService,
                 ipfsService,
-                aiService
+                aiService,
+                indexerService,
+                experienceService,
+                transactionManager,
+                store
             );
             TypeDIContainer.set('CHARACTER_SERVICE', characterService);
 
+            const leaderboardService = new LeaderboardService(walletService, characterService, indexerService, store, seasonService);
+            TypeDIContainer.set('LEADERBOARD_SERVICE', leaderboardService);
+
+            const sessionService = new SessionService(store, aiService);
+            TypeDIContainer.set('SESSION_SERVICE', sessionService);
+
+            const lootService = new LootService(itemCatalogService);
+            TypeDIContainer.set('LOOT_SERVICE', lootService);
+
+            const combatService = new CombatService(
+                characterService,
+                store,
+                bestiaryService,
+                lootService,
+                inventoryService,
+                ledgerService
+            );
+            TypeDIContainer.set('COMBAT_SERVICE', combatService);
+
             const gameService = new GameService(
                 characterService,
-                aiService
+                aiService,
+                sessionService,
+                combatService,
+                lootService,
+                inventoryService,
+                ledgerService,
+                seasonService
             );
             TypeDIContainer.set('GAME_SERVICE', gameService);
 
+            const transferService = new TransferService(
+                walletService,
+                characterService,
+                sessionService,
+                indexerService,
+                store
+            );
+            TypeDIContainer.set('TRANSFER_SERVICE', transferService);
+
+            const authService = new AuthService(store);
+            TypeDIContainer.set('AUTH_SERVICE', authService);
+
+            const jobService = new JobService(characterService, store);
+            TypeDIContainer.set('JOB_SERVICE', jobService);
+
+            const metadataService = new MetadataService(
+                walletService,
+                ipfsService,
+                indexerService,
+                inventoryService,
+                store,
+                transactionManager
+            );
+            TypeDIContainer.set('METADATA_SERVICE', metadataService);
+
             this.state = ServiceState.RUNTIME;
         } catch (error) {
             logger.error('Container initialization failed', error);
@@ -57,6 +190,116 @@ export class Container {
         }
     }
 
+    // Jobs, pending transactions, experience grants and transfer nonces all have
+    // to survive a restart, so the runtime store is never in-memory
+    private static createStore(): { store: IKeyValueStore; backend: string } {
+        const backend = process.env.STORE_BACKEND || (process.env.REDIS_URL ? 'redis' : 'file');
+
+        switch (backend) {
+            case 'redis':
+                if (!process.env.REDIS_URL) {
+                    throw new Error('REDIS_URL must be set for the redis store');
+                }
+                return { store: new RedisStore(process.env.REDIS_URL), backend };
+            case 'file':
+                return {
+                    store: new FileStore(process.env.STORE_PATH || path.join(process.cwd(), 'data', 'store.json')),
+                    backend
+                };
+            default:
+                throw new Error(`Unknown STORE_BACKEND: ${backend} (expected redis or file)`);
+        }
+    }
+
+    private static createChainClient(): IChainClient {
+        const client = process.env.CHAIN_CLIENT || 'cdp';
+
+        switch (client) {
+            case 'cdp':
+                return new CdpChainClient(getNetworkConfig());
+            case 'ethers':
+                return new EthersChainClient(getProvider(), {
+                    privateKey: process.env.CHAIN_PRIVATE_KEY,
+                    keystorePath: process.env.CHAIN_KEYSTORE_PATH,
+                    keystorePassword: process.env.CHAIN_KEYSTORE_PASSWORD
+                });
+            default:
+                throw new Error(`Unknown CHAIN_CLIENT: ${client}`);
+        }
+    }
+
+    private static createTransactionManager(chainClient: IChainClient, store: IKeyValueStore): TransactionManager {
+        const gwei = (value?: string) => (value ? ethers.parseUnits(value, 'gwei') : undefined);
+
+        return new TransactionManager(chainClient, store, {
+            confirmations: Number(process.env.TX_CONFIRMATIONS) || 1,
+            maxFeePerGas: gwei(process.env.TX_MAX_FEE_GWEI),
+            maxPriorityFeePerGas: gwei(process.env.TX_MAX_PRIORITY_FEE_GWEI),
+            replacementTimeoutMs: Number(process.env.TX_REPLACEMENT_TIMEOUT_MS) || 60000,
+            maxReplacements: Number(process.env.TX_MAX_REPLACEMENTS ?? 3),
+            timeoutMs: Number(process.env.TX_TIMEOUT_MS) || 600000,
+            pollIntervalMs: Number(process.env.TX_POLL_INTERVAL_MS) || 2000,
+            historyTtlSeconds: Number(process.env.TX_HISTORY_TTL_SECONDS) || 30 * 24 * 60 * 60
+        });
+    }
+
+    private static createAIProvider(): IAIProvider {
+        const provider = process.env.AI_PROVIDER || 'openai';
+
+        switch (provider) {
+            case 'mock':
+                return new MockAIProvider();
+            case 'openai-compatible':
+                if (!process.env.AI_BASE_URL) {
+                    throw new Error('AI_BASE_URL must be set for the openai-compatible provider');
+                }
+                return new OpenAIProvider({
+                    // Most local servers ignore the key but the client requires one
+                    apiKey: process.env.AI_API_KEY || 'not-needed',
+                    baseUrl: process.env.AI_BASE_URL,
+                    textModel: process.env.AI_TEXT_MODEL || 'gpt-4',
+                    imageModel: process.env.AI_IMAGE_MODEL || 'dall-e-2'
+                });
+            case 'openai':
+                if (!process.env.OPENAI_API_KEY) {
+                    throw new Error('OPENAI_API_KEY must be set in environment');
+                }
+                return new OpenAIProvider({
+                    apiKey: process.env.OPENAI_API_KEY,
+                    textModel: process.env.AI_TEXT_MODEL || 'gpt-4',
+                    imageModel: process.env.AI_IMAGE_MODEL || 'dall-e-2'
+                });
+            default:
+                throw new Error(`Unknown AI_PROVIDER: ${provider}`);
+        }
+    }
+
+    private static createStorageProvider(): IStorageProvider {
+        const provider = process.env.STORAGE_PROVIDER || 'pinata';
+        // Local content is served by the development route in StorageController
+        const localGateway = `http://localhost:${process.env.PORT || 3010}/game/ipfs`;
+
+        switch (provider) {
+            case 'memory':
+                return new LocalStorageProvider(localGateway);
+            case 'local':
+                return new LocalStorageProvider(localGateway, process.env.LOCAL_STORAGE_DIR || path.join(process.cwd(), 'data', 'ipfs'));
+            case 'kubo':
+                return new KuboStorageProvider(process.env.KUBO_API_URL || 'http://127.0.0.1:5001');
+            case 'pinata':
+                if (!process.env.PINATA_API_KEY || !process.env.PINATA_API_SECRET) {
+                    throw new Error('PINATA_API_KEY and PINATA_API_SECRET must be set in environment');
+                }
+                return new PinataStorageProvider(
+                    process.env.PINATA_API_KEY,
+                    process.env.PINATA_API_SECRET,
+                    process.env.IPFS_GATEWAY_URL
+                );
+            default:
+                throw new Error(`Unknown STORAGE_PROVIDER: ${provider}`);
+        }
+    }
+
     static get<T>(serviceId: string): T {
         return TypeDIContainer.get<T>(serviceId);
     }
@@ -0,0 +1,27 @@
+import { Request, Response, NextFunction } from 'express';
+import { timingSafeEqual } from 'crypto';
+import logger from '../utils/Logger';
+
+// Guards operator-only routes with the shared ADMIN_API_KEY, sent as `x-admin-key`
+export const requireAdminKey = (req: Request, res: Response, next: NextFunction) => {
+    const expected = process.env.ADMIN_API_KEY;
+    if (!expected) {
+        return res.status(503).json({
+            error: 'Admin API is disabled: ADMIN_API_KEY is not configured',
+            code: 'ADMIN_DISABLED'
+        });
+    }
+
+    const provided = Buffer.from(String(req.header('x-admin-key') || ''));
+    const secret = Buffer.from(expected);
+
+    if (provided.length !== secret.length || !timingSafeEqual(provided, secret)) {
+        logger.warn('Rejected admin request', { method: req.method, path: req.path });
+        return res.status(401).json({
+            error: 'Invalid admin key',
+            code: 'ADMIN_UNAUTHORIZED'
+        });
+    }
+
+    next();
+};
@@ -0,0 +1,70 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { AuthenticatedCaller, IAuthService, ICharacterService, ServiceError } from '../utils/types';
+import logger from '../utils/Logger';
+
+declare global {
+    namespace Express {
+        interface Request {
+            auth?: AuthenticatedCaller;
+        }
+    }
+}
+
+// Verifies the `Authorization: Bearer <jwt>` issued by /auth/verify and attaches the caller's address
+export const createRequireAuth = (authService: IAuthService): RequestHandler =>
+    (req: Request, res: Response, next: NextFunction) => {
+        const [scheme, token] = String(req.header('authorization') || '').split(' ');
+
+        if (scheme !== 'Bearer' || !token) {
+            return res.status(401).json({
+                error: 'Missing bearer token',
+                code: 'AUTH_REQUIRED'
+            });
+        }
+
+        try {
+            const claims = authService.verifyAccessToken(token);
+            req.auth = { address: claims.sub };
+            next();
+        } catch (error) {
+            if (error instanceof ServiceError) {
+                return res.status(error.statusCode || 401).json({
+                    error: error.message,
+                    code: error.code
+                });
+            }
+            next(error);
+        }
+    };
+
+// Must run after requireAuth; rejects callers that don't own the character in `req.params.tokenId`
+export const createRequireCharacterOwner = (characterService: ICharacterService): RequestHandler =>
+    async (req: Request, res: Response, next: NextFunction) => {
+        const tokenId = Number(req.params.tokenId);
+
+        if (!Number.isInteger(tokenId) || tokenId <= 0) {
+            return res.status(400).json({ error: 'Invalid token id' });
+        }
+
+        try {
+            const owner = await characterService.getOwnerOf(tokenId);
+
+            if (owner !== req.auth?.address) {
+                logger.warn('Character ownership check failed', { tokenId, caller: req.auth?.address });
+                return res.status(403).json({
+                    error: 'Character is not owned by this player',
+                    code: 'CHARACTER_NOT_OWNED'
+                });
+            }
+
+            next();
+        } catch (error) {
+            if (error instanceof ServiceError) {
+                return res.status(error.statusCode || 500).json({
+                    error: error.message,
+                    code: error.code
+                });
+            }
+            next(error);
+        }
+    };
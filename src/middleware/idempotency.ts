@@ -0,0 +1,134 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { createHash } from 'crypto';
+import { IKeyValueStore } from '../utils/types';
+import logger from '../utils/Logger';
+
+const IDEMPOTENCY_TTL_SECONDS = 24 * 60 * 60;
+const MAX_KEY_LENGTH = 255;
+
+interface IdempotencyRecord {
+    status: 'in_progress' | 'completed';
+    requestHash: string;
+    statusCode?: number;
+    body?: unknown;
+    location?: string;
+    createdAt: string;
+}
+
+// Key order doesn't change the hash, so re-serialized retries still match
+const canonicalize = (value: unknown): unknown => {
+    if (Array.isArray(value)) {
+        return value.map(canonicalize);
+    }
+    if (value && typeof value === 'object') {
+        return Object.keys(value as Record<string, unknown>)
+            .sort()
+            .reduce((result, key) => ({
+                ...result,
+                [key]: canonicalize((value as Record<string, unknown>)[key])
+            }), {} as Record<string, unknown>);
+    }
+    return value;
+};
+
+// Honors an optional `Idempotency-Key` header: the first response for a key is
+// stored and replayed to retries with the same body. Mount after requireAuth so
+// keys are scoped to the caller.
+export const createIdempotency = (store: IKeyValueStore): RequestHandler =>
+    async (req: Request, res: Response, next: NextFunction) => {
+        const idempotencyKey = req.header('idempotency-key');
+        if (!idempotencyKey) {
+            return next();
+        }
+
+        if (idempotencyKey.length > MAX_KEY_LENGTH) {
+            return res.status(400).json({
+                error: `Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters`,
+                code: 'INVALID_IDEMPOTENCY_KEY'
+            });
+        }
+
+        const caller = req.auth?.address || 'anonymous';
+        const storeKey = `idempotency:${caller}:${req.method}:${req.baseUrl}${req.path}:${idempotencyKey}`;
+        const record: IdempotencyRecord = {
+            status: 'in_progress',
+            requestHash: createHash('sha256').update(JSON.stringify(canonicalize(req.body ?? {}))).digest('hex'),
+            createdAt: new Date().toISOString()
+        };
+
+        try {
+            const claimed = await store.setIfAbsent(storeKey, record, IDEMPOTENCY_TTL_SECONDS);
+
+            if (!claimed) {
+                const existing = await store.get<IdempotencyRecord>(storeKey);
+
+                if (existing && existing.requestHash !== record.requestHash) {
+                    return res.status(422).json({
+                        error: 'Idempotency-Key was already used with a different request body',
+                        code: 'IDEMPOTENCY_KEY_REUSED'
+                    });
+                }
+
+                if (!existing || existing.status === 'in_progress') {
+                    return res.status(409).set('Retry-After', '5').json({
+                        error: 'A request with this Idempotency-Key is still in progress',
+                        code: 'IDEMPOTENCY_REQUEST_IN_PROGRESS'
+                    });
+                }
+
+                logger.info('Replaying idempotent response', { path: req.originalUrl, idempotencyKey });
+                res.set('Idempotent-Replayed', 'true');
+                if (existing.location) {
+                    res.location(existing.location);
+                }
+                if (existing.body === undefined) {
+                    return res.status(existing.statusCode || 204).end();
+                }
+                return res.status(existing.statusCode || 200).json(existing.body);
+            }
+        } catch (error) {
+            return next(error);
+        }
+
+        // Record whatever the handler answers once the response is done, however
+        // it was sent. Server errors, responses that can't be replayed and
+        // connections closed before the response finished release the key so
+        // the client can retry.
+        let jsonBody: { value: unknown } | null = null;
+        const json = res.json.bind(res);
+        res.json = (body: unknown) => {
+            jsonBody = { value: body };
+            return json(body);
+        };
+
+        let settled = false;
+        const settle = (finished: boolean) => {
+            if (settled) {
+                return;
+            }
+            settled = true;
+
+            const replayable = jsonBody !== null || res.statusCode === 204;
+            const release = !finished || res.statusCode >= 500 || !replayable;
+            const update = release
+                ? store.delete(storeKey)
+                : store.set<IdempotencyRecord>(storeKey, {
+                    ...record,
+                    status: 'completed',
+                    statusCode: res.statusCode,
+                    body: jsonBody?.value,
+                    location: res.get('Location')
+                }, IDEMPOTENCY_TTL_SECONDS);
+
+            update.catch((error) => {
+                logger.error('Failed to record idempotent response', {
+                    storeKey,
+                    error: error instanceof Error ? error.message : 'Unknown error'
+                });
+            });
+        };
+        res.on('finish', () => settle(true));
+        res.on('close', () => settle(res.writableFinished));
+
+        next();
+    };
@@ -10,6 +10,16 @@ export const characterPrompts = {
       - appearance: physical description
       {personality}`,
   
+    evolution: `Continue the story of a D&D {class} named {name} who has just ascended to a greater form.
+      Previous backstory: {backstory}
+      Previous personality: {personality}
+      Keep the character recognisable while describing how the ascension changed them.
+      Return a JSON object with:
+      - name: the ascended name (may extend the original name with a title)
+      - backstory: a short continuation describing the ascension
+      - appearance: physical description of the ascended form
+      - personality: key character traits after the ascension`,
+
     name: `Generate a fantasy name for a {race} {class} character.
       The name should be:
       - Appropriate for the race and class
@@ -33,12 +43,24 @@ export const characterPrompts = {
       - rewards: optional object with possible items, gold, or effects
       - nextOptions: array of possible next actions`,
   
+    summary: `You are a D&D game master keeping notes on an ongoing adventure.
+      Summary so far: {summary}
+      Recent events:
+      {turns}
+
+      Write a concise summary (at most 120 words) of the adventure so far that
+      keeps important characters, locations, items and unresolved threads.
+      Return only the summary text.`,
+
     encounter: `Create a {type} encounter for a level {level} character.
       Difficulty: {difficulty}
+      Available monsters (id: name, challenge rating):
+      {monsters}
       
       Return a JSON object with:
       - description: detailed encounter description
       - challenges: array of specific challenges or obstacles
+      - monsters: array of monster ids taken only from the list above (may be empty for non-combat encounters)
       - rewards: object with experience points and optional loot`,
   
     questline: `Create a {length} questline for a level {level} character.
@@ -49,11 +71,7 @@ export const characterPrompts = {
       - description: quest overview
       - objectives: array of specific goals
       - rewards: object with experience, optional items and gold
-      - encounters: array of planned encounters`,
-  
-    items: `Suggest 0-2 appropriate D&D 5e items as rewards for a level {level} character.
-      Difficulty: {difficulty}
-      Format as JSON array of item names.`
+      - encounters: array of planned encounters`
   };
   
   export const systemRolePrompts = {
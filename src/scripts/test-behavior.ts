@@ -0,0 +1,334 @@
+// src/scripts/test-behavior.ts
+
+// Runs the services in-process against an in-memory store, with the chain and
+// the game master stubbed out, and checks that racing or repeated requests
+// never pay out twice. Two service instances sharing one store stand in for
+// two server processes.
+
+import 'reflect-metadata';
+import assert from 'assert';
+import { ethers } from 'ethers';
+import * as network from '../chain/network';
+import { MemoryStore } from '../storage/MemoryStore';
+import { CombatService } from '../services/CombatService';
+import { BestiaryService } from '../services/BestiaryService';
+import { LootService } from '../services/LootService';
+import { ItemCatalogService } from '../services/ItemCatalogService';
+import { LedgerService } from '../services/LedgerService';
+import { SessionService } from '../services/SessionService';
+import { GameService } from '../services/GameService';
+import { TransferService } from '../services/TransferService';
+import { ExperienceService } from '../services/ExperienceService';
+import {
+    CharacterClass,
+    CharacterStats,
+    GameMasterResponse,
+    IAIService,
+    ICharacterService,
+    ICombatService,
+    IIndexerService,
+    IInventoryService,
+    ISeasonService,
+    ISessionService,
+    ITransactionManager,
+    IWalletService,
+    Questline,
+    ServiceError
+} from '../utils/types';
+
+const STATS: CharacterStats = {
+    strength: 16,
+    dexterity: 12,
+    constitution: 14,
+    intelligence: 10,
+    wisdom: 10,
+    charisma: 10
+};
+
+const BATCH_ABI = [
+    'function batchGainExperience(uint256[] tokenIds, uint256[] amounts)',
+    'event ExperienceGained(uint256 indexed tokenId, uint256 amount)'
+];
+
+// Nothing here may reach a node; the experience flush only asks for a block number
+(network as any).getProvider = () => ({
+    getBlockNumber: async () => 1,
+    getLogs: async () => []
+});
+
+// Records what a character was granted
+function createCharacterStub(): ICharacterService & { experience: number[] } {
+    const experience: number[] = [];
+    return {
+        experience,
+        getCharacter: async (tokenId: number) => ({ tokenId, class: CharacterClass.WARRIOR, level: 1, stats: STATS }),
+        gainExperience: async (tokenId: number, amount: number) => {
+            experience.push(amount);
+        },
+        getOwnerOf: async () => ''
+    } as unknown as ICharacterService & { experience: number[] };
+}
+
+function createInventoryStub(): IInventoryService & { added: unknown[] } {
+    const added: unknown[] = [];
+    return {
+        added,
+        getInventory: async (tokenId: number) => ({ tokenId, items: [], equipment: {}, updatedAt: '' }),
+        getLoadout: async () => ({ stats: STATS, armorClassBonus: 0, attackBonus: 0 }),
+        addItems: async (tokenId: number, items: unknown[]) => {
+            added.push(items);
+            return { tokenId, items: [], equipment: {}, updatedAt: '' };
+        },
+        addItemsByName: async (tokenId: number) => ({ tokenId, items: [], equipment: {}, updatedAt: '' })
+    } as unknown as IInventoryService & { added: unknown[] };
+}
+
+async function expectServiceError(promise: Promise<unknown>, code: string): Promise<void> {
+    await assert.rejects(promise, (error: unknown) => error instanceof ServiceError && error.code === code);
+}
+
+async function testCombatVictoryPaysOnce() {
+    console.log('Testing racing final blows in combat...');
+
+    const store = new MemoryStore();
+    const characters = createCharacterStub();
+    const inventory = createInventoryStub();
+    const ledger = new LedgerService(store);
+    const combat = new CombatService(
+        characters,
+        store,
+        new BestiaryService(),
+        new LootService(new ItemCatalogService()),
+        inventory,
+        ledger,
+        // Every roll comes up high, so the character goes first and always hits
+        () => 0.99
+    );
+
+    const encounter = await combat.startEncounter(1, 'easy', ['giant-rat']);
+    encounter.enemies.forEach((enemy) => {
+        enemy.hp = 1;
+    });
+    await store.set(`combat:${encounter.id}`, encounter);
+
+    const results = await Promise.all([
+        combat.takeAction(1, encounter.id, 'attack'),
+        combat.takeAction(1, encounter.id, 'attack')
+    ]);
+
+    assert.deepStrictEqual(results.map((result) => result.outcome), ['victory', 'victory']);
+    assert.deepStrictEqual(results[1].rewards, results[0].rewards);
+    assert.deepStrictEqual(characters.experience, [results[0].experienceGained]);
+    assert.strictEqual(inventory.added.length, 1);
+    assert.strictEqual(await ledger.getBalance(1), results[0].rewards!.gold);
+    await expectServiceError(combat.takeAction(1, encounter.id, 'attack'), 'COMBAT_NOT_ACTIVE');
+}
+
+async function testQuestCompletionPaysOnce() {
+    console.log('Testing racing final quest turns...');
+
+    const store = new MemoryStore();
+    const characters = createCharacterStub();
+    const inventory = createInventoryStub();
+    const ledger = new LedgerService(store);
+    const activity: unknown[] = [];
+    const seasons = {
+        recordActivity: async (tokenId: number, recorded: unknown) => {
+            activity.push(recorded);
+        }
+    } as unknown as ISeasonService;
+
+    // Both turns wait for each other, so both see the quest one step from done
+    let release: () => void = () => undefined;
+    const bothAsked = new Promise<void>((resolve) => {
+        let asked = 0;
+        release = () => {
+            if (++asked === 2) {
+                resolve();
+            }
+        };
+    });
+    const ai = {
+        processGameAction: async (): Promise<GameMasterResponse> => {
+            release();
+            await bothAsked;
+            return { description: 'The gate opens', outcome: 'success', experience: 0 };
+        }
+    } as unknown as IAIService;
+
+    const sessions = new SessionService(store, ai);
+    const game = new GameService(
+        characters,
+        ai,
+        sessions,
+        {} as ICombatService,
+        new LootService(new ItemCatalogService()),
+        inventory,
+        ledger,
+        seasons
+    );
+
+    const quest: Questline = {
+        title: 'The Sealed Gate',
+        description: 'Open the gate',
+        objectives: ['Open the gate'],
+        rewards: { experience: 100, gold: 20 },
+        encounters: []
+    };
+    await sessions.startSession(1, { questId: 'sealed-gate', quest });
+
+    const responses = await Promise.all([
+        game.processQuestAction(1, 'sealed-gate', 'Push the gate'),
+        game.processQuestAction(1, 'sealed-gate', 'Pull the gate')
+    ]);
+
+    const completions = responses.map((response) => response.questCompleted).filter(Boolean);
+    assert.ok(completions.length > 0, 'quest was not completed');
+    completions.forEach((completion) => assert.deepStrictEqual(completion, completions[0]));
+    assert.deepStrictEqual(characters.experience, [100]);
+    assert.strictEqual(inventory.added.length, 1);
+    assert.strictEqual(activity.length, 1);
+    assert.strictEqual(await ledger.getBalance(1), completions[0]!.loot.gold);
+}
+
+async function testTransferNonceIsSingleUse() {
+    console.log('Testing a transfer authorization replayed across processes...');
+
+    const store = new MemoryStore();
+    const owner = ethers.Wallet.createRandom();
+    const recipient = ethers.Wallet.createRandom().address;
+
+    const characters = {
+        getOwnerOf: async () => owner.address.toLowerCase()
+    } as unknown as ICharacterService;
+    const backend = ethers.Wallet.createRandom().address;
+    const wallet = {
+        getBackendAddress: async () => backend,
+        // The backend is not an approved operator, so the transfer is handed back unsigned
+        readContract: async (address: string, method: string) => (method === 'getApproved' ? ethers.ZeroAddress : false)
+    } as unknown as IWalletService;
+
+    const config = {
+        address: ethers.Wallet.createRandom().address,
+        abi: [
+            'function safeTransferFrom(address from, address to, uint256 tokenId)',
+            'function setApprovalForAll(address operator, bool approved)'
+        ]
+    };
+    const createService = () => {
+        const service = new TransferService(wallet, characters, {} as ISessionService, {} as IIndexerService, store);
+        Object.assign(service, { contractConfig: config, contractInterface: new ethers.Interface(config.abi) });
+        return service;
+    };
+    const first = createService();
+    const second = createService();
+
+    const typedData = await first.getAuthorizationRequest(1, recipient);
+    const signature = await owner.signTypedData(typedData.domain, typedData.types, typedData.message);
+    const authorization = typedData.message;
+
+    const outcomes = await Promise.allSettled([
+        first.transfer(1, authorization, signature),
+        second.transfer(1, authorization, signature)
+    ]);
+
+    const fulfilled = outcomes.filter((outcome) => outcome.status === 'fulfilled');
+    const rejected = outcomes.filter((outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected');
+    assert.strictEqual(fulfilled.length, 1);
+    assert.strictEqual(rejected.length, 1);
+    assert.strictEqual((rejected[0].reason as ServiceError).code, 'TRANSFER_NONCE_MISMATCH');
+
+    await expectServiceError(first.transfer(1, authorization, signature), 'TRANSFER_NONCE_MISMATCH');
+}
+
+async function testExperienceGrantsBatchOnce() {
+    console.log('Testing experience grant batching...');
+
+    const store = new MemoryStore();
+    const batches: Array<[number[], number[]]> = [];
+    let sent: () => void = () => undefined;
+    let confirm: () => void = () => undefined;
+
+    const wallet = {
+        invokeContract: async (address: string, method: string, args: [number[], number[]]) => {
+            batches.push(args);
+            sent();
+            // Held until the test lets the transaction confirm
+            await new Promise<void>((resolve) => {
+                confirm = resolve;
+            });
+            return { hash: `0x${batches.length}` };
+        }
+    } as unknown as IWalletService;
+    const transactions = {
+        getTransactionsByOperation: async () => []
+    } as unknown as ITransactionManager;
+
+    const experience = new ExperienceService(wallet, transactions, store, 60 * 60 * 1000, 100, 200);
+    const config = { address: ethers.Wallet.createRandom().address, abi: BATCH_ABI };
+    Object.assign(experience, { contractConfig: config, contractInterface: new ethers.Interface(BATCH_ABI) });
+
+    await experience.grant(1, 10);
+    await experience.grant(1, 5);
+    await experience.grant(2, 7);
+    assert.strictEqual(await experience.getPendingExperience(1), 15);
+
+    // Concurrent flushes share one batch, which sums the grants per character
+    const inFlight = new Promise<void>((resolve) => {
+        sent = resolve;
+    });
+    const flushes = [experience.flush(), experience.flush()];
+    await inFlight;
+    assert.deepStrictEqual(batches, [[[1, 2], [15, 7]]]);
+
+    // A grant made while the batch is out waits for the next one, and the
+    // batch's own grants no longer count as pending
+    await experience.grant(1, 3);
+    assert.strictEqual(await experience.getPendingExperience(1), 3);
+
+    confirm();
+    const [first, second] = await Promise.all(flushes);
+    assert.strictEqual(first, second);
+    assert.strictEqual(first!.status, 'confirmed');
+
+    const next = new Promise<void>((resolve) => {
+        sent = resolve;
+    });
+    const flush = experience.flush();
+    await next;
+    confirm();
+    await flush;
+    assert.deepStrictEqual(batches, [[[1, 2], [15, 7]], [[1], [3]]]);
+    assert.strictEqual(await experience.getPendingExperience(1), 0);
+    assert.strictEqual(await experience.flush(), null);
+}
+
+async function runTests() {
+    const tests = [
+        testCombatVictoryPaysOnce,
+        testQuestCompletionPaysOnce,
+        testTransferNonceIsSingleUse,
+        testExperienceGrantsBatchOnce
+    ];
+
+    let failed = 0;
+    for (const test of tests) {
+        try {
+            await test();
+            console.log(`${test.name} passed`);
+        } catch (error) {
+            failed++;
+            console.error(`${test.name} failed:`, error);
+        }
+    }
+
+    console.log(`${tests.length - failed} of ${tests.length} behavior tests passed`);
+    if (failed > 0) {
+        process.exitCode = 1;
+    }
+}
+
+runTests().catch((error) => {
+    console.error('Behavior tests failed:', error);
+    process.exitCode = 1;
+});
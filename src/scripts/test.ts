@@ -2,30 +2,78 @@
 
 import dotenv from 'dotenv';
 import { CharacterClass } from '../utils/types';
+import { getNetworkConfig } from '../chain/network';
 import fetch from 'node-fetch';
+import { ethers } from 'ethers';
 
 dotenv.config();
 
 const API_URL = `http://localhost:${process.env.PORT || 3010}`;
+// Test player wallet; a throwaway one is generated when unset
+const player = process.env.TEST_PLAYER_PRIVATE_KEY
+    ? new ethers.Wallet(process.env.TEST_PLAYER_PRIVATE_KEY)
+    : ethers.Wallet.createRandom();
 
-async function testCharacterCreation() {
+async function signIn(): Promise<string> {
+    console.log(`Signing in as ${player.address}...`);
+
+    const { nonce } = await (await fetch(`${API_URL}/game/auth/nonce`)).json();
+    const message = [
+        `${process.env.SIWE_DOMAIN || 'localhost:3000'} wants you to sign in with your Ethereum account:`,
+        player.address,
+        '',
+        'Sign in to the DnD character API test script.',
+        '',
+        `URI: http://${process.env.SIWE_DOMAIN || 'localhost:3000'}`,
+        'Version: 1',
+        `Chain ID: ${getNetworkConfig().chainId}`,
+        `Nonce: ${nonce}`,
+        `Issued At: ${new Date().toISOString()}`
+    ].join('\n');
+
+    const response = await fetch(`${API_URL}/game/auth/verify`, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+            message,
+            signature: await player.signMessage(message)
+        })
+    });
+
+    const result = await response.json();
+    console.log('Sign-in result:', JSON.stringify(result, null, 2));
+    return result.accessToken;
+}
+
+async function testCharacterCreation(accessToken: string) {
     try {
         console.log('Testing character creation...');
         
-        const response = await fetch(`${API_URL}/api/game/characters`, {
+        const response = await fetch(`${API_URL}/game/characters`, {
             method: 'POST',
             headers: {
-                'Content-Type': 'application/json'
+                'Content-Type': 'application/json',
+                'Authorization': `Bearer ${accessToken}`
             },
             body: JSON.stringify({
-                playerAddress: '0xYourPlayerAddress', // Replace with actual address
                 characterClass: CharacterClass.WARRIOR
             })
         });
 
-        const result = await response.json();
-        console.log('Character creation result:', JSON.stringify(result, null, 2));
-        return result;
+        let job = await response.json();
+        console.log(`Creation job ${job.id} accepted`);
+
+        while (job.status === 'queued' || job.status === 'running') {
+            await new Promise((resolve) => setTimeout(resolve, 5000));
+            job = await (await fetch(`${API_URL}/game/jobs/${job.id}`)).json();
+            const stage = job.stages?.find((record: { status: string }) => record.status === 'running');
+            console.log(`Job ${job.status}${stage ? ` (${stage.stage})` : ''}`);
+        }
+
+        console.log('Character creation result:', JSON.stringify(job.result || job.error, null, 2));
+        return job.result;
     } catch (error) {
         console.error('Character creation test failed:', error);
         throw error;
@@ -36,7 +84,7 @@ async function testGetCharacter(tokenId: number) {
     try {
         console.log(`Testing get character for token ${tokenId}...`);
         
-        const response = await fetch(`${API_URL}/api/game/characters/${tokenId}`);
+        const response = await fetch(`${API_URL}/game/characters/${tokenId}`);
         const result = await response.json();
         console.log('Get character result:', JSON.stringify(result, null, 2));
         return result;
@@ -46,17 +94,26 @@ async function testGetCharacter(tokenId: number) {
     }
 }
 
-async function testTransferCharacter(tokenId: number, toAddress: string) {
+async function testTransferCharacter(accessToken: string, tokenId: number, toAddress: string) {
     try {
         console.log(`Testing character transfer for token ${tokenId}...`);
-        
-        const response = await fetch(`${API_URL}/api/game/characters/${tokenId}/transfer`, {
+
+        const headers = {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${accessToken}`
+        };
+
+        const typedData = await (await fetch(
+            `${API_URL}/game/characters/${tokenId}/transfer/authorization?to=${toAddress}`,
+            { headers }
+        )).json();
+
+        const response = await fetch(`${API_URL}/game/characters/${tokenId}/transfer`, {
             method: 'POST',
-            headers: {
-                'Content-Type': 'application/json'
-            },
+            headers,
             body: JSON.stringify({
-                toAddress
+                authorization: typedData.message,
+                signature: await player.signTypedData(typedData.domain, typedData.types, typedData.message)
             })
         });
 
@@ -75,15 +132,17 @@ async function runTests() {
         const healthCheck = await fetch(`${API_URL}/health`);
         console.log('Health check:', await healthCheck.json());
 
+        const accessToken = await signIn();
+
         // Create a character
-        const createResult = await testCharacterCreation();
+        const createResult = await testCharacterCreation(accessToken);
         const tokenId = createResult.tokenId;
 
         // Get character details
         await testGetCharacter(tokenId);
 
         // Test transfer
-        await testTransferCharacter(tokenId, '0xAnotherAddress'); // Replace with actual address
+        await testTransferCharacter(accessToken, tokenId, ethers.Wallet.createRandom().address);
     } catch (error) {
         console.error('Tests failed:', error);
     }
@@ -5,9 +5,20 @@ import express from 'express';
 import bodyParser from 'body-parser';
 import dotenv from 'dotenv';
 import { GameController } from './controllers/GameController';
+import { GameplayController } from './controllers/GameplayController';
+import { SeasonController } from './controllers/SeasonController';
+import { LeaderboardController } from './controllers/LeaderboardController';
+import { TransferController } from './controllers/TransferController';
+import { AuthController } from './controllers/AuthController';
+import { JobController } from './controllers/JobController';
+import { MetadataController } from './controllers/MetadataController';
+import { ExperienceController } from './controllers/ExperienceController';
+import { StorageController } from './controllers/StorageController';
+import { TransactionController } from './controllers/TransactionController';
 import cors from 'cors';
 import { Container } from './core/Container';
 import logger from './utils/Logger';
+import { IExperienceService, IIndexerService, IJobService, ILeaderboardService, IMetadataService, IStorageProvider } from './utils/types';
 
 dotenv.config();
 
@@ -21,7 +32,8 @@ app.use(bodyParser.json());
 app.use(cors({
   origin: 'http://localhost:3000',
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization']
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Admin-Key', 'Idempotency-Key'],
+  exposedHeaders: ['Location', 'Idempotent-Replayed']
 }));
 
 // Error handling middleware
@@ -39,12 +51,80 @@ async function startServer() {
         await Container.initialize();
 
         // Initialize controllers using token strings
+        const authController = new AuthController(
+            Container.get('AUTH_SERVICE')
+        );
+        app.use('/game', authController.getRouter());
+
         const gameController = new GameController(
             Container.get('CHARACTER_SERVICE'),
-            Container.get('AI_SERVICE')
+            Container.get('AI_SERVICE'),
+            Container.get('AUTH_SERVICE'),
+            Container.get('JOB_SERVICE'),
+            Container.get('STORE')
         );
         app.use('/game', gameController.getRouter());
 
+        const jobService = Container.get<IJobService>('JOB_SERVICE');
+        const jobController = new JobController(jobService);
+        app.use('/game', jobController.getRouter());
+
+        const transactionController = new TransactionController(Container.get('TRANSACTION_MANAGER'));
+        app.use('/game', transactionController.getRouter());
+
+        const gameplayController = new GameplayController(
+            Container.get('CHARACTER_SERVICE'),
+            Container.get('GAME_SERVICE'),
+            Container.get('SESSION_SERVICE'),
+            Container.get('COMBAT_SERVICE'),
+            Container.get('INVENTORY_SERVICE'),
+            Container.get('LEDGER_SERVICE'),
+            Container.get('AUTH_SERVICE'),
+            Container.get('STORE')
+        );
+        app.use('/game', gameplayController.getRouter());
+
+        const seasonController = new SeasonController(
+            Container.get('SEASON_SERVICE')
+        );
+        app.use('/game', seasonController.getRouter());
+
+        const transferController = new TransferController(
+            Container.get('TRANSFER_SERVICE'),
+            Container.get('CHARACTER_SERVICE'),
+            Container.get('AUTH_SERVICE'),
+            Container.get('STORE')
+        );
+        app.use('/game', transferController.getRouter());
+
+        const leaderboardService = Container.get<ILeaderboardService>('LEADERBOARD_SERVICE');
+        const leaderboardController = new LeaderboardController(leaderboardService);
+        app.use('/game', leaderboardController.getRouter());
+        leaderboardService.start();
+
+        // Only the local backends need this app to act as their gateway
+        if (['local', 'memory'].includes(Container.get<IStorageProvider>('STORAGE_PROVIDER').name)) {
+            const storageController = new StorageController(Container.get('IPFS_SERVICE'));
+            app.use('/game', storageController.getRouter());
+        }
+
+        const metadataService = Container.get<IMetadataService>('METADATA_SERVICE');
+        const metadataController = new MetadataController(metadataService);
+        app.use('/game', metadataController.getRouter());
+        // Subscribes to indexer updates, so it starts first
+        metadataService.start();
+
+        Container.get<IIndexerService>('INDEXER_SERVICE').start();
+
+        const experienceService = Container.get<IExperienceService>('EXPERIENCE_SERVICE');
+        const experienceController = new ExperienceController(experienceService);
+        app.use('/game', experienceController.getRouter());
+        // Settles experience batches interrupted by the last shutdown
+        await experienceService.start();
+
+        // Pick up creation jobs interrupted by the last shutdown
+        await jobService.resumePending();
+
         app.listen(PORT, () => {
             logger.info(`Server running on port ${PORT}`);
         });
@@ -6,42 +6,28 @@ import {
     ImageGenerationOptions,
     GameMasterResponse,
     AIServiceError,
-    CharacterStats
+    CharacterStats,
+    IAIProvider,
+    IBestiaryService,
+    MonsterDefinition
 } from '../utils/types';
-import { ChatOpenAI } from "@langchain/openai";
 import { PromptTemplate } from '@langchain/core/prompts';
 import { JsonOutputParser } from '@langchain/core/output_parsers';
-import { DallEAPIWrapper } from "@langchain/openai";
 import { 
   characterPrompts, 
   gameplayPrompts, 
   systemRolePrompts, 
   imagePrompts 
 } from '../prompts/aiPrompts';
-import { Service } from 'typedi';
+import { Service, Inject } from 'typedi';
 import { Tokens } from '../utils/types';
 
 @Service(Tokens.AIService)
 export class AIService implements IAIService {
-  private model: ChatOpenAI;
-  private dalle: DallEAPIWrapper;
-
-  constructor() {
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error('OPENAI_API_KEY must be set in environment');
-    }
-
-    this.model = new ChatOpenAI({
-      modelName: 'gpt-4',
-      temperature: 0.7,
-      openAIApiKey: process.env.OPENAI_API_KEY
-    });
-
-    this.dalle = new DallEAPIWrapper({
-      openAIApiKey: process.env.OPENAI_API_KEY,
-      modelName: "dall-e-2",
-    });
-  }
+  constructor(
+    @Inject(Tokens.BestiaryService) private readonly bestiary: IBestiaryService,
+    @Inject(Tokens.AIProvider) private readonly provider: IAIProvider
+  ) {}
 
   async generateCharacterImage(
     prompt: string | CharacterImagePrompt,
@@ -52,12 +38,9 @@ export class AIService implements IAIService {
         ? prompt 
         : this.formatImagePrompt(prompt);
 
-      const imageUrl = await this.dalle.invoke({ 
-        input: `Pixel art style D&D character. ${formattedPrompt}` 
-      });
-
-      const imageResponse = await fetch(imageUrl);
-      return Buffer.from(await imageResponse.arrayBuffer());
+      return await this.provider.generateImage(
+        `Pixel art style D&D character. ${formattedPrompt}`
+      );
     } catch (error: unknown) {
       const message = error instanceof Error ? error.message : 'Unknown error';
       const serviceError = new AIServiceError(`Failed to generate image: ${message}`);
@@ -86,17 +69,18 @@ export class AIService implements IAIService {
         inputVariables: ['class', 'tone', 'length', 'includePersonality', 'personality']
       });
 
-      const formattedPrompt = await prompt.format({
+      const variables = {
         class: characterClass,
         tone: options?.tone || 'heroic',
         length: options?.length || 'short',
         includePersonality: options?.includePersonality ? 'yes' : 'no',
         personality: options?.includePersonality ? '- personality: key character traits' : ''
-      });
+      };
+      const formattedPrompt = await prompt.format(variables);
 
       const parser = new JsonOutputParser();
-      const response = await this.model.invoke(formattedPrompt);
-      const parsed = await parser.parse(String(response.content)) as {
+      const response = await this.provider.generateText({ task: 'character_story', prompt: formattedPrompt, variables });
+      const parsed = await parser.parse(response) as {
         name: string;
         backstory: string;
         appearance: string;
@@ -112,6 +96,51 @@ export class AIService implements IAIService {
     }
   }
 
+  async generateEvolutionStory(
+    characterClass: CharacterClass,
+    previous: {
+      name: string;
+      backstory: string;
+      personality?: string;
+    }
+  ): Promise<{
+    name: string;
+    backstory: string;
+    appearance: string;
+    personality?: string;
+  }> {
+    try {
+      const prompt = new PromptTemplate({
+        template: characterPrompts.evolution,
+        inputVariables: ['class', 'name', 'backstory', 'personality']
+      });
+
+      const variables = {
+        class: characterClass,
+        name: previous.name,
+        backstory: previous.backstory,
+        personality: previous.personality || 'Unknown'
+      };
+      const formattedPrompt = await prompt.format(variables);
+
+      const parser = new JsonOutputParser();
+      const response = await this.provider.generateText({ task: 'evolution_story', prompt: formattedPrompt, variables });
+      const parsed = await parser.parse(response) as {
+        name: string;
+        backstory: string;
+        appearance: string;
+        personality?: string;
+      };
+      return parsed;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const serviceError = new AIServiceError(`Failed to generate evolution story: ${message}`);
+      serviceError.code = 'STORY_GENERATION_FAILED';
+      serviceError.statusCode = 500;
+      throw serviceError;
+    }
+  }
+
   async processGameAction(
     action: string,
     context: {
@@ -130,18 +159,19 @@ export class AIService implements IAIService {
         inputVariables: ['level', 'class', 'stats', 'scene', 'history', 'action']
       });
 
-      const formattedPrompt = await prompt.format({
+      const variables = {
         level: context.character.level,
         class: context.character.class,
         stats: JSON.stringify(context.character.stats),
         scene: context.currentScene || 'Starting scene',
         history: JSON.stringify(context.sessionHistory || []),
         action: action
-      });
+      };
+      const formattedPrompt = await prompt.format(variables);
 
       const parser = new JsonOutputParser();
-      const response = await this.model.invoke(formattedPrompt);
-      const parsed = await parser.parse(String(response.content)) as GameMasterResponse;
+      const response = await this.provider.generateText({ task: 'game_action', prompt: formattedPrompt, variables });
+      const parsed = await parser.parse(response) as GameMasterResponse;
       return parsed;
     } catch (error: unknown) {
       const message = error instanceof Error ? error.message : 'Unknown error';
@@ -152,6 +182,30 @@ export class AIService implements IAIService {
     }
   }
 
+  async summarizeSession(previousSummary: string, turns: string[]): Promise<string> {
+    try {
+      const prompt = new PromptTemplate({
+        template: gameplayPrompts.summary,
+        inputVariables: ['summary', 'turns']
+      });
+
+      const variables = {
+        summary: previousSummary || 'The adventure has just begun.',
+        turns: turns.join('\n')
+      };
+      const formattedPrompt = await prompt.format(variables);
+
+      const response = await this.provider.generateText({ task: 'session_summary', prompt: formattedPrompt, variables });
+      return response.trim();
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const serviceError = new AIServiceError(`Failed to summarize session: ${message}`);
+      serviceError.code = 'ACTION_PROCESSING_FAILED';
+      serviceError.statusCode = 500;
+      throw serviceError;
+    }
+  }
+
   async generateEncounter(
     characterLevel: number,
     type: 'combat' | 'social' | 'exploration',
@@ -159,6 +213,7 @@ export class AIService implements IAIService {
   ): Promise<{
     description: string;
     challenges: string[];
+    enemies: MonsterDefinition[];
     rewards: {
       experience: number;
       loot?: string[];
@@ -167,26 +222,51 @@ export class AIService implements IAIService {
     try {
       const prompt = new PromptTemplate({
         template: gameplayPrompts.encounter,
-        inputVariables: ['type', 'level', 'difficulty']
+        inputVariables: ['type', 'level', 'difficulty', 'monsters']
       });
 
-      const formattedPrompt = await prompt.format({
+      // Offer only monsters the hardest encounter budget could afford
+      const candidates = this.bestiary.listMonsters({
+        maxChallenge: Math.max(characterLevel * 1.5, 0.25)
+      });
+
+      const variables = {
         type,
         level: characterLevel,
-        difficulty
-      });
+        difficulty,
+        monsters: candidates
+          .map((monster) => `- ${monster.id}: ${monster.name}, CR ${monster.challengeRating}`)
+          .join('\n')
+      };
+      const formattedPrompt = await prompt.format(variables);
 
       const parser = new JsonOutputParser();
-      const response = await this.model.invoke(formattedPrompt);
-      const parsed = await parser.parse(String(response.content)) as {
+      const response = await this.provider.generateText({ task: 'encounter', prompt: formattedPrompt, variables });
+      const parsed = await parser.parse(response) as {
         description: string;
         challenges: string[];
+        monsters?: string[];
         rewards: {
           experience: number;
           loot?: string[];
         };
       };
-      return parsed;
+
+      // Drop anything the model invented that isn't in the bestiary
+      let enemies = (parsed.monsters || [])
+        .map((id) => this.bestiary.findMonster(id))
+        .filter((monster): monster is MonsterDefinition => monster !== undefined);
+
+      if (type === 'combat' && enemies.length === 0) {
+        enemies = this.bestiary.buildEncounter(characterLevel, difficulty);
+      }
+
+      return {
+        description: parsed.description,
+        challenges: parsed.challenges,
+        enemies,
+        rewards: parsed.rewards
+      };
     } catch (error: unknown) {
       const message = error instanceof Error ? error.message : 'Unknown error';
       const serviceError = new AIServiceError(`Failed to generate encounter: ${message}`);
@@ -220,15 +300,16 @@ export class AIService implements IAIService {
         inputVariables: ['length', 'level', 'theme']
       });
 
-      const formattedPrompt = await prompt.format({
+      const variables = {
         length,
         level: characterLevel,
         theme: theme || 'standard fantasy'
-      });
+      };
+      const formattedPrompt = await prompt.format(variables);
 
       const parser = new JsonOutputParser();
-      const response = await this.model.invoke(formattedPrompt);
-      const parsed = await parser.parse(String(response.content)) as {
+      const response = await this.provider.generateText({ task: 'questline', prompt: formattedPrompt, variables });
+      const parsed = await parser.parse(response) as {
         title: string;
         description: string;
         objectives: string[];
@@ -305,46 +386,6 @@ export class AIService implements IAIService {
       return systemRolePrompts[role];
     }
   
-    private async generateRewards(
-      characterLevel: number,
-      encounterDifficulty: 'easy' | 'medium' | 'hard'
-    ): Promise<{
-      experience: number;
-      gold?: number;
-      items?: string[];
-    }> {
-      const baseXP = characterLevel * 100;
-      const multiplier = {
-        easy: 0.5,
-        medium: 1,
-        hard: 1.5
-      }[encounterDifficulty];
-  
-      const experience = Math.floor(baseXP * multiplier);
-      const gold = Math.floor(experience * 0.8);
-  
-      // Generate appropriate items based on level and difficulty
-      const itemPrompt = `
-        Suggest 0-2 appropriate D&D 5e items as rewards for a level ${characterLevel} character.
-        Difficulty: ${encounterDifficulty}
-        Format as JSON array of item names.
-      `;
-  
-      try {
-        const itemsResponse = await this.model.invoke(itemPrompt);
-        const items = await this.validateResponse<string[]>(String(itemsResponse.content));
-  
-        return {
-          experience,
-          gold,
-          items: items.length > 0 ? items : undefined
-        };
-      } catch (error) {
-        // If item generation fails, return just XP and gold
-        return { experience, gold };
-      }
-    }
-  
     // Utility method for generating character names
     private async generateCharacterName(
       characterClass: CharacterClass,
@@ -355,14 +396,15 @@ export class AIService implements IAIService {
         inputVariables: ['race', 'class']
       });
   
-      const formattedPrompt = await prompt.format({
+      const variables = {
         race: race || 'human',
         class: characterClass
-      });
+      };
+      const formattedPrompt = await prompt.format(variables);
   
       try {
-        const name = await this.model.invoke(formattedPrompt);
-        return String(name.content).trim();
+        const name = await this.provider.generateText({ task: 'character_name', prompt: formattedPrompt, variables });
+        return name.trim();
       } catch (error) {
         // Return a fallback name if generation fails
         return `${characterClass.charAt(0).toUpperCase() + characterClass.slice(1)} Hero`;
@@ -0,0 +1,250 @@
+// src/services/AuthService.ts
+
+import {
+    AccessTokenClaims,
+    AuthNonce,
+    AuthSession,
+    IAuthService,
+    IKeyValueStore,
+    ServiceError,
+    SiweMessageFields
+} from '../utils/types';
+import { Service, Inject } from 'typedi';
+import { Tokens } from '../utils/types';
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { ethers } from 'ethers';
+import { getNetworkConfig } from '../chain/network';
+import logger from '../utils/Logger';
+
+const NONCE_TTL_SECONDS = 5 * 60;
+const DEFAULT_ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+const DEFAULT_REFRESH_TOKEN_TTL_SECONDS = 7 * 24 * 60 * 60;
+const JWT_HEADER = { alg: 'HS256', typ: 'JWT' };
+
+// EIP-4361 field labels, in the order they appear after the statement
+const SIWE_FIELDS: Record<string, keyof SiweMessageFields> = {
+    'URI': 'uri',
+    'Version': 'version',
+    'Chain ID': 'chainId',
+    'Nonce': 'nonce',
+    'Issued At': 'issuedAt',
+    'Expiration Time': 'expirationTime',
+    'Not Before': 'notBefore'
+};
+
+interface RefreshTokenRecord {
+    address: string;
+    expiresAt: string;
+}
+
+@Service(Tokens.AuthService)
+export class AuthService implements IAuthService {
+    private readonly domain: string;
+    private readonly chainId: number;
+    private readonly accessTokenTtlSeconds: number;
+    private readonly refreshTokenTtlSeconds: number;
+
+    constructor(
+        @Inject(Tokens.Store) private store: IKeyValueStore
+    ) {
+        this.domain = process.env.SIWE_DOMAIN || 'localhost:3000';
+        this.chainId = getNetworkConfig().chainId;
+        this.accessTokenTtlSeconds =
+            Number(process.env.AUTH_ACCESS_TOKEN_TTL_SECONDS) || DEFAULT_ACCESS_TOKEN_TTL_SECONDS;
+        this.refreshTokenTtlSeconds =
+            Number(process.env.AUTH_REFRESH_TOKEN_TTL_SECONDS) || DEFAULT_REFRESH_TOKEN_TTL_SECONDS;
+    }
+
+    async createNonce(): Promise<AuthNonce> {
+        const nonce = randomBytes(16).toString('hex');
+        await this.store.set(this.nonceKey(nonce), true, NONCE_TTL_SECONDS);
+
+        return {
+            nonce,
+            expiresAt: new Date(Date.now() + NONCE_TTL_SECONDS * 1000).toISOString()
+        };
+    }
+
+    async signIn(message: string, signature: string): Promise<AuthSession> {
+        const fields = this.parseMessage(message);
+
+        if (fields.domain !== this.domain || fields.chainId !== this.chainId || fields.version !== '1') {
+            const serviceError = new ServiceError('Sign-in message is not for this application');
+            serviceError.code = 'SIWE_MESSAGE_REJECTED';
+            serviceError.statusCode = 401;
+            throw serviceError;
+        }
+
+        // Nonces are single-use, so a captured message can't be replayed
+        const issued = await this.store.get<boolean>(this.nonceKey(fields.nonce));
+        if (!issued) {
+            const serviceError = new ServiceError('Sign-in nonce is unknown or has expired');
+            serviceError.code = 'SIWE_NONCE_INVALID';
+            serviceError.statusCode = 401;
+            throw serviceError;
+        }
+        await this.store.delete(this.nonceKey(fields.nonce));
+
+        const now = Date.now();
+        if ((fields.expirationTime && Date.parse(fields.expirationTime) <= now) ||
+            (fields.notBefore && Date.parse(fields.notBefore) > now)) {
+            const serviceError = new ServiceError('Sign-in message is not currently valid');
+            serviceError.code = 'SIWE_MESSAGE_EXPIRED';
+            serviceError.statusCode = 401;
+            throw serviceError;
+        }
+
+        let signer: string;
+        try {
+            signer = ethers.verifyMessage(message, signature);
+        } catch (error) {
+            signer = ethers.ZeroAddress;
+        }
+
+        if (signer.toLowerCase() !== fields.address.toLowerCase()) {
+            logger.warn('Sign-in signature mismatch', { address: fields.address });
+            const serviceError = new ServiceError('Signature does not match the sign-in address');
+            serviceError.code = 'INVALID_SIWE_SIGNATURE';
+            serviceError.statusCode = 401;
+            throw serviceError;
+        }
+
+        logger.info('Player signed in', { address: fields.address });
+        return this.issueSession(fields.address.toLowerCase());
+    }
+
+    async refresh(refreshToken: string): Promise<AuthSession> {
+        const key = this.refreshKey(refreshToken);
+        const record = await this.store.get<RefreshTokenRecord>(key);
+
+        if (!record || Date.parse(record.expiresAt) <= Date.now()) {
+            const serviceError = new ServiceError('Refresh token is invalid or has expired');
+            serviceError.code = 'INVALID_REFRESH_TOKEN';
+            serviceError.statusCode = 401;
+            throw serviceError;
+        }
+
+        // Refresh tokens rotate on every use
+        await this.store.delete(key);
+        return this.issueSession(record.address);
+    }
+
+    async signOut(refreshToken: string): Promise<void> {
+        await this.store.delete(this.refreshKey(refreshToken));
+    }
+
+    verifyAccessToken(token: string): AccessTokenClaims {
+        const [header, payload, signature] = token.split('.');
+
+        if (!header || !payload || !signature) {
+            const serviceError = new ServiceError('Malformed access token');
+            serviceError.code = 'INVALID_ACCESS_TOKEN';
+            serviceError.statusCode = 401;
+            throw serviceError;
+        }
+
+        const expected = Buffer.from(this.sign(`${header}.${payload}`));
+        const provided = Buffer.from(signature);
+        if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+            const serviceError = new ServiceError('Access token signature is invalid');
+            serviceError.code = 'INVALID_ACCESS_TOKEN';
+            serviceError.statusCode = 401;
+            throw serviceError;
+        }
+
+        const claims = JSON.parse(Buffer.from(payload, 'base64url').toString()) as AccessTokenClaims;
+        if (claims.exp <= Math.floor(Date.now() / 1000)) {
+            const serviceError = new ServiceError('Access token has expired');
+            serviceError.code = 'ACCESS_TOKEN_EXPIRED';
+            serviceError.statusCode = 401;
+            throw serviceError;
+        }
+
+        return claims;
+    }
+
+    private async issueSession(address: string): Promise<AuthSession> {
+        const issuedAt = Math.floor(Date.now() / 1000);
+        const claims: AccessTokenClaims = {
+            sub: address,
+            iat: issuedAt,
+            exp: issuedAt + this.accessTokenTtlSeconds
+        };
+
+        const unsigned = [JWT_HEADER, claims]
+            .map((part) => Buffer.from(JSON.stringify(part)).toString('base64url'))
+            .join('.');
+        const accessToken = `${unsigned}.${this.sign(unsigned)}`;
+
+        const refreshToken = randomBytes(32).toString('base64url');
+        const record: RefreshTokenRecord = {
+            address,
+            expiresAt: new Date((issuedAt + this.refreshTokenTtlSeconds) * 1000).toISOString()
+        };
+
+        await this.store.set(this.refreshKey(refreshToken), record, this.refreshTokenTtlSeconds);
+
+        return {
+            address,
+            accessToken,
+            expiresIn: this.accessTokenTtlSeconds,
+            refreshToken,
+            refreshExpiresIn: this.refreshTokenTtlSeconds
+        };
+    }
+
+    private sign(input: string): string {
+        const secret = process.env.AUTH_JWT_SECRET;
+        if (!secret) {
+            const serviceError = new ServiceError('Authentication is disabled: AUTH_JWT_SECRET is not configured');
+            serviceError.code = 'AUTH_NOT_CONFIGURED';
+            serviceError.statusCode = 503;
+            throw serviceError;
+        }
+
+        return createHmac('sha256', secret).update(input).digest('base64url');
+    }
+
+    private parseMessage(message: string): SiweMessageFields {
+        const lines = String(message).split('\n');
+        const header = lines[0]?.match(/^(\S+) wants you to sign in with your Ethereum account:$/);
+        const address = lines[1]?.trim();
+
+        const fields: Partial<SiweMessageFields> = {};
+        for (const line of lines.slice(2)) {
+            const separator = line.indexOf(': ');
+            const field = separator > 0 ? SIWE_FIELDS[line.slice(0, separator)] : undefined;
+            if (field) {
+                (fields as Record<string, string>)[field] = line.slice(separator + 2).trim();
+            }
+        }
+
+        if (!header || !address || !ethers.isAddress(address) ||
+            !fields.uri || !fields.version || !fields.chainId || !fields.nonce || !fields.issuedAt) {
+            const serviceError = new ServiceError('Invalid Sign-In With Ethereum message');
+            serviceError.code = 'INVALID_SIWE_MESSAGE';
+            serviceError.statusCode = 400;
+            throw serviceError;
+        }
+
+        // The statement is the optional paragraph between the address and the URI field
+        const statement = lines[3] && !lines[3].startsWith('URI: ') ? lines[3] : undefined;
+
+        return {
+            ...fields,
+            domain: header[1],
+            address,
+            statement,
+            chainId: Number(fields.chainId)
+        } as SiweMessageFields;
+    }
+
+    private nonceKey(nonce: string): string {
+        return `auth:nonce:${nonce}`;
+    }
+
+    private refreshKey(refreshToken: string): string {
+        // Only a digest is stored, so a store dump doesn't leak usable tokens
+        return `auth:refresh:${createHash('sha256').update(refreshToken).digest('hex')}`;
+    }
+}
@@ -0,0 +1,178 @@
+// src/services/BestiaryService.ts
+
+import {
+    CharacterStats,
+    EncounterDifficulty,
+    IBestiaryService,
+    MonsterDefinition,
+    ServiceError
+} from '../utils/types';
+import { Service } from 'typedi';
+import { Tokens } from '../utils/types';
+import * as fs from 'fs';
+import * as path from 'path';
+import logger from '../utils/Logger';
+
+const ABILITIES: Array<keyof CharacterStats> = [
+    'strength', 'dexterity', 'constitution', 'intelligence', 'wisdom', 'charisma'
+];
+
+// Total challenge rating an encounter may spend, relative to character level
+const DIFFICULTY_BUDGET: Record<EncounterDifficulty, number> = {
+    easy: 0.5,
+    medium: 1,
+    hard: 1.5
+};
+
+const MAX_ENCOUNTER_SIZE = 3;
+const MIN_CHALLENGE_BUDGET = 0.25;
+
+@Service(Tokens.BestiaryService)
+export class BestiaryService implements IBestiaryService {
+    private readonly monsters = new Map<string, MonsterDefinition>();
+
+    constructor(
+        monstersDir: string = process.env.BESTIARY_DIR || path.join(__dirname, '../data/monsters')
+    ) {
+        this.loadDirectory(monstersDir);
+    }
+
+    getMonster(id: string): MonsterDefinition {
+        const monster = this.findMonster(id);
+        if (!monster) {
+            const serviceError = new ServiceError(`Unknown monster: ${id}`);
+            serviceError.code = 'MONSTER_NOT_FOUND';
+            serviceError.statusCode = 404;
+            throw serviceError;
+        }
+        return monster;
+    }
+
+    findMonster(id: string): MonsterDefinition | undefined {
+        return this.monsters.get(id);
+    }
+
+    listMonsters(filter: { minChallenge?: number; maxChallenge?: number } = {}): MonsterDefinition[] {
+        return Array.from(this.monsters.values())
+            .filter((monster) =>
+                (filter.minChallenge === undefined || monster.challengeRating >= filter.minChallenge) &&
+                (filter.maxChallenge === undefined || monster.challengeRating <= filter.maxChallenge)
+            )
+            .sort((a, b) => a.challengeRating - b.challengeRating);
+    }
+
+    buildEncounter(
+        characterLevel: number,
+        difficulty: EncounterDifficulty,
+        random: () => number = Math.random
+    ): MonsterDefinition[] {
+        let budget = Math.max(characterLevel * DIFFICULTY_BUDGET[difficulty], MIN_CHALLENGE_BUDGET);
+        const affordable = this.listMonsters({ maxChallenge: budget });
+
+        if (affordable.length === 0) {
+            // Nothing fits the budget, fall back to the weakest monster available
+            const weakest = this.listMonsters()[0];
+            return weakest ? [weakest] : [];
+        }
+
+        // Lead with a monster in the upper half of the budget, then fill with weaker ones
+        const leaders = affordable.filter((monster) => monster.challengeRating >= budget / 2);
+        const pool = leaders.length > 0 ? leaders : affordable;
+        const encounter = [pool[Math.floor(random() * pool.length)]];
+        budget -= encounter[0].challengeRating;
+
+        while (encounter.length < MAX_ENCOUNTER_SIZE) {
+            const remaining = budget;
+            const candidates = affordable.filter((monster) => monster.challengeRating <= remaining);
+            if (candidates.length === 0) {
+                break;
+            }
+            const next = candidates[Math.floor(random() * candidates.length)];
+            encounter.push(next);
+            budget -= next.challengeRating;
+        }
+
+        return encounter;
+    }
+
+    // Resolves a hand-picked encounter and rates it by the same challenge budget
+    // buildEncounter spends, so the caller can't pick the payout tier
+    composeEncounter(
+        characterLevel: number,
+        monsterIds: string[]
+    ): { monsters: MonsterDefinition[]; difficulty: EncounterDifficulty } {
+        if (monsterIds.length === 0 || monsterIds.length > MAX_ENCOUNTER_SIZE) {
+            const serviceError = new ServiceError(`An encounter needs between 1 and ${MAX_ENCOUNTER_SIZE} monsters`);
+            serviceError.code = 'INVALID_ENCOUNTER';
+            serviceError.statusCode = 400;
+            throw serviceError;
+        }
+
+        const monsters = monsterIds.map((id) => this.getMonster(id));
+        const challenge = monsters.reduce((total, monster) => total + monster.challengeRating, 0);
+        const difficulty = (['easy', 'medium'] as EncounterDifficulty[]).find((candidate) =>
+            challenge <= Math.max(characterLevel * DIFFICULTY_BUDGET[candidate], MIN_CHALLENGE_BUDGET)
+        ) || 'hard';
+
+        return { monsters, difficulty };
+    }
+
+    private loadDirectory(monstersDir: string): void {
+        if (!fs.existsSync(monstersDir)) {
+            const serviceError = new ServiceError(`Bestiary directory not found: ${monstersDir}`);
+            serviceError.code = 'BESTIARY_LOAD_FAILED';
+            serviceError.statusCode = 500;
+            throw serviceError;
+        }
+
+        const files = fs.readdirSync(monstersDir).filter((file) => file.endsWith('.json'));
+        for (const file of files) {
+            const content = JSON.parse(fs.readFileSync(path.join(monstersDir, file), 'utf8'));
+
+            // A file may hold a single monster or a list of them
+            const definitions = Array.isArray(content) ? content : [content];
+            for (const definition of definitions) {
+                this.register(this.validate(definition, file));
+            }
+        }
+
+        logger.info('Bestiary loaded', { monsters: this.monsters.size, monstersDir });
+    }
+
+    private register(monster: MonsterDefinition): void {
+        if (this.monsters.has(monster.id)) {
+            logger.warn('Duplicate monster definition replaced', { id: monster.id });
+        }
+        this.monsters.set(monster.id, monster);
+    }
+
+    private validate(definition: any, file: string): MonsterDefinition {
+        const problems: string[] = [];
+
+        if (typeof definition.id !== 'string' || !definition.id) problems.push('id');
+        if (typeof definition.name !== 'string') problems.push('name');
+        if (typeof definition.challengeRating !== 'number') problems.push('challengeRating');
+        if (typeof definition.hitPoints !== 'number' || definition.hitPoints <= 0) problems.push('hitPoints');
+        if (typeof definition.armorClass !== 'number') problems.push('armorClass');
+        if (!Array.isArray(definition.attacks) || definition.attacks.length === 0) problems.push('attacks');
+        if (!ABILITIES.includes(definition.vulnerableAbility)) problems.push('vulnerableAbility');
+        if (typeof definition.experience !== 'number') problems.push('experience');
+        if (typeof definition.lootTable !== 'string') problems.push('lootTable');
+
+        if (problems.length > 0) {
+            const serviceError = new ServiceError(
+                `Invalid monster definition in ${file}: ${problems.join(', ')}`
+            );
+            serviceError.code = 'BESTIARY_LOAD_FAILED';
+            serviceError.statusCode = 500;
+            throw serviceError;
+        }
+
+        return {
+            description: '',
+            initiativeBonus: 0,
+            resistances: [],
+            ...definition
+        } as MonsterDefinition;
+    }
+}
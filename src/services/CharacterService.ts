@@ -2,150 +2,231 @@ import {
   ICharacterService,
   CharacterClass,
   CharacterBase,
+  CharacterDetails,
+  CharacterMetadata,
+  CharacterStats,
+  CharacterCreationProgress,
+  CharacterCreationResult,
+  CharacterCreationStageListener,
+  EvolveCharacterResponse,
   ServiceError,
   IWalletService,
   IIPFSService,
   IAIService,
+  IIndexerService,
+  IExperienceService,
+  ITransactionManager,
+  IKeyValueStore,
+  IndexedCharacter,
 } from "../utils/types";
 import logger from "../utils/Logger";
+import { getProvider } from "../chain/network";
+import { getActiveDeployment } from "../chain/deployments";
 import { Service, Inject } from 'typedi';
 import { Tokens } from "../utils/types";
 import { ethers } from 'ethers';
 
+// Stat each class leans on; evolution boosts it further than the rest
+const PRIMARY_STATS: Record<CharacterClass, keyof CharacterStats> = {
+  [CharacterClass.WARRIOR]: "strength",
+  [CharacterClass.MAGE]: "intelligence",
+  [CharacterClass.ROGUE]: "dexterity",
+  [CharacterClass.CLERIC]: "wisdom",
+  [CharacterClass.BARD]: "charisma",
+};
+
+// Outlasts the AI call, the pin and the transaction wait, so a claim left by
+// a crashed process still frees the token eventually
+const EVOLUTION_CLAIM_TTL_SECONDS = 30 * 60;
+
 @Service(Tokens.CharacterService)
 export class CharacterService implements ICharacterService {
   private contractConfig: any;
+  private readonly provider: ethers.JsonRpcProvider;
+  // Class is fixed at mint and only recorded in the token metadata
+  private readonly classes = new Map<number, CharacterClass>();
 
   constructor(
     @Inject(Tokens.WalletService) private readonly walletService: IWalletService,
     @Inject(Tokens.IPFSService) private readonly ipfsService: IIPFSService,
-    @Inject(Tokens.AIService) private readonly aiService: IAIService
+    @Inject(Tokens.AIService) private readonly aiService: IAIService,
+    @Inject(Tokens.IndexerService) private readonly indexerService: IIndexerService,
+    @Inject(Tokens.ExperienceService) private readonly experienceService: IExperienceService,
+    @Inject(Tokens.TransactionManager) private readonly transactionManager: ITransactionManager,
+    @Inject(Tokens.Store) private readonly store: IKeyValueStore
   ) {
     try {
-      this.contractConfig = require("../../deployments/DnDCharacterNFT.json");
+      this.contractConfig = getActiveDeployment('DnDCharacterNFT');
     } catch (error) {
       logger.warn('Contract configuration not loaded - deployment may be pending');
       this.contractConfig = null;
     }
+    this.provider = getProvider();
   }
 
   async createCharacter(
     playerAddress: string,
-    characterClass: CharacterClass
-  ): Promise<any> {
+    characterClass: CharacterClass,
+    progress: CharacterCreationProgress = {},
+    onStage: CharacterCreationStageListener = async () => {}
+  ): Promise<CharacterCreationResult> {
     try {
-      // Get HDNodeWallet and connect to provider
-      const wallet = this.walletService.getEthersWallet();
-      const provider = new ethers.JsonRpcProvider("https://sepolia.base.org");
-      const signer = wallet.connect(provider);
-      
-      // 1. Generate character story and appearance
       logger.info("Starting character creation", {
         characterClass,
         playerAddress,
+        resumed: Object.keys(progress).length > 0,
       });
-      const characterDetails = await this.aiService.generateCharacterStory(
-        characterClass,
-        {
-          length: "short",
-          tone: "heroic",
-          includePersonality: true,
-        }
-      );
-      logger.debug("Character details generated", { characterDetails });
+
+      // 1. Generate character story and appearance
+      if (!progress.characterDetails) {
+        await onStage("story", "started", progress);
+        progress.characterDetails = await this.aiService.generateCharacterStory(
+          characterClass,
+          {
+            length: "short",
+            tone: "heroic",
+            includePersonality: true,
+          }
+        );
+        logger.debug("Character details generated", {
+          characterDetails: progress.characterDetails,
+        });
+        await onStage("story", "completed", progress);
+      }
+      const characterDetails = progress.characterDetails;
 
       // 2. Generate character image
-      logger.info("Generating character image");
-      const imageBuffer = await this.aiService.generateCharacterImage({
-        ...characterDetails,
-        class: characterClass,
-      });
-      logger.debug("Character image generated");
+      if (!progress.imageUri && !progress.image) {
+        await onStage("image", "started", progress);
+        logger.info("Generating character image");
+        const imageBuffer = await this.aiService.generateCharacterImage({
+          ...characterDetails,
+          class: characterClass,
+        });
+        progress.image = imageBuffer.toString("base64");
+        logger.debug("Character image generated");
+        await onStage("image", "completed", progress);
+      }
 
       // 3. Upload image to IPFS
-      logger.info("Uploading image to IPFS");
-      let imageUri: string;
-      try {
-        imageUri = await this.ipfsService.uploadFile(
-          imageBuffer,
-          "character.png"
-        );
-        logger.info("Image uploaded successfully", { imageUri });
-      } catch (error) {
-        logger.error("IPFS image upload failed", {
-          error: error instanceof Error ? error.message : "Unknown error",
-        });
-        throw new Error(
-          `Failed to upload image: ${
-            error instanceof Error ? error.message : "Unknown error"
-          }`
-        );
+      if (!progress.imageUri) {
+        await onStage("image_pin", "started", progress);
+        logger.info("Uploading image to IPFS");
+        try {
+          progress.imageUri = await this.ipfsService.uploadFile(
+            Buffer.from(progress.image!, "base64"),
+            "character.png"
+          );
+          delete progress.image;
+          logger.info("Image uploaded successfully", { imageUri: progress.imageUri });
+        } catch (error) {
+          logger.error("IPFS image upload failed", {
+            error: error instanceof Error ? error.message : "Unknown error",
+          });
+          throw new Error(
+            `Failed to upload image: ${
+              error instanceof Error ? error.message : "Unknown error"
+            }`
+          );
+        }
+        await onStage("image_pin", "completed", progress);
       }
 
-      // 4. Generate base stats
-      logger.info("Generating base stats", { characterClass });
-      const baseStats = this.generateBaseStats(characterClass);
-      logger.debug("Base stats generated", { baseStats });
-
-      // 5. Create metadata
-      const metadata = {
-        name: characterDetails.name,
-        description: characterDetails.backstory,
-        image: imageUri,
-        attributes: [
-          { trait_type: "Class", value: characterClass },
-          { trait_type: "Level", value: 1 },
-          ...Object.entries(baseStats).map(([key, value]) => ({
-            trait_type: key.charAt(0).toUpperCase() + key.slice(1),
-            value,
-          })),
-          {
-            trait_type: "Personality",
-            value: characterDetails.personality || "Unknown",
-          },
-        ],
-      };
+      // 4. Generate base stats and upload metadata to IPFS
+      if (!progress.metadataUri) {
+        await onStage("metadata_pin", "started", progress);
+        logger.info("Generating base stats", { characterClass });
+        const baseStats = this.generateBaseStats(characterClass);
+        logger.debug("Base stats generated", { baseStats });
+
+        const metadata = this.buildMetadata(
+          characterDetails,
+          characterClass,
+          progress.imageUri,
+          baseStats,
+          1
+        );
 
-      // 6. Upload metadata to IPFS
-      logger.info("Uploading metadata to IPFS");
-      const metadataUri = await this.ipfsService.uploadMetadata(metadata, {
-        name: `${characterDetails.name}_metadata`,
-      });
-      logger.info("Metadata uploaded successfully", { metadataUri });
-
-      // 7. Prepare stats array for contract
-      const stats = [
-        baseStats.strength,
-        baseStats.dexterity,
-        baseStats.constitution,
-        baseStats.intelligence,
-        baseStats.wisdom,
-        baseStats.charisma,
-      ];
-
-      // 8. Mint the NFT
-      logger.info("Minting NFT", { playerAddress });
-      const mintResult = await this.walletService.invokeContract(
-        this.contractConfig.address,
-        "mint",
-        [playerAddress, stats, metadataUri],
-        this.contractConfig.abi
-      );
+        logger.info("Uploading metadata to IPFS");
+        progress.metadataUri = await this.ipfsService.uploadMetadata(metadata, {
+          name: `${characterDetails.name}_metadata`,
+        });
+        progress.baseStats = baseStats;
+        logger.info("Metadata uploaded successfully", { metadataUri: progress.metadataUri });
+        await onStage("metadata_pin", "completed", progress);
+      }
+      const metadataUri = progress.metadataUri;
+      const stats = this.toStatsArray(progress.baseStats!);
+
+      // 5. Mint the NFT
+      if (progress.tokenId === undefined && !progress.transactionHash) {
+        // A retried mint can't tell whether its earlier transaction went out,
+        // so it looks for one the transaction manager sent, then for a matching
+        // CharacterMinted event. The start block is persisted before anything
+        // is submitted.
+        const retried = progress.mintStartBlock !== undefined;
+        if (!retried) {
+          progress.mintStartBlock = await this.provider.getBlockNumber();
+        }
+        await onStage("mint", "started", progress);
+
+        const operation = `mint:${metadataUri}`;
+        const earlierMint = (await this.transactionManager.getTransactionsByOperation(operation))
+          .find((transaction) => transaction.status !== "failed");
+        const existingTokenId = retried && !earlierMint
+          ? await this.findMintedToken(playerAddress, metadataUri, progress.mintStartBlock!)
+          : null;
+
+        if (earlierMint) {
+          // Possibly still in the mempool, where no event can show it yet
+          logger.info("Waiting on mint sent by an earlier attempt", { transactionHash: earlierMint.hash });
+          const { transaction } = await this.transactionManager.waitForTransaction(earlierMint.hash);
+          progress.transactionHash = transaction.hash;
+          progress.transactionLink = transaction.transactionLink;
+        } else if (existingTokenId !== null) {
+          logger.info("Found token minted by an earlier attempt", { tokenId: existingTokenId });
+          progress.tokenId = existingTokenId;
+        } else {
+          logger.info("Minting NFT", { playerAddress });
+          const mintResult = await this.walletService.invokeContract(
+            this.contractConfig.address,
+            "mint",
+            [playerAddress, stats, metadataUri],
+            this.contractConfig.abi,
+            { operation }
+          );
+          progress.transactionHash = mintResult.hash;
+          progress.transactionLink = mintResult.transactionLink;
 
-      logger.info("NFT minted successfully");
+          logger.info("NFT minted successfully");
+          logger.debug("Mint transaction details", {
+            transactionHash: progress.transactionHash,
+            transactionLink: progress.transactionLink,
+          });
+        }
+        await onStage("mint", "completed", progress);
+      }
 
-      logger.debug("Mint transaction details", {
-        transactionHash: mintResult.hash,
-        transactionLink: mintResult.receipt.model.transaction.transaction_link,
-      });
+      // 6. Read the token id from the confirmed mint
+      if (progress.tokenId === undefined) {
+        await onStage("confirmed", "started", progress);
+        const minted = await this.findEvent(progress.transactionHash!, "CharacterMinted");
+        if (!minted) {
+          throw new Error("Mint transaction has no CharacterMinted event");
+        }
+        progress.tokenId = Number(minted.args.tokenId);
+        await onStage("confirmed", "completed", progress);
+      }
 
       return {
-        success: true,
-        transactionHash: mintResult.hash,
-        transactionLink: mintResult.receipt.model.transaction.transaction_link,
+        tokenId: progress.tokenId,
+        transactionHash: progress.transactionHash,
+        transactionLink: progress.transactionLink,
+        metadataUri,
         character: {
           owner: playerAddress,
           class: characterClass,
+          name: characterDetails.name,
           stats,
         },
       };
@@ -157,17 +238,65 @@ export class CharacterService implements ICharacterService {
     }
   }
 
+  // Compensation for a creation that will never be minted: releases its pins
+  // in reverse order. Refused once the token exists, since its metadata has
+  // to stay available.
+  async compensateCreation(
+    playerAddress: string,
+    progress: CharacterCreationProgress
+  ): Promise<{ unpinned: string[]; failed: string[] }> {
+    const minted =
+      progress.tokenId !== undefined ||
+      !!progress.transactionHash ||
+      (progress.mintStartBlock !== undefined &&
+        !!progress.metadataUri &&
+        (await this.findMintedToken(playerAddress, progress.metadataUri, progress.mintStartBlock)) !== null);
+
+    if (minted) {
+      const serviceError = new ServiceError(
+        "Character was already minted; retry the creation instead"
+      );
+      serviceError.code = "CREATION_ALREADY_MINTED";
+      serviceError.statusCode = 409;
+      throw serviceError;
+    }
+
+    const unpinned: string[] = [];
+    const failed: string[] = [];
+    for (const uri of [progress.metadataUri, progress.imageUri]) {
+      if (!uri) {
+        continue;
+      }
+      try {
+        await this.ipfsService.unpin(uri);
+        unpinned.push(uri);
+      } catch (error) {
+        logger.error("Failed to unpin creation artifact", {
+          uri,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+        failed.push(uri);
+      }
+    }
+
+    logger.info("Character creation compensated", { playerAddress, unpinned, failed });
+    return { unpinned, failed };
+  }
+
   async getCharacter(tokenId: number): Promise<CharacterBase> {
     try {
-      const result = await this.walletService.invokeContract(
-        this.contractConfig.address,
-        "getCharacter",
-        { tokenId },
-        this.contractConfig.abi
-      );
+      const [{ result }, characterClass] = await Promise.all([
+        this.walletService.invokeContract(
+          this.contractConfig.address,
+          "getCharacter",
+          { tokenId },
+          this.contractConfig.abi
+        ),
+        this.getCharacterClass(tokenId),
+      ]);
 
       return {
-        class: result.class as CharacterClass,
+        class: characterClass,
         stats: {
           strength: Number(result.strength),
           dexterity: Number(result.dexterity),
@@ -192,29 +321,34 @@ export class CharacterService implements ICharacterService {
     }
   }
 
-  async gainExperience(tokenId: number, amount: number): Promise<any> {
+  async getOwnerOf(tokenId: number): Promise<string> {
     try {
-      const result = await this.walletService.invokeContract(
+      const owner = await this.walletService.readContract(
         this.contractConfig.address,
-        "gainExperience",
-        {
-          tokenId,
-          amount,
-        },
-        this.contractConfig.abi
+        "ownerOf",
+        { tokenId: tokenId.toString() }
       );
+      return String(owner).toLowerCase();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      const serviceError = new ServiceError(
+        `Failed to get character owner: ${message}`
+      );
+      serviceError.code = "CHARACTER_NOT_FOUND";
+      serviceError.statusCode = 404;
+      throw serviceError;
+    }
+  }
+
+  // Applied on-chain by the next experience flush; details include it until then
+  async gainExperience(tokenId: number, amount: number): Promise<any> {
+    try {
+      const grant = await this.experienceService.grant(tokenId, amount);
 
       return {
         success: true,
         experienceGained: amount,
-        newLevel: Number(
-          result.logs.find((log: any) => log.eventName === "LevelUp")?.args
-            ?.newLevel
-        ),
-        transaction: {
-          hash: result.hash,
-          blockNumber: result.blockNumber,
-        },
+        grantId: grant.id,
       };
     } catch (error) {
       const message = error instanceof Error ? error.message : "Unknown error";
@@ -227,6 +361,391 @@ export class CharacterService implements ICharacterService {
     }
   }
 
+  async evolveCharacter(tokenId: number): Promise<EvolveCharacterResponse> {
+    // A second evolve would pin its own metadata and race the first one's mint.
+    // The claim lives in the store so it holds across server processes, and an
+    // evolve transaction left pending by an earlier attempt counts as running.
+    const operation = `evolve:${tokenId}`;
+    const inFlight = (await this.transactionManager.getTransactionsByOperation(operation))
+      .some((transaction) => transaction.status === "pending");
+    if (inFlight || !(await this.store.setIfAbsent(this.evolvingKey(tokenId), true, EVOLUTION_CLAIM_TTL_SECONDS))) {
+      const serviceError = new ServiceError("An evolution for this character is already in progress");
+      serviceError.code = "EVOLUTION_IN_PROGRESS";
+      serviceError.statusCode = 409;
+      throw serviceError;
+    }
+
+    try {
+      logger.info("Starting character evolution", { tokenId });
+
+      // 1. Check the on-chain evolution gate before spending on AI and IPFS.
+      // Pending experience may be what reaches the threshold, so write it first.
+      if (await this.experienceService.getPendingExperience(tokenId) > 0) {
+        await this.experienceService.flush();
+      }
+      const character = await this.getCharacter(tokenId);
+      if (character.evolved) {
+        const serviceError = new ServiceError("Character has already evolved");
+        serviceError.code = "CHARACTER_ALREADY_EVOLVED";
+        serviceError.statusCode = 409;
+        throw serviceError;
+      }
+
+      const threshold = Number(
+        await this.walletService.readContract(
+          this.contractConfig.address,
+          "EVOLUTION_THRESHOLD"
+        )
+      );
+      if (character.level < threshold) {
+        const serviceError = new ServiceError(
+          `Character must reach level ${threshold} to evolve`
+        );
+        serviceError.code = "EVOLUTION_LEVEL_TOO_LOW";
+        serviceError.statusCode = 400;
+        throw serviceError;
+      }
+
+      // 2. Load the current metadata to continue the existing story
+      const currentMetadata = await this.getMetadata(tokenId);
+      const characterClass = this.getAttribute(currentMetadata, "Class") as CharacterClass;
+      const personality = this.getAttribute(currentMetadata, "Personality");
+
+      // 3. Generate the ascended story and portrait
+      logger.info("Generating evolution story", { tokenId, characterClass });
+      const evolvedDetails = await this.aiService.generateEvolutionStory(
+        characterClass,
+        {
+          name: currentMetadata.name,
+          backstory: currentMetadata.description,
+          personality: personality !== undefined ? String(personality) : undefined,
+        }
+      );
+
+      logger.info("Generating evolved character image");
+      const imageBuffer = await this.aiService.generateCharacterImage({
+        class: characterClass,
+        appearance: evolvedDetails.appearance,
+        additionalDetails: "Ascended form with a radiant aura and legendary equipment",
+      });
+
+      // 4. Pin the new image and metadata
+      const imageUri = await this.ipfsService.uploadFile(
+        imageBuffer,
+        "character_evolved.png"
+      );
+      logger.info("Evolved image uploaded successfully", { imageUri });
+
+      const evolvedStats = this.calculateEvolvedStats(character.stats, characterClass);
+      // The gear stays in the original token's inventory, so it isn't listed here
+      const metadata = this.buildMetadata(
+        evolvedDetails,
+        characterClass,
+        imageUri,
+        evolvedStats,
+        1,
+        [
+          { trait_type: "Evolved", value: true },
+          { trait_type: "Evolved From", value: tokenId },
+        ]
+      );
+
+      const metadataUri = await this.ipfsService.uploadMetadata(metadata, {
+        name: `${evolvedDetails.name}_evolved_metadata`,
+      });
+      logger.info("Evolved metadata uploaded successfully", { metadataUri });
+
+      // 5. Mint the evolved token
+      const evolveResult = await this.walletService.invokeContract(
+        this.contractConfig.address,
+        "evolveCharacter",
+        [tokenId, this.toStatsArray(evolvedStats), metadataUri],
+        this.contractConfig.abi,
+        { operation }
+      );
+
+      const evolvedEvent = evolveResult.events.find((event) => event.name === "CharacterEvolved");
+      if (!evolvedEvent) {
+        throw new Error("CharacterEvolved event not found in transaction receipt");
+      }
+
+      const evolvedTokenId = Number(evolvedEvent.args.newTokenId);
+      logger.info("Character evolved successfully", { tokenId, evolvedTokenId });
+
+      return {
+        success: true,
+        originalTokenId: Number(evolvedEvent.args.tokenId),
+        evolvedTokenId,
+        transactionHash: evolveResult.hash!,
+        transactionLink: evolveResult.transactionLink,
+        character: {
+          name: evolvedDetails.name,
+          class: characterClass,
+          backstory: evolvedDetails.backstory,
+          personality: evolvedDetails.personality,
+          stats: evolvedStats,
+          imageUri,
+          metadataUri,
+        },
+      };
+    } catch (error) {
+      logger.error("Character evolution error:", {
+        tokenId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+      if ((error as ServiceError).code) {
+        throw error;
+      }
+      const message = error instanceof Error ? error.message : "Unknown error";
+      const serviceError = new ServiceError(`Failed to evolve character: ${message}`);
+      serviceError.code = "CHARACTER_EVOLUTION_FAILED";
+      serviceError.statusCode = 500;
+      throw serviceError;
+    } finally {
+      await this.store.delete(this.evolvingKey(tokenId));
+    }
+  }
+
+  async getCharacterDetails(tokenId: number): Promise<CharacterDetails> {
+    // Resolves to 404 for tokens that were never minted
+    const owner = await this.getOwnerOf(tokenId);
+
+    try {
+      const args = { tokenId: tokenId.toString() };
+      const [character, tokenURI, xpPerLevel, threshold, pendingExperience] = await Promise.all([
+        this.walletService.readContract(this.contractConfig.address, "getCharacter", args),
+        this.walletService.readContract(this.contractConfig.address, "tokenURI", args),
+        this.walletService.readContract(this.contractConfig.address, "XP_PER_LEVEL"),
+        this.walletService.readContract(this.contractConfig.address, "EVOLUTION_THRESHOLD"),
+        this.experienceService.getPendingExperience(tokenId),
+      ]);
+
+      const metadataUri = String(tokenURI);
+      const metadata = JSON.parse(
+        (await this.ipfsService.getContent(metadataUri)).toString("utf8")
+      ) as CharacterMetadata;
+
+      // Unflushed grants count as if they were already on-chain
+      const experience = Number(character.experience) + pendingExperience;
+      const evolved = Boolean(character.evolved);
+      const evolutionThreshold = Number(threshold);
+
+      // Mirrors the contract: level = experience / XP_PER_LEVEL + 1
+      const levelSize = Number(xpPerLevel);
+      const level = Math.max(Number(character.level), Math.floor(experience / levelSize) + 1);
+      const currentLevelExperience = (level - 1) * levelSize;
+      const nextLevelExperience = level * levelSize;
+      const personality = this.getAttribute(metadata, "Personality");
+
+      return {
+        tokenId,
+        owner,
+        name: metadata.name,
+        class: String(this.getAttribute(metadata, "Class")) as CharacterClass,
+        backstory: metadata.description,
+        personality: personality !== undefined ? String(personality) : undefined,
+        image: this.ipfsService.getGatewayUrl(metadata.image),
+        imageUri: metadata.image,
+        metadataUri,
+        stats: {
+          strength: Number(character.strength),
+          dexterity: Number(character.dexterity),
+          constitution: Number(character.constitution),
+          intelligence: Number(character.intelligence),
+          wisdom: Number(character.wisdom),
+          charisma: Number(character.charisma),
+        },
+        experience,
+        pendingExperience,
+        level,
+        levelProgress: {
+          currentLevelExperience,
+          nextLevelExperience,
+          experienceToNextLevel: Math.max(nextLevelExperience - experience, 0),
+          percent: Math.min(
+            Math.floor(((experience - currentLevelExperience) / levelSize) * 100),
+            100
+          ),
+        },
+        seasonId: Number(character.seasonId),
+        evolved,
+        evolution: {
+          eligible: !evolved && level >= evolutionThreshold,
+          threshold: evolutionThreshold,
+          reason: evolved
+            ? "ALREADY_EVOLVED"
+            : level < evolutionThreshold
+              ? "LEVEL_TOO_LOW"
+              : undefined,
+        },
+        attributes: metadata.attributes || [],
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      logger.error("Failed to get character details", { tokenId, error: message });
+      const serviceError = new ServiceError(`Failed to get character details: ${message}`);
+      serviceError.code = "CHARACTER_FETCH_FAILED";
+      serviceError.statusCode = 500;
+      throw serviceError;
+    }
+  }
+
+  async getMetadata(tokenId: number): Promise<CharacterMetadata> {
+    const tokenURI = await this.walletService.readContract(
+      this.contractConfig.address,
+      "tokenURI",
+      { tokenId: tokenId.toString() }
+    );
+    const content = await this.ipfsService.getContent(String(tokenURI));
+    return JSON.parse(content.toString("utf8")) as CharacterMetadata;
+  }
+
+  private evolvingKey(tokenId: number): string {
+    return `character:evolving:${tokenId}`;
+  }
+
+  private async getCharacterClass(tokenId: number): Promise<CharacterClass> {
+    const cached = this.classes.get(tokenId);
+    if (cached) {
+      return cached;
+    }
+
+    const characterClass = this.getAttribute(await this.getMetadata(tokenId), "Class");
+    if (!Object.values(CharacterClass).includes(characterClass as CharacterClass)) {
+      const serviceError = new ServiceError(
+        `Character ${tokenId} metadata has no valid Class attribute`
+      );
+      serviceError.code = "CHARACTER_CLASS_MISSING";
+      serviceError.statusCode = 500;
+      throw serviceError;
+    }
+
+    this.classes.set(tokenId, characterClass as CharacterClass);
+    return characterClass as CharacterClass;
+  }
+
+  private getAttribute(
+    metadata: CharacterMetadata,
+    traitType: string
+  ): string | number | boolean | undefined {
+    return metadata.attributes?.find((attr) => attr.trait_type === traitType)?.value;
+  }
+
+  private async findEvent(
+    txHash: string,
+    eventName: string
+  ): Promise<ethers.LogDescription | null> {
+    const receipt = await this.provider.getTransactionReceipt(txHash);
+    if (!receipt) {
+      return null;
+    }
+
+    const contractInterface = new ethers.Interface(this.contractConfig.abi);
+    for (const log of receipt.logs) {
+      try {
+        const parsed = contractInterface.parseLog(log);
+        if (parsed?.name === eventName) {
+          return parsed;
+        }
+      } catch {
+        // Log emitted by another contract
+        continue;
+      }
+    }
+    return null;
+  }
+
+  private async findMintedToken(
+    playerAddress: string,
+    metadataUri: string,
+    fromBlock: number
+  ): Promise<number | null> {
+    const contractInterface = new ethers.Interface(this.contractConfig.abi);
+    const logs = await this.provider.getLogs({
+      address: this.contractConfig.address,
+      topics: [
+        contractInterface.getEvent("CharacterMinted")!.topicHash,
+        ethers.zeroPadValue(playerAddress, 32),
+      ],
+      fromBlock,
+    });
+
+    // Newest first, since a duplicate would be the player's latest mint
+    for (const log of logs.reverse()) {
+      const tokenId = Number(contractInterface.parseLog(log)!.args.tokenId);
+      const tokenURI = await this.walletService.readContract(
+        this.contractConfig.address,
+        "tokenURI",
+        { tokenId: tokenId.toString() }
+      );
+      if (String(tokenURI) === metadataUri) {
+        return tokenId;
+      }
+    }
+    return null;
+  }
+
+  private buildMetadata(
+    details: { name: string; backstory: string; personality?: string },
+    characterClass: CharacterClass,
+    imageUri: string,
+    stats: CharacterStats | Record<string, number>,
+    level: number,
+    extraAttributes: CharacterMetadata["attributes"] = []
+  ): CharacterMetadata {
+    return {
+      name: details.name,
+      description: details.backstory,
+      image: imageUri,
+      attributes: [
+        { trait_type: "Class", value: characterClass },
+        { trait_type: "Level", value: level },
+        ...Object.entries(stats).map(([key, value]) => ({
+          trait_type: key.charAt(0).toUpperCase() + key.slice(1),
+          value,
+        })),
+        {
+          trait_type: "Personality",
+          value: details.personality || "Unknown",
+        },
+        ...extraAttributes,
+      ],
+    };
+  }
+
+  private toStatsArray(stats: CharacterStats | Record<string, number>): number[] {
+    return [
+      stats.strength,
+      stats.dexterity,
+      stats.constitution,
+      stats.intelligence,
+      stats.wisdom,
+      stats.charisma,
+    ];
+  }
+
+  // Every stat grows by 10% (rounded up) plus one, and the class's primary
+  // stat gets an extra +2 on top.
+  private calculateEvolvedStats(
+    stats: CharacterStats,
+    characterClass: CharacterClass
+  ): CharacterStats {
+    const evolved = Object.entries(stats).reduce(
+      (result, [stat, value]) => ({
+        ...result,
+        [stat]: Math.ceil(value * 1.1) + 1,
+      }),
+      {} as CharacterStats
+    );
+
+    const primaryStat = PRIMARY_STATS[characterClass];
+    if (primaryStat) {
+      evolved[primaryStat] += 2;
+    }
+
+    return evolved;
+  }
+
   private generateBaseStats(
     characterClass: CharacterClass
   ): Record<string, number> {
@@ -297,6 +816,54 @@ export class CharacterService implements ICharacterService {
     ownerAddress: string,
     page: number = 1,
     limit: number = 10
+  ): Promise<{ characters: any[]; total: number }> {
+    const { synced, cursor } = await this.indexerService.getStatus();
+    if (!synced && !cursor) {
+      // Only until the indexer has indexed anything at all; a projection from
+      // an earlier run is served while it catches up
+      logger.warn("Event indexer not synced, scanning ownership on-chain", { ownerAddress });
+      return this.scanCharactersByOwner(ownerAddress, page, limit);
+    }
+
+    const indexed = await this.indexerService.getCharactersByOwner(ownerAddress);
+    const start = (page - 1) * limit;
+
+    logger.info("Characters retrieved from index", {
+      ownerAddress,
+      totalFound: indexed.length,
+      page,
+      limit,
+    });
+
+    return {
+      characters: indexed.slice(start, start + limit).map((character) => this.toListing(character)),
+      total: indexed.length,
+    };
+  }
+
+  private toListing(character: IndexedCharacter) {
+    return {
+      tokenId: character.tokenId.toString(),
+      owner: character.owner,
+      stats: {
+        strength: character.stats.strength.toString(),
+        dexterity: character.stats.dexterity.toString(),
+        constitution: character.stats.constitution.toString(),
+        intelligence: character.stats.intelligence.toString(),
+        wisdom: character.stats.wisdom.toString(),
+        charisma: character.stats.charisma.toString(),
+      },
+      experience: character.experience.toString(),
+      level: character.level.toString(),
+      seasonId: character.seasonId.toString(),
+      evolved: character.evolved,
+    };
+  }
+
+  private async scanCharactersByOwner(
+    ownerAddress: string,
+    page: number,
+    limit: number
   ): Promise<{ characters: any[]; total: number }> {
     try {
       logger.info("Fetching characters for address", { ownerAddress });
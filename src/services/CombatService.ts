@@ -0,0 +1,588 @@
+// src/services/CombatService.ts
+
+import {
+    CharacterClass,
+    CharacterCombatant,
+    CharacterStats,
+    CombatActionResult,
+    CombatActionType,
+    CombatEncounter,
+    CombatLogEntry,
+    DamageType,
+    EncounterDifficulty,
+    EffectiveLoadout,
+    EnemyCombatant,
+    IBestiaryService,
+    ICharacterService,
+    ICombatService,
+    IInventoryService,
+    IKeyValueStore,
+    ILedgerService,
+    ILootService,
+    MonsterDefinition,
+    ServiceError
+} from '../utils/types';
+import { Service, Inject } from 'typedi';
+import { Tokens } from '../utils/types';
+import { randomUUID } from 'crypto';
+import { abilityModifier, proficiencyBonus, rollDice, rollDie, RandomSource } from '../utils/dice';
+import logger from '../utils/Logger';
+
+interface ClassAbility {
+    name: string;
+    stat: keyof CharacterStats;
+    kind: 'attack' | 'heal';
+    dice: string;
+    damageType?: DamageType;
+    attackBonus?: number;
+}
+
+const COMBAT_ACTIONS: CombatActionType[] = ['attack', 'defend', 'use_ability', 'use_item'];
+
+const CLASS_ABILITIES: Record<CharacterClass, ClassAbility> = {
+    [CharacterClass.WARRIOR]: { name: 'Power Strike', stat: 'strength', kind: 'attack', dice: '2d8', damageType: 'slashing', attackBonus: 2 },
+    [CharacterClass.MAGE]: { name: 'Arcane Bolt', stat: 'intelligence', kind: 'attack', dice: '3d6', damageType: 'force' },
+    [CharacterClass.ROGUE]: { name: 'Sneak Attack', stat: 'dexterity', kind: 'attack', dice: '3d6', damageType: 'piercing' },
+    [CharacterClass.CLERIC]: { name: 'Healing Word', stat: 'wisdom', kind: 'heal', dice: '2d8' },
+    [CharacterClass.BARD]: { name: 'Vicious Mockery', stat: 'charisma', kind: 'attack', dice: '2d6', damageType: 'psychic', attackBonus: 2 }
+};
+
+const CHARACTER_ID = 'character';
+// Damage used when no weapon is equipped
+const WEAPON_DAMAGE = '1d8';
+const DEFEND_AC_BONUS = 4;
+const VULNERABILITY_ATTACK_BONUS = 2;
+const VULNERABILITY_DAMAGE_MULTIPLIER = 1.5;
+const ABILITY_USES_PER_ENCOUNTER = 2;
+const POTION_ITEM_ID = 'health-potion';
+const POTION_HEALING = '2d4+2';
+
+@Service(Tokens.CombatService)
+export class CombatService implements ICombatService {
+    constructor(
+        @Inject(Tokens.CharacterService) private characterService: ICharacterService,
+        @Inject(Tokens.Store) private store: IKeyValueStore,
+        @Inject(Tokens.BestiaryService) private bestiary: IBestiaryService,
+        @Inject(Tokens.LootService) private lootService: ILootService,
+        @Inject(Tokens.InventoryService) private inventoryService: IInventoryService,
+        @Inject(Tokens.LedgerService) private ledgerService: ILedgerService,
+        private random: RandomSource = Math.random
+    ) {}
+
+    async startEncounter(
+        tokenId: number,
+        difficulty: EncounterDifficulty = 'medium',
+        monsterIds?: string[]
+    ): Promise<CombatEncounter> {
+        const activeId = await this.store.get<string>(this.activeKey(tokenId));
+        if (activeId) {
+            const active = await this.store.get<CombatEncounter>(this.encounterKey(activeId));
+            if (active && active.status === 'active') {
+                logger.info('Resuming combat encounter', { tokenId, encounterId: active.id });
+                return active;
+            }
+        }
+
+        const characterData = await this.characterService.getCharacter(tokenId);
+        const loadout = await this.inventoryService.getLoadout(tokenId, characterData.stats);
+        const inventory = await this.inventoryService.getInventory(tokenId);
+        const potions = inventory.items.find((stack) => stack.itemId === POTION_ITEM_ID)?.quantity || 0;
+        const character = this.createCharacterCombatant(tokenId, characterData, loadout, potions);
+        let monsters: MonsterDefinition[];
+        if (monsterIds !== undefined) {
+            // Loot pays out by difficulty, so a chosen lineup is rated rather than trusted
+            ({ monsters, difficulty } = this.bestiary.composeEncounter(characterData.level, monsterIds));
+        } else {
+            monsters = this.bestiary.buildEncounter(characterData.level, difficulty, this.random);
+        }
+        const enemies = monsters.map((monster, index) => this.createEnemyCombatant(monster, index));
+
+        const turnOrder = [character, ...enemies]
+            .sort((a, b) => b.initiative - a.initiative)
+            .map((combatant) => combatant.id);
+
+        const now = new Date().toISOString();
+        const encounter: CombatEncounter = {
+            id: randomUUID(),
+            tokenId,
+            status: 'active',
+            difficulty,
+            round: 1,
+            turnOrder,
+            turnIndex: 0,
+            character,
+            enemies,
+            log: [],
+            createdAt: now,
+            updatedAt: now
+        };
+
+        // Enemies that win initiative act before the player's first action
+        const openingEvents: CombatLogEntry[] = [];
+        this.runEnemyTurns(encounter, openingEvents);
+        encounter.log.push(...openingEvents);
+
+        if (encounter.character.hp <= 0) {
+            encounter.status = 'defeat';
+        }
+
+        await this.store.set(this.encounterKey(encounter.id), encounter);
+        if (encounter.status === 'active') {
+            await this.store.set(this.activeKey(tokenId), encounter.id);
+        }
+
+        logger.info('Combat encounter started', {
+            tokenId,
+            encounterId: encounter.id,
+            difficulty,
+            enemies: enemies.map((enemy) => enemy.type),
+            turnOrder
+        });
+
+        return encounter;
+    }
+
+    async getEncounter(tokenId: number, encounterId: string): Promise<CombatEncounter> {
+        const encounter = await this.store.get<CombatEncounter>(this.encounterKey(encounterId));
+
+        if (!encounter || encounter.tokenId !== tokenId) {
+            const serviceError = new ServiceError('Combat encounter not found');
+            serviceError.code = 'COMBAT_NOT_FOUND';
+            serviceError.statusCode = 404;
+            throw serviceError;
+        }
+
+        return encounter;
+    }
+
+    async takeAction(
+        tokenId: number,
+        encounterId: string,
+        action: CombatActionType,
+        targetId?: string
+    ): Promise<CombatActionResult> {
+        const encounter = await this.getEncounter(tokenId, encounterId);
+
+        if (encounter.status !== 'active') {
+            const serviceError = new ServiceError(`Combat encounter already ended in ${encounter.status}`);
+            serviceError.code = 'COMBAT_NOT_ACTIVE';
+            serviceError.statusCode = 409;
+            throw serviceError;
+        }
+
+        if (!COMBAT_ACTIONS.includes(action)) {
+            throw this.invalidAction(`Unknown combat action: ${action}`);
+        }
+
+        const events: CombatLogEntry[] = [];
+
+        // A defensive stance lasts until the character's next turn
+        encounter.character.defending = false;
+        await this.resolveCharacterAction(encounter, action, targetId, events);
+
+        if (this.livingEnemies(encounter).length === 0) {
+            encounter.status = 'victory';
+        } else {
+            this.advanceTurn(encounter);
+            this.runEnemyTurns(encounter, events);
+            if (encounter.character.hp <= 0) {
+                encounter.status = 'defeat';
+                events.push({
+                    round: encounter.round,
+                    actor: CHARACTER_ID,
+                    action: 'defeated',
+                    message: `${encounter.character.name} falls unconscious`
+                });
+            }
+        }
+
+        if (encounter.status === 'victory') {
+            encounter.experienceGained = this.calculateCombatExperience(encounter);
+            // Seeded by encounter id so the drop is reproducible for a given fight
+            encounter.rewards = this.lootService.generateCombatLoot({
+                lootTables: encounter.enemies.map((enemy) => enemy.lootTable),
+                difficulty: encounter.difficulty,
+                characterLevel: encounter.character.level,
+                seed: encounter.id
+            });
+        }
+
+        encounter.log.push(...events);
+        encounter.updatedAt = new Date().toISOString();
+
+        const result: CombatActionResult = {
+            encounterId: encounter.id,
+            outcome: encounter.status === 'active' ? 'ongoing' : encounter.status,
+            events,
+            encounter,
+            experienceGained: encounter.experienceGained,
+            rewards: encounter.rewards,
+            nextActions: this.getNextActions(encounter)
+        };
+
+        if (encounter.status === 'victory') {
+            // Concurrent final blows all reach this point; only the one that
+            // records the victory pays out, the others get its result back
+            if (!await this.store.setIfAbsent(this.victoryKey(encounter.id), result)) {
+                const recorded = await this.store.get<CombatActionResult>(this.victoryKey(encounter.id));
+                logger.warn('Combat victory already claimed', { tokenId, encounterId });
+                return recorded as CombatActionResult;
+            }
+
+            const rewards = encounter.rewards!;
+            await this.characterService.gainExperience(tokenId, encounter.experienceGained!);
+            await this.inventoryService.addItems(tokenId, rewards.items);
+            if (rewards.gold > 0) {
+                await this.ledgerService.credit(tokenId, rewards.gold, {
+                    reason: 'Combat victory',
+                    source: { type: 'combat', id: encounter.id },
+                    rewardKey: `combat:${encounter.id}`
+                });
+            }
+        }
+
+        await this.store.set(this.encounterKey(encounter.id), encounter);
+        if (encounter.status !== 'active') {
+            await this.store.delete(this.activeKey(tokenId));
+        }
+
+        logger.info('Combat action resolved', {
+            tokenId,
+            encounterId,
+            action,
+            round: encounter.round,
+            status: encounter.status
+        });
+
+        return result;
+    }
+
+    private async resolveCharacterAction(
+        encounter: CombatEncounter,
+        action: CombatActionType,
+        targetId: string | undefined,
+        events: CombatLogEntry[]
+    ): Promise<void> {
+        const character = encounter.character;
+
+        switch (action) {
+            case 'attack': {
+                const target = this.selectTarget(encounter, targetId);
+                const finesse = character.weaponFinesse && character.stats.dexterity > character.stats.strength;
+                this.resolveAttack(
+                    encounter,
+                    target,
+                    'attack',
+                    finesse ? 'dexterity' : 'strength',
+                    character.weaponDamage,
+                    character.weaponDamageType,
+                    character.attackBonus,
+                    events
+                );
+                break;
+            }
+            case 'defend':
+                character.defending = true;
+                events.push({
+                    round: encounter.round,
+                    actor: CHARACTER_ID,
+                    action: 'defend',
+                    message: `${character.name} takes a defensive stance (+${DEFEND_AC_BONUS} AC)`
+                });
+                break;
+            case 'use_ability': {
+                if (character.abilityUses <= 0) {
+                    throw this.invalidAction('No ability uses remaining in this encounter');
+                }
+
+                const ability = CLASS_ABILITIES[character.class];
+                if (!ability) {
+                    const serviceError = new ServiceError(`No class ability for ${character.class}`);
+                    serviceError.code = 'CLASS_ABILITY_NOT_FOUND';
+                    serviceError.statusCode = 500;
+                    throw serviceError;
+                }
+                character.abilityUses--;
+
+                if (ability.kind === 'heal') {
+                    const healing = this.heal(character, rollDice(ability.dice, this.random) + abilityModifier(character.stats[ability.stat]));
+                    events.push({
+                        round: encounter.round,
+                        actor: CHARACTER_ID,
+                        action: ability.name,
+                        healing,
+                        message: `${character.name} uses ${ability.name} and recovers ${healing} HP`
+                    });
+                } else {
+                    const target = this.selectTarget(encounter, targetId);
+                    this.resolveAttack(
+                        encounter,
+                        target,
+                        ability.name,
+                        ability.stat,
+                        ability.dice,
+                        ability.damageType || 'force',
+                        ability.attackBonus || 0,
+                        events
+                    );
+                }
+                break;
+            }
+            case 'use_item': {
+                if (character.potions <= 0) {
+                    throw this.invalidAction('No usable items remaining');
+                }
+
+                // Potions are real inventory items, so drinking one consumes it for good
+                await this.inventoryService.removeItem(encounter.tokenId, POTION_ITEM_ID);
+                character.potions--;
+                const healing = this.heal(character, rollDice(POTION_HEALING, this.random));
+                events.push({
+                    round: encounter.round,
+                    actor: CHARACTER_ID,
+                    action: 'Health Potion',
+                    healing,
+                    message: `${character.name} drinks a Health Potion and recovers ${healing} HP`
+                });
+                break;
+            }
+        }
+    }
+
+    private resolveAttack(
+        encounter: CombatEncounter,
+        target: EnemyCombatant,
+        actionName: string,
+        stat: keyof CharacterStats,
+        damageDice: string,
+        damageType: DamageType,
+        bonus: number,
+        events: CombatLogEntry[]
+    ): void {
+        const character = encounter.character;
+        const modifier = abilityModifier(character.stats[stat]);
+        const exploitsWeakness = target.vulnerableAbility === stat;
+        const roll = rollDie(20, this.random);
+        const critical = roll === 20;
+        const total = roll + modifier + proficiencyBonus(character.level) + bonus +
+            (exploitsWeakness ? VULNERABILITY_ATTACK_BONUS : 0);
+        const hit = critical || (roll !== 1 && total >= this.effectiveArmorClass(target));
+
+        if (!hit) {
+            events.push({
+                round: encounter.round,
+                actor: CHARACTER_ID,
+                action: actionName,
+                target: target.id,
+                roll: total,
+                hit: false,
+                message: `${character.name}'s ${actionName} misses the ${target.name}`
+            });
+            return;
+        }
+
+        let damage = Math.max(rollDice(damageDice, this.random, { critical }) + modifier, 1);
+        if (exploitsWeakness) {
+            damage = Math.floor(damage * VULNERABILITY_DAMAGE_MULTIPLIER);
+        }
+        if (target.resistances.includes(damageType)) {
+            damage = Math.max(Math.floor(damage / 2), 1);
+        }
+        target.hp = Math.max(target.hp - damage, 0);
+
+        events.push({
+            round: encounter.round,
+            actor: CHARACTER_ID,
+            action: actionName,
+            target: target.id,
+            roll: total,
+            hit: true,
+            critical,
+            damage,
+            message: target.hp === 0
+                ? `${character.name}'s ${actionName} deals ${damage} damage and slays the ${target.name}`
+                : `${character.name}'s ${actionName} deals ${damage} damage to the ${target.name}`
+        });
+    }
+
+    private runEnemyTurns(encounter: CombatEncounter, events: CombatLogEntry[]): void {
+        while (encounter.turnOrder[encounter.turnIndex] !== CHARACTER_ID && encounter.character.hp > 0) {
+            const enemy = encounter.enemies.find((e) => e.id === encounter.turnOrder[encounter.turnIndex]);
+            if (enemy && enemy.hp > 0) {
+                this.resolveEnemyAttack(encounter, enemy, events);
+            }
+            this.advanceTurn(encounter);
+        }
+    }
+
+    private resolveEnemyAttack(encounter: CombatEncounter, enemy: EnemyCombatant, events: CombatLogEntry[]): void {
+        const character = encounter.character;
+        const attack = enemy.attacks[Math.floor(this.random() * enemy.attacks.length)];
+        const roll = rollDie(20, this.random);
+        const critical = roll === 20;
+        const total = roll + attack.attackBonus;
+        const hit = critical || (roll !== 1 && total >= this.effectiveArmorClass(character));
+
+        if (!hit) {
+            events.push({
+                round: encounter.round,
+                actor: enemy.id,
+                action: attack.name,
+                target: CHARACTER_ID,
+                roll: total,
+                hit: false,
+                message: `The ${enemy.name}'s ${attack.name} misses ${character.name}`
+            });
+            return;
+        }
+
+        const damage = rollDice(attack.damage, this.random, { critical });
+        character.hp = Math.max(character.hp - damage, 0);
+
+        events.push({
+            round: encounter.round,
+            actor: enemy.id,
+            action: attack.name,
+            target: CHARACTER_ID,
+            roll: total,
+            hit: true,
+            critical,
+            damage,
+            message: `The ${enemy.name}'s ${attack.name} hits ${character.name} for ${damage} ${attack.damageType} damage`
+        });
+    }
+
+    private advanceTurn(encounter: CombatEncounter): void {
+        encounter.turnIndex++;
+        if (encounter.turnIndex >= encounter.turnOrder.length) {
+            encounter.turnIndex = 0;
+            encounter.round++;
+        }
+    }
+
+    private selectTarget(encounter: CombatEncounter, targetId?: string): EnemyCombatant {
+        const living = this.livingEnemies(encounter);
+
+        if (!targetId) {
+            return living[0];
+        }
+
+        const target = living.find((enemy) => enemy.id === targetId);
+        if (!target) {
+            throw this.invalidAction(`Invalid target: ${targetId}`);
+        }
+        return target;
+    }
+
+    private livingEnemies(encounter: CombatEncounter): EnemyCombatant[] {
+        return encounter.enemies.filter((enemy) => enemy.hp > 0);
+    }
+
+    private effectiveArmorClass(combatant: CharacterCombatant | EnemyCombatant): number {
+        return combatant.armorClass + (combatant.defending ? DEFEND_AC_BONUS : 0);
+    }
+
+    private heal(character: CharacterCombatant, amount: number): number {
+        const healed = Math.min(Math.max(amount, 1), character.maxHp - character.hp);
+        character.hp += healed;
+        return healed;
+    }
+
+    private createCharacterCombatant(
+        tokenId: number,
+        characterData: { class: CharacterClass; level: number },
+        loadout: EffectiveLoadout,
+        potions: number
+    ): CharacterCombatant {
+        const { level } = characterData;
+        const { stats, weapon } = loadout;
+        const constitutionModifier = abilityModifier(stats.constitution);
+
+        // d10 hit die: full die at level 1, then the average (6) per level
+        const maxHp = Math.max(10 + constitutionModifier + (level - 1) * (6 + constitutionModifier), level);
+
+        return {
+            id: CHARACTER_ID,
+            tokenId,
+            name: `Character #${tokenId}`,
+            class: characterData.class,
+            level,
+            stats,
+            hp: maxHp,
+            maxHp,
+            armorClass: 10 + abilityModifier(stats.dexterity) + loadout.armorClassBonus,
+            initiative: rollDie(20, this.random) + abilityModifier(stats.dexterity),
+            defending: false,
+            abilityUses: ABILITY_USES_PER_ENCOUNTER,
+            potions,
+            attackBonus: loadout.attackBonus,
+            // Unarmed, the baseline weapon follows whichever of strength or dexterity is higher
+            weaponDamage: weapon?.damage || WEAPON_DAMAGE,
+            weaponDamageType: weapon?.damageType || (stats.dexterity > stats.strength ? 'piercing' : 'slashing'),
+            weaponFinesse: weapon ? weapon.finesse === true : true
+        };
+    }
+
+    private createEnemyCombatant(monster: MonsterDefinition, index: number): EnemyCombatant {
+        return {
+            id: `${monster.id}-${index + 1}`,
+            type: monster.id,
+            name: monster.name,
+            challengeRating: monster.challengeRating,
+            hp: monster.hitPoints,
+            maxHp: monster.hitPoints,
+            armorClass: monster.armorClass,
+            attacks: monster.attacks,
+            resistances: monster.resistances,
+            vulnerableAbility: monster.vulnerableAbility,
+            experience: monster.experience,
+            lootTable: monster.lootTable,
+            initiative: rollDie(20, this.random) + monster.initiativeBonus,
+            defending: false
+        };
+    }
+
+    private calculateCombatExperience(encounter: CombatEncounter): number {
+        const baseXP = encounter.enemies.reduce((total, enemy) => total + enemy.experience, 0);
+
+        // Bonus for quick victories
+        const speedMultiplier = encounter.round <= 3 ? 1.2 : 1;
+
+        return Math.floor(baseXP * speedMultiplier);
+    }
+
+    private getNextActions(encounter: CombatEncounter): string[] {
+        if (encounter.status === 'victory') {
+            return ['collect_rewards', 'continue_exploration', 'rest'];
+        }
+        if (encounter.status === 'defeat') {
+            return ['rest'];
+        }
+
+        return [
+            'attack',
+            'defend',
+            ...(encounter.character.abilityUses > 0 ? ['use_ability'] : []),
+            ...(encounter.character.potions > 0 ? ['use_item'] : [])
+        ];
+    }
+
+    private invalidAction(message: string): ServiceError {
+        const serviceError = new ServiceError(message);
+        serviceError.code = 'INVALID_COMBAT_ACTION';
+        serviceError.statusCode = 400;
+        return serviceError;
+    }
+
+    private encounterKey(encounterId: string): string {
+        return `combat:${encounterId}`;
+    }
+
+    private victoryKey(encounterId: string): string {
+        return `combat:victory:${encounterId}`;
+    }
+
+    private activeKey(tokenId: number): string {
+        return `combat:active:${tokenId}`;
+    }
+}
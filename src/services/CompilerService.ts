@@ -23,7 +23,7 @@ export class CompilerService {
     }
   }
 
-  async compile(filePath: string, contractName: string): Promise<{ abi: any, bytecode: string }> {
+  async compile(filePath: string, contractName: string): Promise<CompilationResult> {
     try {
       const result = await CompilerService.compile(filePath, contractName);
       return result;
@@ -33,7 +33,7 @@ export class CompilerService {
     }
   }
 
-  static async compile(filePath: string, contractName: string): Promise<{ abi: any, bytecode: string }> {
+  static async compile(filePath: string, contractName: string): Promise<CompilationResult> {
     try {
       const source = fs.readFileSync(filePath, 'utf8');
       const fileName = path.basename(filePath);
@@ -85,6 +85,7 @@ export class CompilerService {
       return {
         abi: contract.abi,
         bytecode: contract.evm.bytecode.object,
+        compilerVersion: solc.version(),
       };
     } catch (error) {
       logger.error('Compilation failed', { 
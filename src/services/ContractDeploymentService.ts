@@ -4,7 +4,8 @@ import { ethers } from 'ethers';
 import { CompilerService } from './CompilerService';
 import { IWalletService, IContractService, ContractDeploymentResult, DeploymentInfo, ServiceError } from '../utils/types';
 import * as fs from 'fs';
-import * as path from 'path';
+import { getNetworkConfig, getProvider } from '../chain/network';
+import { contractSourcePath, hashAbi, recordDeployment } from '../chain/deployments';
 import logger from '../utils/Logger';
 import { Service, Inject } from 'typedi';
 
@@ -12,14 +13,11 @@ import { Service, Inject } from 'typedi';
 export class ContractDeploymentService implements IContractService {
   private contract: ethers.Contract | null = null;
   private contractAddress: string | null = null;
-  private readonly provider: ethers.JsonRpcProvider;
 
   constructor(
     @Inject('WALLET_SERVICE') private walletService: IWalletService
   ) {
-    const networkUrl = process.env.BASE_SEPOLIA_URL || 'https://sepolia.base.org';
-    this.provider = new ethers.JsonRpcProvider(networkUrl);
-    logger.debug('ContractDeploymentService initialized', { networkUrl });
+    logger.debug('ContractDeploymentService initialized', { networkUrl: getNetworkConfig().url });
   }
 
   async deployContract(): Promise<ContractDeploymentResult> {
@@ -30,16 +28,16 @@ export class ContractDeploymentService implements IContractService {
 
     try {
       logger.info('Starting contract deployment');
-      const contractPath = path.join(__dirname, '../../src/contracts/DnDCharacterNFT.sol');
+      const contractPath = contractSourcePath('DnDCharacterNFT');
       const source = fs.readFileSync(contractPath, 'utf8');
 
       logger.debug('Compiling contract', { contractPath });
-      const { abi, bytecode } = await CompilerService.compile(
+      const { abi, bytecode, compilerVersion } = await CompilerService.compile(
         contractPath,
         'DnDCharacterNFT'
       );
 
-      const signer = this.walletService.getEthersWallet().connect(this.provider);
+      const signer = await this.walletService.getSigner();
       const factory = new ethers.ContractFactory(abi, bytecode, signer);
       
       logger.info('Deploying contract to network');
@@ -47,6 +45,9 @@ export class ContractDeploymentService implements IContractService {
       await contract.waitForDeployment();
 
       const address = await contract.getAddress();
+      // Recorded so the event indexer knows where the contract's history begins
+      const receipt = await contract.deploymentTransaction()?.wait();
+      const { name: network, chainId } = getNetworkConfig();
       this.contractAddress = address;
       this.contract = contract as ethers.Contract;
 
@@ -55,8 +56,17 @@ export class ContractDeploymentService implements IContractService {
       const deploymentInfo: DeploymentInfo = {
         address,
         abi,
-        network: process.env.NETWORK || 'base-sepolia',
-        deploymentTime: new Date().toISOString()
+        network,
+        deploymentTime: new Date().toISOString(),
+        blockNumber: receipt?.blockNumber,
+        chainId,
+        contractName: 'DnDCharacterNFT',
+        transactionHash: receipt?.hash,
+        deployer: await signer.getAddress(),
+        abiHash: hashAbi(abi),
+        codeHash: ethers.keccak256(await getProvider().getCode(address)),
+        sourceHash: ethers.id(source),
+        compilerVersion
       };
 
       this.saveDeploymentInfo(deploymentInfo);
@@ -76,19 +86,8 @@ export class ContractDeploymentService implements IContractService {
 
   saveDeploymentInfo(info: DeploymentInfo): void {
     try {
-      const deploymentsPath = path.join(__dirname, '../../deployments');
-      if (!fs.existsSync(deploymentsPath)) {
-        fs.mkdirSync(deploymentsPath);
-        logger.debug('Created deployments directory');
-      }
-
-      fs.writeFileSync(
-        path.join(deploymentsPath, 'DnDCharacterNFT.json'),
-        JSON.stringify(info, null, 2)
-      );
-      logger.info('Deployment info saved successfully', {
-        path: 'deployments/DnDCharacterNFT.json'
-      });
+      const registryPath = recordDeployment(info.contractName || 'DnDCharacterNFT', info);
+      logger.info('Deployment info saved successfully', { path: registryPath });
     } catch (error) {
       logger.error('Failed to save deployment info', {
         error: error instanceof Error ? error.message : 'Unknown error'
@@ -0,0 +1,516 @@
+// src/services/ExperienceService.ts
+
+import {
+    ExperienceBatch,
+    ExperienceGrant,
+    IExperienceService,
+    IKeyValueStore,
+    ITransactionManager,
+    IWalletService,
+    ServiceError
+} from '../utils/types';
+import { Service, Inject } from 'typedi';
+import { Tokens } from '../utils/types';
+import { ethers } from 'ethers';
+import { randomUUID } from 'crypto';
+import { getActiveDeployment } from '../chain/deployments';
+import { getProvider } from '../chain/network';
+import { withStoreLock } from '../utils/storeLock';
+import logger from '../utils/Logger';
+
+const DEFAULT_FLUSH_INTERVAL_MS = 5 * 60 * 1000;
+const DEFAULT_FLUSH_THRESHOLD = 50;
+const DEFAULT_MAX_BATCH_GRANTS = 200;
+
+// Settled batches are kept for inspection this long
+const BATCH_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+// Collects experience grants off-chain and writes them in batches with the
+// contract's batchGainExperience
+@Service(Tokens.ExperienceService)
+export class ExperienceService implements IExperienceService {
+    private contractConfig: any;
+    private contractInterface: ethers.Interface | null = null;
+    private timer: NodeJS.Timeout | null = null;
+    // Shared by concurrent callers so grants are never in two batches at once
+    private flushing: Promise<ExperienceBatch | null> | null = null;
+
+    constructor(
+        @Inject(Tokens.WalletService) private walletService: IWalletService,
+        @Inject(Tokens.TransactionManager) private transactionManager: ITransactionManager,
+        @Inject(Tokens.Store) private store: IKeyValueStore,
+        private flushIntervalMs: number = Number(process.env.XP_FLUSH_INTERVAL_MS) || DEFAULT_FLUSH_INTERVAL_MS,
+        private flushThreshold: number = Number(process.env.XP_FLUSH_THRESHOLD) || DEFAULT_FLUSH_THRESHOLD,
+        private maxBatchGrants: number = Number(process.env.XP_BATCH_MAX_GRANTS) || DEFAULT_MAX_BATCH_GRANTS
+    ) {
+        try {
+            this.contractConfig = getActiveDeployment('DnDCharacterNFT');
+            this.contractInterface = new ethers.Interface(this.contractConfig.abi);
+        } catch (error) {
+            logger.warn('Contract configuration not loaded - deployment may be pending');
+            this.contractConfig = null;
+        }
+    }
+
+    async start(): Promise<void> {
+        if (this.timer || !this.contractConfig) {
+            return;
+        }
+        if (!this.isBatchSupported()) {
+            logger.warn('Contract has no batchGainExperience; experience is written per grant');
+            return;
+        }
+
+        const run = () => this.flush().catch((error) => {
+            logger.error('Experience flush failed', {
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+        });
+
+        const parked = await this.listParked();
+        if (parked.length > 0) {
+            logger.warn('Parked experience grants are waiting for a retry', {
+                grants: parked.length,
+                tokenIds: [...new Set(parked.map((grant) => grant.tokenId))]
+            });
+        }
+
+        // Settles batches interrupted by the last shutdown before new grants go out
+        await run();
+        this.timer = setInterval(run, this.flushIntervalMs);
+        logger.info('Experience flush scheduled', {
+            intervalMs: this.flushIntervalMs,
+            threshold: this.flushThreshold
+        });
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    async grant(tokenId: number, amount: number): Promise<ExperienceGrant> {
+        if (!Number.isInteger(amount) || amount <= 0) {
+            const serviceError = new ServiceError('Experience must be a positive whole number');
+            serviceError.code = 'INVALID_EXPERIENCE';
+            serviceError.statusCode = 400;
+            throw serviceError;
+        }
+
+        const grant: ExperienceGrant = {
+            id: randomUUID(),
+            tokenId,
+            amount,
+            createdAt: new Date().toISOString()
+        };
+
+        // Contracts deployed before the batch function get the grant right away
+        if (!this.isBatchSupported()) {
+            await this.walletService.invokeContract(
+                this.requireContractConfig().address,
+                'gainExperience',
+                [tokenId, amount],
+                this.contractConfig.abi
+            );
+            return grant;
+        }
+
+        // Indexed first, so a crash in between leaves an entry the next flush drops
+        // rather than a grant no flush can find
+        const grantKey = this.grantKey(tokenId, grant.id);
+        const pending = await withStoreLock(this.store, this.indexLock(), async () => {
+            const total = await this.updateIndex([tokenId], (keys) => [...keys, grantKey]);
+            await this.store.set(grantKey, grant);
+            return total;
+        });
+        if (pending >= this.flushThreshold) {
+            this.flush().catch((error) => {
+                logger.error('Experience flush failed', {
+                    error: error instanceof Error ? error.message : 'Unknown error'
+                });
+            });
+        }
+        return grant;
+    }
+
+    // Grants in an open batch are left out, since its transaction may already be
+    // counted in the on-chain experience
+    async getPendingExperience(tokenId: number): Promise<number> {
+        const inFlight = new Set<string>();
+        for (const batchId of await this.store.get<string[]>(this.openBatchesKey()) || []) {
+            const batch = await this.store.get<ExperienceBatch>(this.batchKey(batchId));
+            batch?.grantKeys.forEach((grantKey) => inFlight.add(grantKey));
+        }
+
+        const keys = (await this.store.get<string[]>(this.pendingKey(tokenId)) || []).filter((key) => !inFlight.has(key));
+        const grants = await Promise.all(keys.map((key) => this.store.get<ExperienceGrant>(key)));
+        return grants.reduce((total, grant) => total + (grant?.amount || 0), 0);
+    }
+
+    // Parked grants are rare and only listed by an admin, so a prefix scan is fine here
+    async listParked(): Promise<ExperienceGrant[]> {
+        const keys = await this.store.keys(this.parkedPrefix());
+        const grants = await Promise.all(keys.map((key) => this.store.get<ExperienceGrant>(key)));
+        return grants
+            .filter((grant): grant is ExperienceGrant => grant !== null)
+            .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    }
+
+    // Puts a token's parked grants back in line for the next flush, once
+    // whatever made it revert has been dealt with
+    async retryParked(tokenId: number): Promise<ExperienceGrant[]> {
+        const parkedKeys = await this.store.keys(this.parkedPrefix(tokenId));
+        const grants = (await Promise.all(parkedKeys.map((key) => this.store.get<ExperienceGrant>(key))))
+            .filter((grant): grant is ExperienceGrant => grant !== null);
+        if (grants.length === 0) {
+            const serviceError = new ServiceError(`No parked experience for token ${tokenId}`);
+            serviceError.code = 'PARKED_EXPERIENCE_NOT_FOUND';
+            serviceError.statusCode = 404;
+            throw serviceError;
+        }
+
+        // A grant keeps its key, so a retry cut short by a crash can simply be repeated
+        const grantKeys = grants.map((grant) => this.grantKey(tokenId, grant.id));
+        await withStoreLock(this.store, this.indexLock(), async () => {
+            await this.updateIndex([tokenId], (keys) => [...keys, ...grantKeys]);
+            for (const grant of grants) {
+                await this.store.set(this.grantKey(tokenId, grant.id), grant);
+            }
+        });
+        for (const key of parkedKeys) {
+            await this.store.delete(key);
+        }
+
+        logger.info('Parked experience grants released', { tokenId, grants: grants.length });
+        return grants;
+    }
+
+    flush(): Promise<ExperienceBatch | null> {
+        if (!this.flushing) {
+            this.flushing = this.runFlush().finally(() => {
+                this.flushing = null;
+            });
+        }
+        return this.flushing;
+    }
+
+    private async runFlush(): Promise<ExperienceBatch | null> {
+        if (!this.isBatchSupported()) {
+            return null;
+        }
+        const config = this.requireContractConfig();
+
+        // Grants in a batch whose transaction may still land must not be sent twice
+        const locked = await this.settleOpenBatches();
+        const counts = await this.store.get<Record<string, number>>(this.pendingTokensKey()) || {};
+
+        const grantKeys: string[] = [];
+        const missing = new Map<number, string[]>();
+        const totals = new Map<number, number>();
+        for (const tokenId of Object.keys(counts).map(Number)) {
+            for (const key of await this.store.get<string[]>(this.pendingKey(tokenId)) || []) {
+                if (locked.has(key) || grantKeys.length >= this.maxBatchGrants) {
+                    continue;
+                }
+                const grant = await this.store.get<ExperienceGrant>(key);
+                if (grant) {
+                    grantKeys.push(key);
+                    totals.set(tokenId, (totals.get(tokenId) || 0) + grant.amount);
+                } else {
+                    missing.set(tokenId, [...missing.get(tokenId) || [], key]);
+                }
+            }
+        }
+        if (missing.size > 0) {
+            await this.dropMissingGrants(missing);
+        }
+        if (grantKeys.length === 0) {
+            return null;
+        }
+
+        const tokenIds = [...totals.keys()];
+        const amounts = tokenIds.map((tokenId) => totals.get(tokenId)!);
+        const now = new Date().toISOString();
+        let batch: ExperienceBatch = {
+            id: randomUUID(),
+            grantKeys,
+            totals: tokenIds.map((tokenId, index) => ({ tokenId, amount: amounts[index] })),
+            calldata: this.contractInterface!.encodeFunctionData('batchGainExperience', [tokenIds, amounts]),
+            startBlock: await getProvider().getBlockNumber(),
+            status: 'submitting',
+            createdAt: now,
+            updatedAt: now
+        };
+
+        // Recorded before sending, so a crash mid-flush leaves a trail to settle from
+        await this.store.set(this.batchKey(batch.id), batch);
+        await this.updateOpenBatches((batchIds) => [...batchIds, batch.id]);
+
+        try {
+            const result = await this.walletService.invokeContract(
+                config.address,
+                'batchGainExperience',
+                [tokenIds, amounts],
+                config.abi,
+                { operation: this.operation(batch.id) }
+            );
+            batch = await this.completeBatch(batch, result.hash!);
+            logger.info('Experience flushed', {
+                batchId: batch.id,
+                grants: grantKeys.length,
+                tokens: tokenIds.length,
+                transactionHash: batch.transactionHash
+            });
+            return batch;
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            // A timed-out transaction may still be mined; the next flush settles it
+            if ((error as ServiceError).code !== 'TRANSACTION_TIMEOUT') {
+                if (this.isRevert(error)) {
+                    await this.parkRevertingGrants(batch);
+                }
+                await this.releaseBatch(batch, message);
+            }
+            const serviceError = new ServiceError(`Failed to flush experience: ${message}`);
+            serviceError.code = 'EXPERIENCE_FLUSH_FAILED';
+            serviceError.statusCode = 502;
+            throw serviceError;
+        }
+    }
+
+    // Completes or releases every batch still marked open, and returns the grant
+    // keys of those whose outcome isn't known yet
+    private async settleOpenBatches(): Promise<Set<string>> {
+        const locked = new Set<string>();
+
+        for (const batchId of await this.store.get<string[]>(this.openBatchesKey()) || []) {
+            const batch = await this.store.get<ExperienceBatch>(this.batchKey(batchId));
+            if (!batch) {
+                await this.updateOpenBatches((batchIds) => batchIds.filter((id) => id !== batchId));
+                continue;
+            }
+
+            const transactions = await this.transactionManager.getTransactionsByOperation(this.operation(batch.id));
+            const confirmed = transactions.find((transaction) => transaction.status === 'confirmed');
+            const mined = confirmed?.hash || await this.findBatchTransaction(batch);
+
+            if (mined) {
+                await this.completeBatch(batch, mined);
+                logger.info('Recovered flushed experience batch', { batchId: batch.id, transactionHash: mined });
+            } else if (transactions.some((transaction) => transaction.status === 'pending')) {
+                batch.grantKeys.forEach((grantKey) => locked.add(grantKey));
+            } else if (transactions.some((transaction) => transaction.status === 'failed' && transaction.blockNumber !== undefined)) {
+                await this.parkRevertingGrants(batch);
+                await this.releaseBatch(batch, 'Batch transaction reverted');
+            } else {
+                await this.releaseBatch(batch, 'Batch transaction was not mined');
+            }
+        }
+        return locked;
+    }
+
+    // Looks for the batch's exact calldata among transactions that emitted
+    // ExperienceGained since the batch was created
+    private async findBatchTransaction(batch: ExperienceBatch): Promise<string | null> {
+        const provider = getProvider();
+        const logs = await provider.getLogs({
+            address: this.contractConfig.address,
+            topics: [this.contractInterface!.getEvent('ExperienceGained')!.topicHash],
+            fromBlock: batch.startBlock
+        });
+
+        for (const hash of new Set(logs.map((log) => log.transactionHash))) {
+            const transaction = await provider.getTransaction(hash);
+            if (transaction?.data === batch.calldata) {
+                return hash;
+            }
+        }
+        return null;
+    }
+
+    private async completeBatch(batch: ExperienceBatch, transactionHash: string): Promise<ExperienceBatch> {
+        // Unindexed first, so a crash midway can't put an applied grant in another batch
+        const applied = new Set(batch.grantKeys);
+        await withStoreLock(this.store, this.indexLock(), () => this.updateIndex(
+            batch.totals.map(({ tokenId }) => tokenId),
+            (keys) => keys.filter((key) => !applied.has(key))
+        ));
+        for (const grantKey of batch.grantKeys) {
+            await this.store.delete(grantKey);
+        }
+
+        const completed: ExperienceBatch = {
+            ...batch,
+            status: 'confirmed',
+            transactionHash,
+            updatedAt: new Date().toISOString()
+        };
+        await this.store.set(this.batchKey(batch.id), completed, BATCH_TTL_SECONDS);
+        // Cleared last, so a crash before this point settles the batch again
+        await this.updateOpenBatches((batchIds) => batchIds.filter((id) => id !== batch.id));
+        return completed;
+    }
+
+    // One token that can no longer take experience (burned, say) reverts the
+    // whole batch. Each token is tried alone, and the grants of those that
+    // revert are parked so the rest can go out with the next flush.
+    private async parkRevertingGrants(batch: ExperienceBatch): Promise<void> {
+        const from = await this.walletService.getBackendAddress();
+        const reverting = new Set<number>();
+
+        for (const { tokenId, amount } of batch.totals) {
+            try {
+                await getProvider().estimateGas({
+                    from,
+                    to: this.contractConfig.address,
+                    data: this.contractInterface!.encodeFunctionData('batchGainExperience', [[tokenId], [amount]])
+                });
+            } catch (error) {
+                // Anything but a revert is left for the next flush to retry
+                if (ethers.isError(error, 'CALL_EXCEPTION')) {
+                    reverting.add(tokenId);
+                }
+            }
+        }
+
+        // Parked before it is unindexed, so a crash in between only parks it again
+        const parked = new Set<string>();
+        for (const grantKey of batch.grantKeys) {
+            const grant = await this.store.get<ExperienceGrant>(grantKey);
+            if (grant && reverting.has(grant.tokenId)) {
+                await this.store.set(this.parkedKey(grant.tokenId, grant.id), grant);
+                parked.add(grantKey);
+            }
+        }
+        if (parked.size === 0) {
+            return;
+        }
+
+        await withStoreLock(this.store, this.indexLock(), () => this.updateIndex(
+            [...reverting],
+            (keys) => keys.filter((key) => !parked.has(key))
+        ));
+        for (const grantKey of parked) {
+            await this.store.delete(grantKey);
+        }
+
+        logger.warn('Experience grants parked for tokens that revert', {
+            batchId: batch.id,
+            tokenIds: [...reverting],
+            grants: parked.size
+        });
+    }
+
+    private isRevert(error: unknown): boolean {
+        return (error as ServiceError).code === 'CONTRACT_CALL_REVERTED' || ethers.isError(error, 'CALL_EXCEPTION');
+    }
+
+    // The batch's grants stay pending and go out with the next flush
+    private async releaseBatch(batch: ExperienceBatch, error: string): Promise<void> {
+        await this.store.set(this.batchKey(batch.id), {
+            ...batch,
+            status: 'failed',
+            error,
+            updatedAt: new Date().toISOString()
+        }, BATCH_TTL_SECONDS);
+        await this.updateOpenBatches((batchIds) => batchIds.filter((id) => id !== batch.id));
+        logger.warn('Experience batch released', { batchId: batch.id, error });
+    }
+
+    // Pending grants are indexed per token, with a count per token alongside,
+    // so neither a grant nor a flush has to scan the store. Callers hold the
+    // index lock; the total count of pending grants is returned.
+    private async updateIndex(tokenIds: number[], update: (keys: string[]) => string[]): Promise<number> {
+        const counts = await this.store.get<Record<string, number>>(this.pendingTokensKey()) || {};
+
+        for (const tokenId of tokenIds) {
+            const keys = [...new Set(update(await this.store.get<string[]>(this.pendingKey(tokenId)) || []))];
+            if (keys.length > 0) {
+                await this.store.set(this.pendingKey(tokenId), keys);
+                counts[tokenId] = keys.length;
+            } else {
+                await this.store.delete(this.pendingKey(tokenId));
+                delete counts[tokenId];
+            }
+        }
+
+        await this.store.set(this.pendingTokensKey(), counts);
+        return Object.values(counts).reduce((total, count) => total + count, 0);
+    }
+
+    // Entries left by a crash between indexing a grant and writing it. They are
+    // checked again under the lock, since a grant being written looks the same.
+    private async dropMissingGrants(missing: Map<number, string[]>): Promise<void> {
+        await withStoreLock(this.store, this.indexLock(), async () => {
+            for (const [tokenId, keys] of missing) {
+                const absent = new Set<string>();
+                for (const key of keys) {
+                    if (!await this.store.get<ExperienceGrant>(key)) {
+                        absent.add(key);
+                    }
+                }
+                await this.updateIndex([tokenId], (indexed) => indexed.filter((key) => !absent.has(key)));
+            }
+        });
+    }
+
+    private updateOpenBatches(update: (batchIds: string[]) => string[]): Promise<void> {
+        return withStoreLock(this.store, this.indexLock(), async () => {
+            const batchIds = update(await this.store.get<string[]>(this.openBatchesKey()) || []);
+            await this.store.set(this.openBatchesKey(), batchIds);
+        });
+    }
+
+    private isBatchSupported(): boolean {
+        return this.contractInterface?.getFunction('batchGainExperience') != null;
+    }
+
+    private requireContractConfig(): any {
+        if (!this.contractConfig) {
+            const serviceError = new ServiceError('Contract configuration not loaded');
+            serviceError.code = 'CONTRACT_NOT_CONFIGURED';
+            serviceError.statusCode = 503;
+            throw serviceError;
+        }
+        return this.contractConfig;
+    }
+
+    private operation(batchId: string): string {
+        return `xp-batch:${batchId}`;
+    }
+
+    private grantKey(tokenId: number, grantId: string): string {
+        return `xp:grant:${tokenId}:${grantId}`;
+    }
+
+    private indexLock(): string {
+        return 'xp:index';
+    }
+
+    private pendingKey(tokenId: number): string {
+        return `xp:pending:${tokenId}`;
+    }
+
+    private pendingTokensKey(): string {
+        return 'xp:pending-tokens';
+    }
+
+    // The trailing colon keeps token 1's grants apart from token 12's
+    private parkedPrefix(tokenId?: number): string {
+        return tokenId === undefined ? 'xp:parked:' : `xp:parked:${tokenId}:`;
+    }
+
+    private parkedKey(tokenId: number, grantId: string): string {
+        return `${this.parkedPrefix(tokenId)}${grantId}`;
+    }
+
+    private batchKey(batchId: string): string {
+        return `xp:batch:${batchId}`;
+    }
+
+    private openBatchesKey(): string {
+        return 'xp:open-batches';
+    }
+}
@@ -4,35 +4,96 @@ import {
     IAIService, 
     ICharacterService,
     GameMasterResponse,
-    CharacterStats,
+    CombatActionResult,
+    CombatActionType,
+    CombatEncounter,
+    EncounterDifficulty,
+    ICombatService,
+    IInventoryService,
+    ILedgerService,
+    ISeasonService,
+    ILootService,
+    AdventureSession,
+    QuestCompletion,
+    Questline,
     ServiceError,
-    IGameService
+    IGameService,
+    ISessionService
 } from '../utils/types';
 import { Service, Inject } from 'typedi';
 import { Tokens } from '../utils/types';
+import { randomUUID } from 'crypto';
+
+// Gold and experience amounts come from the model, so they are capped by
+// character level (the contract levels up every 1000 XP)
+const MAX_ACTION_GOLD_PER_LEVEL = 10;
+const MAX_QUEST_GOLD_PER_LEVEL = 50;
+const MAX_ACTION_EXPERIENCE_PER_LEVEL = 50;
+const MAX_QUEST_EXPERIENCE_PER_LEVEL = 250;
 
 @Service(Tokens.GameService)
 export class GameService implements IGameService {
     constructor(
         @Inject(Tokens.CharacterService) private characterService: ICharacterService,
-        @Inject(Tokens.AIService) private aiService: IAIService
+        @Inject(Tokens.AIService) private aiService: IAIService,
+        @Inject(Tokens.SessionService) private sessionService: ISessionService,
+        @Inject(Tokens.CombatService) private combatService: ICombatService,
+        @Inject(Tokens.LootService) private lootService: ILootService,
+        @Inject(Tokens.InventoryService) private inventoryService: IInventoryService,
+        @Inject(Tokens.LedgerService) private ledgerService: ILedgerService,
+        @Inject(Tokens.SeasonService) private seasonService: ISeasonService
     ) {}
 
     async processAction(action: string, context: any): Promise<GameMasterResponse> {
         // Delegate to appropriate method based on action type
         if (context.questId) {
             return this.processQuestAction(context.tokenId, context.questId, action, context);
-        } else if (context.combatState) {
-            const result = await this.processCombatAction(context.tokenId, action, context.combatState);
+        } else if (context.encounterId) {
+            const result = await this.processCombatAction(context.tokenId, context.encounterId, action, context.targetId);
             return {
-                description: `Combat result: ${result.outcome}`,
+                description: result.events.map((event) => event.message).join('. ') || `Combat result: ${result.outcome}`,
                 outcome: result.outcome === 'victory' ? 'success' : result.outcome === 'defeat' ? 'failure' : 'partial',
                 experience: result.experienceGained || 0,
-                rewards: result.rewards,
+                rewards: result.rewards && {
+                    gold: result.rewards.gold,
+                    items: result.rewards.items.map((item) => item.name)
+                },
                 nextOptions: result.nextActions
             };
         }
-        throw new ServiceError('Invalid action context');
+        const serviceError = new ServiceError('Invalid action context: questId or encounterId is required');
+        serviceError.code = 'INVALID_ACTION_CONTEXT';
+        serviceError.statusCode = 400;
+        throw serviceError;
+    }
+
+    async startQuest(
+        tokenId: number,
+        theme?: string,
+        length: 'short' | 'medium' | 'long' = 'short'
+    ): Promise<Questline & { questId: string; sessionId: string }> {
+        try {
+            const character = await this.characterService.getCharacter(tokenId);
+            const questline = await this.aiService.generateQuestline(character.level, theme, length);
+            const questId = randomUUID();
+
+            const session = await this.sessionService.startSession(tokenId, {
+                questId,
+                quest: questline
+            });
+
+            return {
+                questId,
+                sessionId: session.id,
+                ...questline
+            };
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            const serviceError = new ServiceError(`Failed to start quest: ${message}`);
+            serviceError.code = 'QUEST_START_FAILED';
+            serviceError.statusCode = 500;
+            throw serviceError;
+        }
     }
 
     async processQuestAction(
@@ -40,14 +101,30 @@ export class GameService implements IGameService {
         questId: string,
         action: string,
         context: {
-            currentScene: string;
-            questProgress: number;
-        }
+            currentScene?: string;
+        } = {}
     ): Promise<GameMasterResponse> {
         try {
             // Get character data
             const character = await this.characterService.getCharacter(tokenId);
 
+            // Switching quests goes through startQuest; an action naming another
+            // quest must not end the one being played
+            const active = await this.sessionService.getActiveSession(tokenId);
+            if (active && active.questId !== questId) {
+                const serviceError = new ServiceError(`Quest ${questId} is not the character's active quest`);
+                serviceError.code = 'QUEST_NOT_ACTIVE';
+                serviceError.statusCode = 409;
+                throw serviceError;
+            }
+
+            // Resume the quest's session, or open one using the client scene as the opening
+            const session = await this.sessionService.startSession(tokenId, {
+                questId,
+                scene: context.currentScene
+            });
+            const { sessionHistory, currentScene } = this.sessionService.buildPromptContext(session);
+
             // Process the action through AI
             const result = await this.aiService.processGameAction(action, {
                 character: {
@@ -55,19 +132,66 @@ export class GameService implements IGameService {
                     level: character.level,
                     stats: character.stats
                 },
-                currentScene: context.currentScene
+                sessionHistory,
+                currentScene
             });
 
             // If action was successful, grant experience
-            if (result.outcome === 'success' || result.outcome === 'partial') {
+            let experienceGranted = 0;
+            result.experience = this.clampReward(result.experience, character.level * MAX_ACTION_EXPERIENCE_PER_LEVEL);
+            if ((result.outcome === 'success' || result.outcome === 'partial') && result.experience > 0) {
                 await this.characterService.gainExperience(
                     tokenId,
                     result.experience
                 );
+                experienceGranted = result.experience;
+                await this.seasonService.recordActivity(tokenId, { experience: experienceGranted });
+            }
+
+            // Keep any narrated item rewards that match the catalog
+            if (result.rewards?.items?.length) {
+                await this.inventoryService.addItemsByName(tokenId, result.rewards.items);
+            }
+
+            // Gold is only paid out for actions that didn't fail, like experience
+            const timestamp = new Date().toISOString();
+            const gold = this.clampReward(result.rewards?.gold, character.level * MAX_ACTION_GOLD_PER_LEVEL);
+            if (result.rewards) {
+                result.rewards.gold = gold;
+            }
+            if (result.outcome !== 'failure' && gold > 0) {
+                // Keyed by the turn being recorded, so a retried turn isn't paid twice
+                await this.ledgerService.credit(tokenId, gold, {
+                    reason: 'Quest action reward',
+                    source: { type: 'session', id: session.id },
+                    rewardKey: `session:${session.id}:turn:${session.turns.length}`
+                });
+            }
+
+            const updatedSession = await this.sessionService.recordTurn(session.id, {
+                action,
+                response: result.description,
+                outcome: result.outcome,
+                experience: experienceGranted,
+                rewards: result.rewards,
+                timestamp
+            }, result.description);
+
+            if (
+                updatedSession.quest &&
+                !updatedSession.questCompletion &&
+                updatedSession.questProgress >= updatedSession.quest.objectives.length
+            ) {
+                const questCompleted = await this.completeQuest(updatedSession, character.level);
+                return { ...result, questCompleted };
             }
 
             return result;
         } catch (error) {
+            // Client mistakes (inactive quest, unknown character) keep their own code
+            if (error instanceof ServiceError && error.statusCode < 500) {
+                throw error;
+            }
             const message = error instanceof Error ? error.message : 'Unknown error';
             const serviceError = new ServiceError(`Failed to process quest action: ${message}`);
             serviceError.code = 'QUEST_ACTION_FAILED';
@@ -76,141 +200,104 @@ export class GameService implements IGameService {
         }
     }
 
-    async processCombatAction(
-        tokenId: number,
-        action: string,
-        combatState: {
-            enemyType: string;
-            enemyHealth: number;
-            round: number;
+    private async completeQuest(session: AdventureSession, characterLevel: number): Promise<QuestCompletion> {
+        const quest = session.quest!;
+        const questId = session.questId || session.id;
+
+        // Seeded by quest id so a retried completion rolls the same rewards
+        const loot = this.lootService.generateQuestLoot({
+            characterLevel,
+            seed: questId,
+            suggestedItems: quest.rewards.items
+        });
+        // Gold promised by the questline is paid on top of the rolled loot
+        loot.gold += this.clampReward(quest.rewards.gold, characterLevel * MAX_QUEST_GOLD_PER_LEVEL);
+
+        const experience = this.clampReward(quest.rewards.experience, characterLevel * MAX_QUEST_EXPERIENCE_PER_LEVEL);
+        const { completion, claimed } = await this.sessionService.completeQuest(session.id, {
+            questId,
+            experience,
+            loot,
+            completedAt: new Date().toISOString()
+        });
+        if (!claimed) {
+            return completion;
         }
-    ): Promise<{
-        outcome: 'hit' | 'miss' | 'victory' | 'defeat';
-        damage?: number;
-        experienceGained?: number;
-        rewards?: {
-            items?: string[];
-            gold?: number;
-        };
-        nextActions: string[];
-    }> {
-        try {
-            const character = await this.characterService.getCharacter(tokenId);
 
-            // Calculate hit chance based on stats and enemy type
-            const hitChance = this.calculateHitChance(character.stats, combatState.enemyType);
-            const roll = Math.random() * 100;
-
-            if (roll <= hitChance) {
-                // Calculate damage
-                const damage = this.calculateDamage(character.stats, combatState.enemyType);
-                const newEnemyHealth = combatState.enemyHealth - damage;
-
-                // Check for victory
-                if (newEnemyHealth <= 0) {
-                    const experience = this.calculateCombatExperience(combatState.enemyType, combatState.round);
-                    await this.characterService.gainExperience(tokenId, experience);
-
-                    return {
-                        outcome: 'victory',
-                        damage,
-                        experienceGained: experience,
-                        rewards: this.generateCombatRewards(combatState.enemyType),
-                        nextActions: ['collect_rewards', 'continue_exploration', 'rest']
-                    };
-                }
-
-                return {
-                    outcome: 'hit',
-                    damage,
-                    nextActions: ['attack', 'defend', 'use_ability', 'use_item']
-                };
-            }
+        if (experience > 0) {
+            await this.characterService.gainExperience(session.tokenId, experience);
+        }
+        await this.seasonService.recordActivity(session.tokenId, { experience, questsCompleted: 1 });
+        await this.inventoryService.addItems(session.tokenId, loot.items);
+        if (loot.gold > 0) {
+            await this.ledgerService.credit(session.tokenId, loot.gold, {
+                reason: `Completed quest: ${quest.title}`,
+                source: { type: 'quest', id: questId },
+                rewardKey: `quest:${questId}`
+            });
+        }
 
-            return {
-                outcome: 'miss',
-                nextActions: ['attack', 'defend', 'use_ability', 'use_item']
-            };
+        return completion;
+    }
 
+    async startCombat(
+        tokenId: number,
+        difficulty: EncounterDifficulty = 'medium',
+        monsterIds?: string[]
+    ): Promise<CombatEncounter> {
+        try {
+            return await this.combatService.startEncounter(tokenId, difficulty, monsterIds);
         } catch (error) {
+            if (error instanceof ServiceError && error.statusCode < 500) {
+                throw error;
+            }
             const message = error instanceof Error ? error.message : 'Unknown error';
-            const serviceError = new ServiceError(`Failed to process combat action: ${message}`);
-            serviceError.code = 'COMBAT_ACTION_FAILED';
+            const serviceError = new ServiceError(`Failed to start combat: ${message}`);
+            serviceError.code = 'COMBAT_START_FAILED';
             serviceError.statusCode = 500;
             throw serviceError;
         }
     }
 
-    private calculateHitChance(stats: CharacterStats, enemyType: string): number {
-        // Base hit chance of 60%
-        let hitChance = 60;
-
-        // Add bonus based on relevant stats
-        switch (enemyType) {
-            case 'agile':
-                hitChance += (stats.dexterity - 10) * 2;
-                break;
-            case 'magical':
-                hitChance += (stats.intelligence - 10) * 2;
-                break;
-            default:
-                hitChance += (stats.strength - 10) * 2;
-        }
+    async processCombatAction(
+        tokenId: number,
+        encounterId: string,
+        action: string,
+        targetId?: string
+    ): Promise<CombatActionResult> {
+        try {
+            const result = await this.combatService.takeAction(
+                tokenId,
+                encounterId,
+                action as CombatActionType,
+                targetId
+            );
 
-        // Ensure hit chance stays within reasonable bounds
-        return Math.min(Math.max(hitChance, 20), 95);
-    }
+            // A victory raced by another final blow comes back as the recorded
+            // result, so it is keyed to count once
+            if (result.outcome === 'victory' && result.experienceGained) {
+                await this.seasonService.recordActivity(
+                    tokenId,
+                    { experience: result.experienceGained },
+                    `combat:${result.encounterId}`
+                );
+            }
 
-    private calculateDamage(stats: CharacterStats, enemyType: string): number {
-        // Base damage
-        let damage = 5;
-
-        // Add stat-based bonus
-        switch (enemyType) {
-            case 'agile':
-                damage += Math.floor(stats.dexterity / 2);
-                break;
-            case 'magical':
-                damage += Math.floor(stats.intelligence / 2);
-                break;
-            default:
-                damage += Math.floor(stats.strength / 2);
+            return result;
+        } catch (error) {
+            // Client mistakes (unknown encounter, invalid action) keep their own code
+            if (error instanceof ServiceError && error.statusCode < 500) {
+                throw error;
+            }
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            const serviceError = new ServiceError(`Failed to process combat action: ${message}`);
+            serviceError.code = 'COMBAT_ACTION_FAILED';
+            serviceError.statusCode = 500;
+            throw serviceError;
         }
-
-        // Add random variance
-        damage += Math.floor(Math.random() * 4);
-
-        return damage;
-    }
-
-    private calculateCombatExperience(enemyType: string, rounds: number): number {
-        const baseXP = {
-            'weak': 50,
-            'normal': 100,
-            'elite': 200,
-            'boss': 500
-        }[enemyType] || 100;
-
-        // Bonus for quick victories
-        const speedMultiplier = rounds <= 3 ? 1.2 : 1;
-
-        return Math.floor(baseXP * speedMultiplier);
     }
 
-    private generateCombatRewards(enemyType: string): {
-        items?: string[];
-        gold?: number;
-    } {
-        const gold = Math.floor(Math.random() * 100) + 50;
-
-        // 20% chance for item drop
-        if (Math.random() < 0.2) {
-            return {
-                gold,
-                items: ['Health Potion'] // You'd want a proper loot table system
-            };
-        }
-
-        return { gold };
+    private clampReward(amount: number | undefined, max: number): number {
+        return Math.min(Math.max(Math.floor(amount || 0), 0), max);
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,611 @@
+// src/services/IndexerService.ts
+
+import {
+    CharacterStats,
+    CharacterUpdate,
+    IIndexerService,
+    IKeyValueStore,
+    IndexedCharacter,
+    IndexerCheckpoint,
+    IndexerStatus,
+    ServiceError
+} from '../utils/types';
+import { Service, Inject } from 'typedi';
+import { Tokens } from '../utils/types';
+import { ethers } from 'ethers';
+import { EventEmitter } from 'events';
+import { getProvider } from '../chain/network';
+import { getActiveDeployment } from '../chain/deployments';
+import logger from '../utils/Logger';
+
+// What it takes to revert one processed batch: the prior state of every
+// token it touched, and the season before any SeasonAdvanced in it
+type UndoRecord =
+    | { tokenId: number; previous: IndexedCharacter | null }
+    | { season: number | null };
+
+// Journal of the range being indexed, written ahead of every projection write
+// so a range cut short by a crash can be rolled back before it is indexed again
+interface PartialRange {
+    fromBlock: number;
+    undo: UndoRecord[];
+}
+
+// An optimistic write, journaled with the batch that indexes its block
+interface OptimisticWrite {
+    blockNumber: number;
+    undo: UndoRecord;
+}
+
+const DEFAULT_CONFIRMATIONS = 5;
+const DEFAULT_BATCH_SIZE = 2000;
+const DEFAULT_POLL_INTERVAL_MS = 15000;
+// Checkpoints (and their undo journals) kept for reorg recovery
+const MAX_CHECKPOINTS = 64;
+
+const INDEXED_EVENTS = [
+    'Transfer',
+    'CharacterMinted',
+    'LevelUp',
+    'ExperienceGained',
+    'CharacterEvolved',
+    'SeasonAdvanced'
+];
+
+@Service(Tokens.IndexerService)
+export class IndexerService implements IIndexerService {
+    private contractConfig: any;
+    private readonly provider: ethers.JsonRpcProvider;
+    private readonly contractInterface: ethers.Interface | null = null;
+    // Resolved on the first sync when only the deploy transaction is known
+    private startBlock: number | null;
+    private readonly confirmations: number;
+    private readonly batchSize: number;
+    private readonly pollIntervalMs: number;
+    private timer: NodeJS.Timeout | null = null;
+    private syncing: Promise<IndexerCheckpoint | null> | null = null;
+    // Syncs and optimistic writes touch the projection one at a time, so
+    // every undo record is journaled in the order it was written
+    private writing: Promise<unknown> = Promise.resolve();
+    private caughtUp = false;
+    private readonly events = new EventEmitter();
+
+    constructor(
+        @Inject(Tokens.Store) private store: IKeyValueStore
+    ) {
+        try {
+            this.contractConfig = getActiveDeployment('DnDCharacterNFT');
+            this.contractInterface = new ethers.Interface(this.contractConfig.abi);
+        } catch (error) {
+            logger.warn('Contract configuration not loaded - deployment may be pending');
+            this.contractConfig = null;
+        }
+
+        this.provider = getProvider();
+        this.startBlock = process.env.INDEXER_START_BLOCK !== undefined
+            ? Number(process.env.INDEXER_START_BLOCK)
+            : this.contractConfig?.blockNumber ?? null;
+        // Crawling from genesis on every fresh store would scan the whole chain
+        if (this.contractConfig && this.startBlock === null && !this.contractConfig.transactionHash) {
+            const serviceError = new ServiceError(
+                `Deployment at ${this.contractConfig.address} has no recorded block; set INDEXER_START_BLOCK to the block it was deployed in`
+            );
+            serviceError.code = 'INDEXER_START_BLOCK_REQUIRED';
+            serviceError.statusCode = 500;
+            throw serviceError;
+        }
+        this.confirmations = Number(process.env.INDEXER_CONFIRMATIONS ?? DEFAULT_CONFIRMATIONS);
+        this.batchSize = Number(process.env.INDEXER_BATCH_SIZE) || DEFAULT_BATCH_SIZE;
+        this.pollIntervalMs = Number(process.env.INDEXER_POLL_INTERVAL_MS) || DEFAULT_POLL_INTERVAL_MS;
+    }
+
+    start(): void {
+        if (this.timer || !this.contractConfig) {
+            return;
+        }
+
+        const run = () => this.sync().catch((error) => {
+            logger.error('Indexer sync failed', {
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+        });
+
+        run();
+        this.timer = setInterval(run, this.pollIntervalMs);
+        logger.info('Event indexer started', {
+            startBlock: this.startBlock,
+            confirmations: this.confirmations,
+            pollIntervalMs: this.pollIntervalMs
+        });
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    sync(): Promise<IndexerCheckpoint | null> {
+        if (!this.syncing) {
+            this.syncing = this.exclusive(() => this.runSync()).finally(() => {
+                this.syncing = null;
+            });
+        }
+        return this.syncing;
+    }
+
+    async getStatus(): Promise<IndexerStatus> {
+        return {
+            startBlock: this.startBlock,
+            confirmations: this.confirmations,
+            cursor: await this.store.get<IndexerCheckpoint>(this.cursorKey()),
+            currentSeason: await this.store.get<number>(this.seasonKey()),
+            synced: this.caughtUp
+        };
+    }
+
+    async getCharacter(tokenId: number): Promise<IndexedCharacter | null> {
+        return this.store.get<IndexedCharacter>(this.tokenKey(tokenId));
+    }
+
+    async listCharacters(): Promise<IndexedCharacter[]> {
+        const keys = await this.store.keys(this.tokenKey());
+        const characters = await Promise.all(keys.map((key) => this.store.get<IndexedCharacter>(key)));
+        return characters.filter((character): character is IndexedCharacter => character !== null);
+    }
+
+    async getCharactersByOwner(owner: string): Promise<IndexedCharacter[]> {
+        const tokenIds = await this.store.get<number[]>(this.ownerKey(owner)) || [];
+        const characters = await Promise.all(tokenIds.map((tokenId) => this.getCharacter(tokenId)));
+        return characters.filter((character): character is IndexedCharacter => character !== null);
+    }
+
+    async applyTransfer(tokenId: number, to: string, blockNumber: number): Promise<void> {
+        // Optimistic update for transfers the backend has seen confirmed; the
+        // Transfer log is still projected normally once it is deep enough
+        return this.exclusive(async () => {
+            const cursor = await this.store.get<IndexerCheckpoint>(this.cursorKey());
+            const current = await this.getCharacter(tokenId);
+            if (!current || (cursor && cursor.blockNumber >= blockNumber)) {
+                return;
+            }
+
+            // Journaled so rolling back the batch that indexes this block undoes it too
+            const optimistic = await this.store.get<OptimisticWrite[]>(this.optimisticKey()) || [];
+            optimistic.push({ blockNumber, undo: { tokenId, previous: current } });
+            await this.store.set(this.optimisticKey(), optimistic);
+
+            await this.writeToken(tokenId, current, { ...current, owner: to.toLowerCase() });
+        });
+    }
+
+    onCharacterUpdated(listener: (update: CharacterUpdate) => void): () => void {
+        this.events.on('character', listener);
+        return () => {
+            this.events.off('character', listener);
+        };
+    }
+
+    private async runSync(): Promise<IndexerCheckpoint | null> {
+        if (!this.contractConfig || !this.contractInterface) {
+            const serviceError = new ServiceError('Contract configuration not loaded');
+            serviceError.code = 'CONTRACT_NOT_CONFIGURED';
+            serviceError.statusCode = 503;
+            throw serviceError;
+        }
+
+        await this.rollbackPartialRange();
+        await this.handleReorg();
+
+        // Only blocks buried under the confirmation depth are projected
+        const target = await this.provider.getBlockNumber() - this.confirmations;
+        let cursor = await this.store.get<IndexerCheckpoint>(this.cursorKey());
+        let from = cursor ? cursor.blockNumber + 1 : await this.resolveStartBlock();
+
+        while (from <= target) {
+            const to = Math.min(from + this.batchSize - 1, target);
+            cursor = await this.indexRange(from, to);
+            from = to + 1;
+        }
+
+        this.caughtUp = true;
+        return cursor;
+    }
+
+    private async resolveStartBlock(): Promise<number> {
+        if (this.startBlock === null) {
+            const receipt = await this.provider.getTransactionReceipt(this.contractConfig.transactionHash);
+            if (!receipt) {
+                throw new Error(`Deployment transaction ${this.contractConfig.transactionHash} not found`);
+            }
+            this.startBlock = receipt.blockNumber;
+        }
+        return this.startBlock;
+    }
+
+    private async indexRange(fromBlock: number, toBlock: number): Promise<IndexerCheckpoint> {
+        const logs = await this.provider.getLogs({
+            address: this.contractConfig.address,
+            fromBlock,
+            toBlock
+        });
+        const block = await this.provider.getBlock(toBlock);
+        if (!block?.hash) {
+            throw new Error(`Block ${toBlock} not available from provider`);
+        }
+
+        const undo: UndoRecord[] = [];
+        const journal = async (record: UndoRecord) => {
+            undo.push(record);
+            await this.store.set(this.partialRangeKey(), { fromBlock, undo });
+        };
+
+        const updates: CharacterUpdate[] = [];
+        let applied = 0;
+        for (const log of logs) {
+            const parsed = this.contractInterface!.parseLog(log);
+            if (parsed && INDEXED_EVENTS.includes(parsed.name)) {
+                await this.applyEvent(parsed, log.blockNumber, journal);
+                applied++;
+                if (parsed.name !== 'SeasonAdvanced') {
+                    updates.push({ tokenId: Number(parsed.args.tokenId), event: parsed.name, blockNumber: log.blockNumber });
+                }
+            }
+        }
+
+        // Optimistic writes for blocks in this range were made before any of its
+        // own, so they are undone last
+        const optimistic = await this.store.get<OptimisticWrite[]>(this.optimisticKey()) || [];
+        const covered = optimistic.filter((write) => write.blockNumber <= toBlock);
+        const batchUndo = [...covered.map((write) => write.undo), ...undo];
+
+        const checkpoint: IndexerCheckpoint = { blockNumber: toBlock, blockHash: block.hash };
+        if (batchUndo.length > 0) {
+            await this.store.set(this.journalKey(toBlock), batchUndo);
+        }
+        await this.pushCheckpoint(checkpoint);
+        await this.store.set(this.cursorKey(), checkpoint);
+        await this.store.delete(this.partialRangeKey());
+        if (covered.length > 0) {
+            await this.store.set(this.optimisticKey(), optimistic.filter((write) => write.blockNumber > toBlock));
+        }
+
+        updates.forEach((update) => this.events.emit('character', update));
+        logger.debug('Indexed block range', { fromBlock, toBlock, events: applied });
+        return checkpoint;
+    }
+
+    private async applyEvent(
+        event: ethers.LogDescription,
+        blockNumber: number,
+        journal: (record: UndoRecord) => Promise<void>
+    ): Promise<void> {
+        const args = event.args;
+
+        switch (event.name) {
+            case 'Transfer': {
+                const tokenId = Number(args.tokenId);
+                const to = String(args.to).toLowerCase();
+                const currentSeason = await this.store.get<number>(this.seasonKey()) || 1;
+
+                await this.updateToken(tokenId, journal, (current) => {
+                    if (to === ethers.ZeroAddress) {
+                        return null;
+                    }
+                    return {
+                        ...(current || this.emptyCharacter(tokenId, currentSeason, blockNumber)),
+                        owner: to,
+                        updatedBlock: blockNumber
+                    };
+                });
+                break;
+            }
+            case 'CharacterMinted': {
+                const tokenId = Number(args.tokenId);
+                const character = args.character;
+
+                await this.updateToken(tokenId, journal, (current) => ({
+                    ...(current || this.emptyCharacter(tokenId, Number(character.seasonId), blockNumber)),
+                    owner: current?.owner || String(args.player).toLowerCase(),
+                    stats: this.toStats(character),
+                    experience: Number(character.experience),
+                    level: Number(character.level),
+                    seasonId: Number(character.seasonId),
+                    evolved: Boolean(character.evolved),
+                    updatedBlock: blockNumber
+                }));
+                break;
+            }
+            case 'ExperienceGained': {
+                await this.updateToken(Number(args.tokenId), journal, (current) => current && {
+                    ...current,
+                    experience: current.experience + Number(args.amount),
+                    updatedBlock: blockNumber
+                });
+                break;
+            }
+            case 'LevelUp': {
+                await this.updateToken(Number(args.tokenId), journal, (current) => current && {
+                    ...current,
+                    level: Number(args.newLevel),
+                    updatedBlock: blockNumber
+                });
+                break;
+            }
+            case 'CharacterEvolved': {
+                const tokenId = Number(args.tokenId);
+                const newTokenId = Number(args.newTokenId);
+
+                // The event doesn't carry the evolved stats, so read them as of that block
+                const evolved = await this.readCharacterAt(newTokenId, blockNumber);
+                const currentSeason = await this.store.get<number>(this.seasonKey()) || 1;
+
+                await this.updateToken(tokenId, journal, (current) => current && {
+                    ...current,
+                    evolved: true,
+                    evolvedInto: newTokenId,
+                    updatedBlock: blockNumber
+                });
+                await this.updateToken(newTokenId, journal, (current) => ({
+                    ...(current || this.emptyCharacter(newTokenId, currentSeason, blockNumber)),
+                    ...evolved,
+                    evolved: true,
+                    evolvedFrom: tokenId,
+                    updatedBlock: blockNumber
+                }));
+                break;
+            }
+            case 'SeasonAdvanced': {
+                await journal({ season: await this.store.get<number>(this.seasonKey()) });
+                await this.store.set(this.seasonKey(), Number(args.seasonId));
+                break;
+            }
+        }
+    }
+
+    private async handleReorg(): Promise<void> {
+        const checkpoints = await this.store.get<IndexerCheckpoint[]>(this.checkpointsKey()) || [];
+        if (checkpoints.length === 0) {
+            return;
+        }
+
+        const latest = checkpoints[checkpoints.length - 1];
+        if ((await this.provider.getBlock(latest.blockNumber))?.hash === latest.blockHash) {
+            return;
+        }
+
+        // Undo batches newest first until we reach a checkpoint still on the canonical chain
+        let index = checkpoints.length - 1;
+        while (index >= 0) {
+            const checkpoint = checkpoints[index];
+            if ((await this.provider.getBlock(checkpoint.blockNumber))?.hash === checkpoint.blockHash) {
+                break;
+            }
+            await this.undoBatch(checkpoint.blockNumber);
+            index--;
+        }
+
+        if (index < 0) {
+            logger.warn('Reorg deeper than retained checkpoints, rebuilding projection', {
+                oldestCheckpoint: checkpoints[0].blockNumber
+            });
+            await this.resetProjection();
+            return;
+        }
+
+        const retained = checkpoints.slice(0, index + 1);
+        await this.store.set(this.checkpointsKey(), retained);
+        await this.store.set(this.cursorKey(), retained[retained.length - 1]);
+
+        logger.warn('Chain reorg detected, projection rolled back', {
+            from: latest.blockNumber,
+            to: retained[retained.length - 1].blockNumber
+        });
+    }
+
+    private async undoBatch(blockNumber: number): Promise<void> {
+        await this.undoRecords(await this.store.get<UndoRecord[]>(this.journalKey(blockNumber)) || []);
+        await this.store.delete(this.journalKey(blockNumber));
+    }
+
+    // A range is only committed once the cursor moves past its start; anything
+    // written before that is undone so the range can be indexed again from scratch
+    private async rollbackPartialRange(): Promise<void> {
+        const partial = await this.store.get<PartialRange>(this.partialRangeKey());
+        if (!partial) {
+            return;
+        }
+
+        const cursor = await this.store.get<IndexerCheckpoint>(this.cursorKey());
+        if (!cursor || cursor.blockNumber < partial.fromBlock) {
+            await this.undoRecords(partial.undo);
+
+            // Drop a checkpoint the range pushed before the cursor was written
+            const checkpoints = await this.store.get<IndexerCheckpoint[]>(this.checkpointsKey()) || [];
+            const retained = checkpoints.filter((checkpoint) => cursor && checkpoint.blockNumber <= cursor.blockNumber);
+            for (const dropped of checkpoints.slice(retained.length)) {
+                await this.store.delete(this.journalKey(dropped.blockNumber));
+            }
+            await this.store.set(this.checkpointsKey(), retained);
+
+            logger.warn('Rolled back partially indexed block range', {
+                fromBlock: partial.fromBlock,
+                writes: partial.undo.length
+            });
+        }
+
+        await this.store.delete(this.partialRangeKey());
+    }
+
+    private async undoRecords(records: UndoRecord[]): Promise<void> {
+        for (const record of records.slice().reverse()) {
+            if ('tokenId' in record) {
+                const current = await this.getCharacter(record.tokenId);
+                await this.writeToken(record.tokenId, current, record.previous);
+            } else if (record.season === null) {
+                await this.store.delete(this.seasonKey());
+            } else {
+                await this.store.set(this.seasonKey(), record.season);
+            }
+        }
+    }
+
+    private async resetProjection(): Promise<void> {
+        const keys = await this.store.keys('indexer:');
+        for (const key of keys) {
+            await this.store.delete(key);
+        }
+        this.caughtUp = false;
+    }
+
+    private async pushCheckpoint(checkpoint: IndexerCheckpoint): Promise<void> {
+        const checkpoints = await this.store.get<IndexerCheckpoint[]>(this.checkpointsKey()) || [];
+        checkpoints.push(checkpoint);
+
+        // Batches older than the retained window can no longer be rolled back
+        while (checkpoints.length > MAX_CHECKPOINTS) {
+            const expired = checkpoints.shift()!;
+            await this.store.delete(this.journalKey(expired.blockNumber));
+        }
+
+        await this.store.set(this.checkpointsKey(), checkpoints);
+    }
+
+    private async updateToken(
+        tokenId: number,
+        journal: (record: UndoRecord) => Promise<void>,
+        mutate: (current: IndexedCharacter | null) => IndexedCharacter | null
+    ): Promise<void> {
+        const previous = await this.getCharacter(tokenId);
+        const next = mutate(previous);
+
+        await journal({ tokenId, previous });
+        await this.writeToken(tokenId, previous, next);
+    }
+
+    private exclusive<T>(task: () => Promise<T>): Promise<T> {
+        const result = this.writing.then(task);
+        this.writing = result.catch(() => undefined);
+        return result;
+    }
+
+    private async writeToken(
+        tokenId: number,
+        previous: IndexedCharacter | null,
+        next: IndexedCharacter | null
+    ): Promise<void> {
+        if (next) {
+            await this.store.set(this.tokenKey(tokenId), next);
+        } else {
+            await this.store.delete(this.tokenKey(tokenId));
+        }
+
+        if (previous?.owner !== next?.owner) {
+            if (previous) {
+                await this.updateOwnerIndex(previous.owner, (tokenIds) => tokenIds.filter((id) => id !== tokenId));
+            }
+            if (next) {
+                await this.updateOwnerIndex(next.owner, (tokenIds) => [...tokenIds, tokenId].sort((a, b) => a - b));
+            }
+        }
+    }
+
+    private async updateOwnerIndex(owner: string, update: (tokenIds: number[]) => number[]): Promise<void> {
+        const key = this.ownerKey(owner);
+        const tokenIds = update(await this.store.get<number[]>(key) || []);
+
+        if (tokenIds.length > 0) {
+            await this.store.set(key, tokenIds);
+        } else {
+            await this.store.delete(key);
+        }
+    }
+
+    private async readCharacterAt(
+        tokenId: number,
+        blockNumber: number
+    ): Promise<Pick<IndexedCharacter, 'stats' | 'experience' | 'level' | 'seasonId'>> {
+        const contract = new ethers.Contract(this.contractConfig.address, this.contractConfig.abi, this.provider);
+
+        let character;
+        try {
+            character = await contract.getCharacter(tokenId, { blockTag: blockNumber });
+        } catch (error) {
+            // Non-archive RPC nodes can't serve historical state; latest is close enough
+            logger.debug('Historical character read unavailable, using latest state', { tokenId, blockNumber });
+            character = await contract.getCharacter(tokenId);
+        }
+
+        return {
+            stats: this.toStats(character),
+            experience: Number(character.experience),
+            level: Number(character.level),
+            seasonId: Number(character.seasonId)
+        };
+    }
+
+    private toStats(character: any): CharacterStats {
+        return {
+            strength: Number(character.strength),
+            dexterity: Number(character.dexterity),
+            constitution: Number(character.constitution),
+            intelligence: Number(character.intelligence),
+            wisdom: Number(character.wisdom),
+            charisma: Number(character.charisma)
+        };
+    }
+
+    private emptyCharacter(tokenId: number, seasonId: number, blockNumber: number): IndexedCharacter {
+        return {
+            tokenId,
+            owner: ethers.ZeroAddress,
+            stats: {
+                strength: 0,
+                dexterity: 0,
+                constitution: 0,
+                intelligence: 0,
+                wisdom: 0,
+                charisma: 0
+            },
+            experience: 0,
+            level: 1,
+            seasonId,
+            evolved: false,
+            mintedBlock: blockNumber,
+            updatedBlock: blockNumber
+        };
+    }
+
+    private cursorKey(): string {
+        return 'indexer:cursor';
+    }
+
+    private checkpointsKey(): string {
+        return 'indexer:checkpoints';
+    }
+
+    private journalKey(blockNumber: number): string {
+        return `indexer:journal:${blockNumber}`;
+    }
+
+    private partialRangeKey(): string {
+        return 'indexer:journal:partial';
+    }
+
+    private optimisticKey(): string {
+        return 'indexer:journal:optimistic';
+    }
+
+    private seasonKey(): string {
+        return 'indexer:season';
+    }
+
+    private tokenKey(tokenId?: number): string {
+        return tokenId === undefined ? 'indexer:token:' : `indexer:token:${tokenId}`;
+    }
+
+    private ownerKey(owner: string): string {
+        return `indexer:owner:${owner.toLowerCase()}`;
+    }
+}
@@ -0,0 +1,276 @@
+// src/services/InventoryService.ts
+
+import {
+    CharacterInventory,
+    CharacterMetadata,
+    CharacterStats,
+    EffectiveLoadout,
+    EquipmentSlot,
+    IInventoryService,
+    IItemCatalogService,
+    IKeyValueStore,
+    ILedgerService,
+    InventoryStack,
+    ItemDefinition,
+    ServiceError
+} from '../utils/types';
+import { Service, Inject } from 'typedi';
+import { Tokens } from '../utils/types';
+import { EventEmitter } from 'events';
+import { withStoreLock } from '../utils/storeLock';
+import logger from '../utils/Logger';
+
+const EQUIPMENT_SLOTS: EquipmentSlot[] = ['weapon', 'armor', 'accessory'];
+
+const SLOT_LABELS: Record<EquipmentSlot, string> = {
+    weapon: 'Weapon',
+    armor: 'Armor',
+    accessory: 'Accessory'
+};
+
+@Service(Tokens.InventoryService)
+export class InventoryService implements IInventoryService {
+    private readonly events = new EventEmitter();
+    // Updates read, modify and write back the whole inventory, so each
+    // character's updates run one at a time: queued in this process, and
+    // under a store lock against other processes
+    private readonly queues = new Map<number, Promise<unknown>>();
+
+    constructor(
+        @Inject(Tokens.Store) private store: IKeyValueStore,
+        @Inject(Tokens.ItemCatalogService) private itemCatalog: IItemCatalogService,
+        @Inject(Tokens.LedgerService) private ledgerService: ILedgerService
+    ) {}
+
+    async getInventory(tokenId: number): Promise<CharacterInventory> {
+        const inventory = await this.store.get<CharacterInventory>(this.inventoryKey(tokenId));
+        return inventory || {
+            tokenId,
+            items: [],
+            equipment: {},
+            updatedAt: new Date().toISOString()
+        };
+    }
+
+    async addItems(tokenId: number, items: InventoryStack[]): Promise<CharacterInventory> {
+        return this.serialize(tokenId, async () => {
+            const inventory = await this.getInventory(tokenId);
+
+            for (const { itemId, quantity } of items) {
+                // Validates the id against the catalog before anything is stored
+                this.itemCatalog.getItem(itemId);
+                if (quantity <= 0) {
+                    continue;
+                }
+
+                const stack = inventory.items.find((entry) => entry.itemId === itemId);
+                if (stack) {
+                    stack.quantity += quantity;
+                } else {
+                    inventory.items.push({ itemId, quantity });
+                }
+            }
+
+            logger.info('Items added to inventory', { tokenId, items });
+            return this.save(inventory);
+        });
+    }
+
+    async addItemsByName(tokenId: number, names: string[]): Promise<CharacterInventory> {
+        const stacks: InventoryStack[] = [];
+
+        for (const name of names) {
+            const item = this.itemCatalog.findItemByName(name);
+            if (item) {
+                stacks.push({ itemId: item.id, quantity: 1 });
+            } else {
+                // Game master rewards are free text; only catalog items can be held
+                logger.debug('Ignoring unknown reward item', { tokenId, name });
+            }
+        }
+
+        return stacks.length > 0 ? this.addItems(tokenId, stacks) : this.getInventory(tokenId);
+    }
+
+    async removeItem(tokenId: number, itemId: string, quantity: number = 1): Promise<CharacterInventory> {
+        return this.serialize(tokenId, async () => {
+            const inventory = await this.getInventory(tokenId);
+            const stack = inventory.items.find((entry) => entry.itemId === itemId);
+
+            if (!stack || stack.quantity < quantity) {
+                const serviceError = new ServiceError(`Not enough ${itemId} in inventory`);
+                serviceError.code = 'INSUFFICIENT_ITEMS';
+                serviceError.statusCode = 409;
+                throw serviceError;
+            }
+
+            stack.quantity -= quantity;
+            if (stack.quantity === 0) {
+                inventory.items = inventory.items.filter((entry) => entry !== stack);
+
+                // Gear that leaves the inventory can't stay equipped
+                for (const slot of EQUIPMENT_SLOTS) {
+                    if (inventory.equipment[slot] === itemId) {
+                        delete inventory.equipment[slot];
+                    }
+                }
+            }
+
+            logger.info('Item removed from inventory', { tokenId, itemId, quantity });
+            return this.save(inventory);
+        });
+    }
+
+    async purchaseItem(tokenId: number, itemId: string, quantity: number = 1): Promise<CharacterInventory> {
+        const item = this.itemCatalog.getItem(itemId);
+        if (item.value <= 0) {
+            const serviceError = new ServiceError(`${item.name} is not for sale`);
+            serviceError.code = 'ITEM_NOT_FOR_SALE';
+            serviceError.statusCode = 400;
+            throw serviceError;
+        }
+
+        // The debit fails on insufficient gold before anything is added
+        const debit = await this.ledgerService.debit(tokenId, item.value * quantity, {
+            reason: `Purchased ${quantity} x ${item.name}`,
+            source: { type: 'purchase', id: itemId }
+        });
+
+        try {
+            return await this.addItems(tokenId, [{ itemId, quantity }]);
+        } catch (error) {
+            // Gold paid for an item that never arrived goes back, at most once
+            await this.ledgerService.credit(tokenId, debit.amount, {
+                reason: `Refunded ${quantity} x ${item.name}`,
+                source: { type: 'purchase', id: itemId },
+                rewardKey: `refund:${debit.id}`
+            });
+            throw error;
+        }
+    }
+
+    async equip(tokenId: number, itemId: string): Promise<CharacterInventory> {
+        const item = this.itemCatalog.getItem(itemId);
+        const slot = this.slotFor(item);
+        if (!slot) {
+            const serviceError = new ServiceError(`${item.name} cannot be equipped`);
+            serviceError.code = 'ITEM_NOT_EQUIPPABLE';
+            serviceError.statusCode = 400;
+            throw serviceError;
+        }
+
+        return this.serialize(tokenId, async () => {
+            const inventory = await this.getInventory(tokenId);
+            if (!inventory.items.some((entry) => entry.itemId === itemId)) {
+                const serviceError = new ServiceError(`${item.name} is not in the inventory`);
+                serviceError.code = 'ITEM_NOT_OWNED';
+                serviceError.statusCode = 409;
+                throw serviceError;
+            }
+
+            const previous = inventory.equipment[slot];
+            inventory.equipment[slot] = itemId;
+
+            logger.info('Item equipped', { tokenId, itemId, slot, replaced: previous });
+            const saved = await this.save(inventory);
+            this.events.emit('equipment', tokenId);
+            return saved;
+        });
+    }
+
+    async unequip(tokenId: number, slot: EquipmentSlot): Promise<CharacterInventory> {
+        if (!EQUIPMENT_SLOTS.includes(slot)) {
+            const serviceError = new ServiceError(`Unknown equipment slot: ${slot}`);
+            serviceError.code = 'INVALID_EQUIPMENT_SLOT';
+            serviceError.statusCode = 400;
+            throw serviceError;
+        }
+
+        return this.serialize(tokenId, async () => {
+            const inventory = await this.getInventory(tokenId);
+            const itemId = inventory.equipment[slot];
+            delete inventory.equipment[slot];
+
+            logger.info('Item unequipped', { tokenId, slot, itemId });
+            const saved = await this.save(inventory);
+            this.events.emit('equipment', tokenId);
+            return saved;
+        });
+    }
+
+    onEquipmentChanged(listener: (tokenId: number) => void): () => void {
+        this.events.on('equipment', listener);
+        return () => {
+            this.events.off('equipment', listener);
+        };
+    }
+
+    async getLoadout(tokenId: number, baseStats: CharacterStats): Promise<EffectiveLoadout> {
+        const equipped = this.equippedItems(await this.getInventory(tokenId));
+        const stats = { ...baseStats };
+        let armorClassBonus = 0;
+
+        for (const item of equipped) {
+            for (const [stat, modifier] of Object.entries(item.statModifiers || {})) {
+                stats[stat as keyof CharacterStats] += modifier || 0;
+            }
+            armorClassBonus += item.armorClass || 0;
+        }
+
+        const weapon = equipped.find((item) => item.type === 'weapon');
+
+        return {
+            stats,
+            armorClassBonus,
+            attackBonus: weapon?.attackBonus || 0,
+            weapon
+        };
+    }
+
+    async getEquipmentAttributes(tokenId: number): Promise<CharacterMetadata['attributes']> {
+        const inventory = await this.getInventory(tokenId);
+
+        return EQUIPMENT_SLOTS
+            .filter((slot) => inventory.equipment[slot])
+            .map((slot) => ({
+                trait_type: SLOT_LABELS[slot],
+                value: this.itemCatalog.getItem(inventory.equipment[slot] as string).name
+            }));
+    }
+
+    private equippedItems(inventory: CharacterInventory): ItemDefinition[] {
+        return EQUIPMENT_SLOTS
+            .map((slot) => inventory.equipment[slot])
+            .filter((itemId): itemId is string => itemId !== undefined)
+            .map((itemId) => this.itemCatalog.findItem(itemId))
+            .filter((item): item is ItemDefinition => item !== undefined);
+    }
+
+    private slotFor(item: ItemDefinition): EquipmentSlot | undefined {
+        return EQUIPMENT_SLOTS.find((slot) => slot === item.type);
+    }
+
+    private serialize<T>(tokenId: number, task: () => Promise<T>): Promise<T> {
+        const result = (this.queues.get(tokenId) || Promise.resolve())
+            .then(() => withStoreLock(this.store, this.inventoryKey(tokenId), task));
+        // A failed update must not block the ones queued behind it
+        const tail = result.catch(() => undefined);
+        this.queues.set(tokenId, tail);
+        tail.then(() => {
+            if (this.queues.get(tokenId) === tail) {
+                this.queues.delete(tokenId);
+            }
+        });
+        return result;
+    }
+
+    private async save(inventory: CharacterInventory): Promise<CharacterInventory> {
+        inventory.updatedAt = new Date().toISOString();
+        await this.store.set(this.inventoryKey(inventory.tokenId), inventory);
+        return inventory;
+    }
+
+    private inventoryKey(tokenId: number): string {
+        return `inventory:${tokenId}`;
+    }
+}
@@ -0,0 +1,87 @@
+// src/services/ItemCatalogService.ts
+
+import {
+    IItemCatalogService,
+    ItemDefinition,
+    ServiceError
+} from '../utils/types';
+import { Service } from 'typedi';
+import { Tokens } from '../utils/types';
+import * as fs from 'fs';
+import * as path from 'path';
+import logger from '../utils/Logger';
+
+const ITEM_TYPES = ['weapon', 'armor', 'accessory', 'consumable', 'material', 'treasure'];
+const ITEM_RARITIES = ['common', 'uncommon', 'rare', 'very_rare', 'legendary'];
+
+@Service(Tokens.ItemCatalogService)
+export class ItemCatalogService implements IItemCatalogService {
+    private readonly items = new Map<string, ItemDefinition>();
+
+    constructor(
+        catalogPath: string = process.env.ITEM_CATALOG_PATH || path.join(__dirname, '../data/items.json')
+    ) {
+        this.load(catalogPath);
+    }
+
+    getItem(id: string): ItemDefinition {
+        const item = this.findItem(id);
+        if (!item) {
+            const serviceError = new ServiceError(`Unknown item: ${id}`);
+            serviceError.code = 'ITEM_NOT_FOUND';
+            serviceError.statusCode = 404;
+            throw serviceError;
+        }
+        return item;
+    }
+
+    findItem(id: string): ItemDefinition | undefined {
+        return this.items.get(id);
+    }
+
+    findItemByName(name: string): ItemDefinition | undefined {
+        const normalized = name.trim().toLowerCase();
+        return Array.from(this.items.values()).find(
+            (item) => item.name.toLowerCase() === normalized || item.id === normalized
+        );
+    }
+
+    listItems(): ItemDefinition[] {
+        return Array.from(this.items.values());
+    }
+
+    private load(catalogPath: string): void {
+        if (!fs.existsSync(catalogPath)) {
+            const serviceError = new ServiceError(`Item catalog not found: ${catalogPath}`);
+            serviceError.code = 'ITEM_CATALOG_LOAD_FAILED';
+            serviceError.statusCode = 500;
+            throw serviceError;
+        }
+
+        const definitions = JSON.parse(fs.readFileSync(catalogPath, 'utf8'));
+        for (const definition of definitions) {
+            if (
+                typeof definition.id !== 'string' ||
+                typeof definition.name !== 'string' ||
+                !ITEM_TYPES.includes(definition.type) ||
+                !ITEM_RARITIES.includes(definition.rarity)
+            ) {
+                const serviceError = new ServiceError(
+                    `Invalid item definition: ${JSON.stringify(definition)}`
+                );
+                serviceError.code = 'ITEM_CATALOG_LOAD_FAILED';
+                serviceError.statusCode = 500;
+                throw serviceError;
+            }
+
+            this.items.set(definition.id, {
+                value: 0,
+                description: '',
+                stackable: false,
+                ...definition
+            });
+        }
+
+        logger.info('Item catalog loaded', { items: this.items.size, catalogPath });
+    }
+}
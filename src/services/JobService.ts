@@ -0,0 +1,329 @@
+// src/services/JobService.ts
+
+import {
+    CharacterClass,
+    CharacterCreationJob,
+    CharacterCreationProgress,
+    CharacterCreationStage,
+    ICharacterService,
+    IJobService,
+    IKeyValueStore,
+    ServiceError
+} from '../utils/types';
+import { Service, Inject } from 'typedi';
+import { Tokens } from '../utils/types';
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import logger from '../utils/Logger';
+
+const CREATION_STAGES: CharacterCreationStage[] = [
+    'story',
+    'image',
+    'image_pin',
+    'metadata_pin',
+    'mint',
+    'confirmed'
+];
+// Once a mint may have been submitted, failures keep the pinned artifacts for an operator
+const MINT_STAGES: CharacterCreationStage[] = ['mint', 'confirmed'];
+// Finished jobs stay queryable for a week
+const FINISHED_JOB_TTL_SECONDS = 7 * 24 * 60 * 60;
+// Running jobs with no progress for this long show up in the stuck report
+const STALE_JOB_MS = 30 * 60 * 1000;
+
+@Service(Tokens.JobService)
+export class JobService implements IJobService {
+    private readonly events = new EventEmitter();
+    // Jobs being worked on by this process
+    private readonly running = new Set<string>();
+
+    constructor(
+        @Inject(Tokens.CharacterService) private characterService: ICharacterService,
+        @Inject(Tokens.Store) private store: IKeyValueStore
+    ) {
+        // One listener per open SSE stream
+        this.events.setMaxListeners(0);
+    }
+
+    async createCharacterJob(playerAddress: string, characterClass: CharacterClass): Promise<CharacterCreationJob> {
+        const now = new Date().toISOString();
+        const job: CharacterCreationJob = {
+            id: randomUUID(),
+            type: 'character_creation',
+            status: 'queued',
+            playerAddress,
+            characterClass,
+            stages: CREATION_STAGES.map((stage) => ({ stage, status: 'pending', attempts: 0 })),
+            progress: {},
+            createdAt: now,
+            updatedAt: now
+        };
+
+        await this.store.set(this.jobKey(job.id), job);
+        await this.store.set(this.activeKey(job.id), true);
+
+        logger.info('Character creation job queued', { jobId: job.id, playerAddress, characterClass });
+        this.execute(job.id);
+
+        return this.toView(job);
+    }
+
+    async getJob(jobId: string): Promise<CharacterCreationJob> {
+        return this.toView(await this.loadJob(jobId));
+    }
+
+    subscribe(jobId: string, listener: (job: CharacterCreationJob) => void): () => void {
+        this.events.on(jobId, listener);
+        return () => {
+            this.events.off(jobId, listener);
+        };
+    }
+
+    async resumePending(): Promise<number> {
+        const keys = await this.store.keys(this.activePrefix());
+        const jobIds = keys.map((key) => key.slice(this.activePrefix().length));
+
+        for (const jobId of jobIds) {
+            this.execute(jobId);
+        }
+
+        if (jobIds.length > 0) {
+            logger.info('Resuming unfinished jobs', { count: jobIds.length });
+        }
+        return jobIds.length;
+    }
+
+    private execute(jobId: string): void {
+        if (this.running.has(jobId)) {
+            return;
+        }
+        this.running.add(jobId);
+
+        this.run(jobId)
+            .catch((error) => {
+                logger.error('Job runner failed', {
+                    jobId,
+                    error: error instanceof Error ? error.message : 'Unknown error'
+                });
+            })
+            .finally(() => {
+                this.running.delete(jobId);
+            });
+    }
+
+    private async run(jobId: string): Promise<void> {
+        let job = await this.store.get<CharacterCreationJob>(this.jobKey(jobId));
+        if (!job || job.status === 'completed' || job.status === 'failed') {
+            await this.store.delete(this.activeKey(jobId));
+            return;
+        }
+
+        job = await this.save({ ...job, status: 'running' });
+
+        try {
+            const result = await this.characterService.createCharacter(
+                job.playerAddress,
+                job.characterClass,
+                job.progress,
+                async (stage, state, progress) => {
+                    job = await this.recordStage(job!, stage, state, progress);
+                }
+            );
+
+            job = await this.save({ ...job, status: 'completed', result }, FINISHED_JOB_TTL_SECONDS);
+            logger.info('Character creation job completed', { jobId, tokenId: result.tokenId });
+        } catch (error) {
+            const stage = job.stages.find((record) => record.status === 'running');
+            job = {
+                ...job,
+                stages: job.stages.map((record) =>
+                    record === stage ? { ...record, status: 'failed' } : record
+                ),
+                error: {
+                    message: error instanceof Error ? error.message : 'Unknown error',
+                    code: error instanceof ServiceError ? error.code : undefined,
+                    stage: stage?.stage
+                }
+            };
+
+            if (stage && MINT_STAGES.includes(stage.stage)) {
+                job = await this.save({ ...job, status: 'pending_mint' });
+                await this.store.set(this.attentionKey(jobId), true);
+                logger.warn('Character creation awaiting mint retry', { jobId, stage: stage.stage, error: job.error?.message });
+            } else {
+                logger.error('Character creation job failed', { jobId, stage: stage?.stage, error: job.error?.message });
+                const failed: CharacterCreationJob = { ...job, status: 'failed' };
+                try {
+                    job = await this.compensate(failed);
+                } catch (compensationError) {
+                    // Leave the pins in place and let an operator abandon the job later
+                    logger.error('Character creation compensation failed', {
+                        jobId,
+                        error: compensationError instanceof Error ? compensationError.message : 'Unknown error'
+                    });
+                    job = await this.save({
+                        ...failed,
+                        compensation: {
+                            unpinned: [],
+                            failed: [failed.progress.metadataUri, failed.progress.imageUri]
+                                .filter((uri): uri is string => !!uri),
+                            compensatedAt: new Date().toISOString()
+                        }
+                    });
+                    await this.store.set(this.attentionKey(jobId), true);
+                }
+            }
+        }
+
+        await this.store.delete(this.activeKey(jobId));
+    }
+
+    async getStuckJobs(): Promise<CharacterCreationJob[]> {
+        const attention = await this.store.keys(this.attentionPrefix());
+        const active = await this.store.keys(this.activePrefix());
+        const jobIds = [
+            ...attention.map((key) => key.slice(this.attentionPrefix().length)),
+            ...active.map((key) => key.slice(this.activePrefix().length))
+        ];
+
+        const jobs = await Promise.all(jobIds.map((jobId) => this.store.get<CharacterCreationJob>(this.jobKey(jobId))));
+        const staleBefore = new Date(Date.now() - STALE_JOB_MS).toISOString();
+
+        return jobs
+            .filter((job): job is CharacterCreationJob => job !== null)
+            .filter((job) =>
+                job.status === 'pending_mint' ||
+                (job.status === 'failed' && (job.compensation?.failed.length ?? 0) > 0) ||
+                job.updatedAt < staleBefore
+            )
+            .sort((a, b) => a.updatedAt.localeCompare(b.updatedAt))
+            .map((job) => this.toView(job));
+    }
+
+    async retryJob(jobId: string): Promise<CharacterCreationJob> {
+        const job = await this.loadJob(jobId);
+        if (job.status !== 'pending_mint') {
+            const serviceError = new ServiceError(`Only jobs awaiting a mint retry can be retried (job is ${job.status})`);
+            serviceError.code = 'JOB_NOT_RETRYABLE';
+            serviceError.statusCode = 409;
+            throw serviceError;
+        }
+
+        const queued = await this.save({ ...job, status: 'queued', error: undefined });
+        await this.store.set(this.activeKey(jobId), true);
+        await this.store.delete(this.attentionKey(jobId));
+
+        logger.info('Character creation job retried', { jobId });
+        this.execute(jobId);
+        return this.toView(queued);
+    }
+
+    async abandonJob(jobId: string): Promise<CharacterCreationJob> {
+        const job = await this.loadJob(jobId);
+        const leftoverPins = job.status === 'failed' && (job.compensation?.failed.length ?? 0) > 0;
+
+        if (job.status !== 'pending_mint' && !leftoverPins) {
+            const serviceError = new ServiceError(`Job has nothing to clean up (job is ${job.status})`);
+            serviceError.code = 'JOB_NOT_ABANDONABLE';
+            serviceError.statusCode = 409;
+            throw serviceError;
+        }
+
+        logger.info('Abandoning character creation job', { jobId });
+        return this.toView(await this.compensate({ ...job, status: 'failed' }));
+    }
+
+    // Releases whatever the job pinned; pins that fail to unpin keep the job in the stuck report
+    private async compensate(job: CharacterCreationJob): Promise<CharacterCreationJob> {
+        const { unpinned, failed } = await this.characterService.compensateCreation(job.playerAddress, job.progress);
+
+        const progress = { ...job.progress };
+        if (progress.imageUri && unpinned.includes(progress.imageUri)) {
+            delete progress.imageUri;
+        }
+        if (progress.metadataUri && unpinned.includes(progress.metadataUri)) {
+            delete progress.metadataUri;
+        }
+
+        const compensated = await this.save({
+            ...job,
+            progress,
+            compensation: {
+                unpinned: [...(job.compensation?.unpinned || []), ...unpinned],
+                failed,
+                compensatedAt: new Date().toISOString()
+            }
+        }, failed.length > 0 ? undefined : FINISHED_JOB_TTL_SECONDS);
+
+        if (failed.length > 0) {
+            await this.store.set(this.attentionKey(job.id), true);
+        } else {
+            await this.store.delete(this.attentionKey(job.id));
+        }
+        return compensated;
+    }
+
+    private async loadJob(jobId: string): Promise<CharacterCreationJob> {
+        const job = await this.store.get<CharacterCreationJob>(this.jobKey(jobId));
+        if (!job) {
+            const serviceError = new ServiceError('Job not found');
+            serviceError.code = 'JOB_NOT_FOUND';
+            serviceError.statusCode = 404;
+            throw serviceError;
+        }
+        return job;
+    }
+
+    private async recordStage(
+        job: CharacterCreationJob,
+        stage: CharacterCreationStage,
+        state: 'started' | 'completed',
+        progress: CharacterCreationProgress
+    ): Promise<CharacterCreationJob> {
+        const now = new Date().toISOString();
+        const stages = job.stages.map((record) => {
+            if (record.stage !== stage) {
+                return record;
+            }
+            return state === 'started'
+                ? { ...record, status: 'running' as const, attempts: record.attempts + 1, startedAt: now }
+                : { ...record, status: 'completed' as const, completedAt: now };
+        });
+
+        logger.debug('Character creation stage', { jobId: job.id, stage, state });
+        return this.save({ ...job, stages, progress: { ...progress } });
+    }
+
+    private async save(job: CharacterCreationJob, ttlSeconds?: number): Promise<CharacterCreationJob> {
+        const updated = { ...job, updatedAt: new Date().toISOString() };
+        await this.store.set(this.jobKey(updated.id), updated, ttlSeconds);
+        this.events.emit(updated.id, this.toView(updated));
+        return updated;
+    }
+
+    // The raw image is only kept for the pin stage and is too large to serve
+    private toView(job: CharacterCreationJob): CharacterCreationJob {
+        const { image, ...progress } = job.progress;
+        return { ...job, progress };
+    }
+
+    private jobKey(jobId: string): string {
+        return `job:${jobId}`;
+    }
+
+    private attentionPrefix(): string {
+        return 'jobs:attention:';
+    }
+
+    private attentionKey(jobId: string): string {
+        return `${this.attentionPrefix()}${jobId}`;
+    }
+
+    private activePrefix(): string {
+        return 'jobs:active:';
+    }
+
+    private activeKey(jobId: string): string {
+        return `${this.activePrefix()}${jobId}`;
+    }
+}
@@ -0,0 +1,289 @@
+// src/services/LeaderboardService.ts
+
+import {
+    CharacterClass,
+    ICharacterService,
+    IIndexerService,
+    IKeyValueStore,
+    ILeaderboardService,
+    ISeasonService,
+    IWalletService,
+    IndexedCharacter,
+    LeaderboardEntry,
+    LeaderboardPage,
+    LeaderboardScope,
+    PowerSnapshot,
+    PowerSnapshotRow,
+    SeasonStanding,
+    ServiceError
+} from '../utils/types';
+import { Service, Inject } from 'typedi';
+import { Tokens } from '../utils/types';
+import { getActiveDeployment } from '../chain/deployments';
+import logger from '../utils/Logger';
+
+const DEFAULT_REFRESH_INTERVAL_MS = 15 * 60 * 1000;
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+
+type RankedRow = Omit<LeaderboardEntry, 'previousRank' | 'rankChange'>;
+
+@Service(Tokens.LeaderboardService)
+export class LeaderboardService implements ILeaderboardService {
+    private contractConfig: any;
+    private timer: NodeJS.Timeout | null = null;
+    // Shared by concurrent callers so a refresh only runs once
+    private refreshing: Promise<PowerSnapshot> | null = null;
+
+    constructor(
+        @Inject(Tokens.WalletService) private walletService: IWalletService,
+        @Inject(Tokens.CharacterService) private characterService: ICharacterService,
+        @Inject(Tokens.IndexerService) private indexerService: IIndexerService,
+        @Inject(Tokens.Store) private store: IKeyValueStore,
+        @Inject(Tokens.SeasonService) private seasonService: ISeasonService,
+        private refreshIntervalMs: number = Number(process.env.LEADERBOARD_REFRESH_INTERVAL_MS) || DEFAULT_REFRESH_INTERVAL_MS
+    ) {
+        try {
+            this.contractConfig = getActiveDeployment('DnDCharacterNFT');
+        } catch (error) {
+            logger.warn('Contract configuration not loaded - deployment may be pending');
+            this.contractConfig = null;
+        }
+    }
+
+    start(): void {
+        if (this.timer) {
+            return;
+        }
+
+        const run = () => this.refresh().catch((error) => {
+            logger.error('Leaderboard refresh failed', {
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+        });
+
+        run();
+        this.timer = setInterval(run, this.refreshIntervalMs);
+        logger.info('Leaderboard refresh scheduled', { intervalMs: this.refreshIntervalMs });
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    async getLeaderboard(
+        scope: LeaderboardScope,
+        options: { filter?: string; page?: number; limit?: number } = {}
+    ): Promise<LeaderboardPage> {
+        // Snapshots are only built in the background, so a request never waits on an index sync
+        const current = await this.store.get<PowerSnapshot>(this.snapshotKey());
+        if (!current) {
+            const serviceError = new ServiceError('Leaderboard is still being computed');
+            serviceError.code = 'LEADERBOARD_NOT_READY';
+            serviceError.statusCode = 503;
+            throw serviceError;
+        }
+        const previous = await this.store.get<PowerSnapshot>(this.previousSnapshotKey());
+
+        const filter = scope === 'owner' ? options.filter?.toLowerCase() : options.filter;
+        const ranked = scope === 'season'
+            ? this.rankSeason(current.rows, await this.getSeasonStandings(current, Number(filter)))
+            : this.rank(this.applyScope(current.rows, scope, filter));
+
+        // Rank change is measured on the same board in the previous snapshot
+        let previousRanked: RankedRow[] = [];
+        if (previous && scope !== 'season') {
+            previousRanked = this.rank(this.applyScope(previous.rows, scope, filter));
+        } else if (previous?.season && previous.season.seasonId === Number(filter)) {
+            previousRanked = this.rankSeason(previous.rows, previous.season.standings);
+        }
+        const previousRanks = new Map(previousRanked.map((entry) => [entry.tokenId, entry.rank]));
+
+        const entries: LeaderboardEntry[] = ranked.map((entry) => {
+            const previousRank = previousRanks.get(entry.tokenId) ?? null;
+            return {
+                ...entry,
+                previousRank,
+                rankChange: previousRank === null ? null : previousRank - entry.rank
+            };
+        });
+
+        const limit = Math.min(Math.max(options.limit || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+        const page = Math.max(options.page || 1, 1);
+        const start = (page - 1) * limit;
+
+        return {
+            scope,
+            filter,
+            generatedAt: current.generatedAt,
+            previousGeneratedAt: previous?.generatedAt,
+            total: entries.length,
+            page,
+            limit,
+            entries: entries.slice(start, start + limit)
+        };
+    }
+
+    refresh(): Promise<PowerSnapshot> {
+        if (!this.refreshing) {
+            this.refreshing = this.buildSnapshot().finally(() => {
+                this.refreshing = null;
+            });
+        }
+        return this.refreshing;
+    }
+
+    private async buildSnapshot(): Promise<PowerSnapshot> {
+        if (!this.contractConfig) {
+            const serviceError = new ServiceError('Contract configuration not loaded');
+            serviceError.code = 'CONTRACT_NOT_CONFIGURED';
+            serviceError.statusCode = 503;
+            throw serviceError;
+        }
+
+        const startedAt = Date.now();
+        // Owners, levels and seasons come from the event projection; only power,
+        // which the contract computes, is read per token
+        await this.indexerService.sync();
+        const characters = await this.indexerService.listCharacters();
+
+        const rows: PowerSnapshotRow[] = [];
+        for (const character of characters) {
+            try {
+                rows.push(await this.readRow(character));
+            } catch (error) {
+                logger.error('Skipping token in leaderboard snapshot', {
+                    tokenId: character.tokenId,
+                    error: error instanceof Error ? error.message : 'Unknown error'
+                });
+            }
+        }
+
+        const snapshot: PowerSnapshot = {
+            generatedAt: new Date().toISOString(),
+            rows,
+            season: await this.readSeasonStandings()
+        };
+
+        const existing = await this.store.get<PowerSnapshot>(this.snapshotKey());
+        if (existing) {
+            await this.store.set(this.previousSnapshotKey(), existing);
+        }
+        await this.store.set(this.snapshotKey(), snapshot);
+
+        logger.info('Leaderboard snapshot refreshed', {
+            characters: rows.length,
+            durationMs: Date.now() - startedAt
+        });
+
+        return snapshot;
+    }
+
+    private async readRow(character: IndexedCharacter): Promise<PowerSnapshotRow> {
+        const power = await this.walletService.readContract(
+            this.contractConfig.address,
+            'calculatePower',
+            { tokenId: character.tokenId.toString() }
+        );
+
+        return {
+            tokenId: character.tokenId,
+            owner: character.owner,
+            class: await this.getCharacterClass(character.tokenId),
+            level: character.level,
+            evolved: character.evolved,
+            seasonId: character.seasonId,
+            power: Number(power)
+        };
+    }
+
+    private async readSeasonStandings(): Promise<PowerSnapshot['season']> {
+        try {
+            const { seasonId } = await this.seasonService.getCurrentSeason();
+            return { seasonId, standings: await this.seasonService.getStandings(seasonId) };
+        } catch (error) {
+            // The power boards are still worth publishing without the season board
+            logger.error('Season standings unavailable for leaderboard snapshot', {
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+            return undefined;
+        }
+    }
+
+    private async getSeasonStandings(snapshot: PowerSnapshot, seasonId: number): Promise<SeasonStanding[]> {
+        if (snapshot.season?.seasonId === seasonId) {
+            return snapshot.season.standings;
+        }
+        // Finished seasons come from their archive, which no longer changes
+        return this.seasonService.getStandings(seasonId);
+    }
+
+    private async getCharacterClass(tokenId: number): Promise<CharacterClass | undefined> {
+        // Class only lives in the token metadata and never changes, so it is fetched once
+        const cached = await this.store.get<CharacterClass>(this.classKey(tokenId));
+        if (cached) {
+            return cached;
+        }
+
+        try {
+            const metadata = await this.characterService.getMetadata(tokenId);
+            const value = metadata.attributes?.find((attr) => attr.trait_type === 'Class')?.value;
+            const characterClass = Object.values(CharacterClass).find((c) => c === String(value).toLowerCase());
+
+            if (characterClass) {
+                await this.store.set(this.classKey(tokenId), characterClass);
+            }
+            return characterClass;
+        } catch (error) {
+            // Leave the class empty and retry on the next refresh
+            logger.debug('Character class unavailable for leaderboard', { tokenId });
+            return undefined;
+        }
+    }
+
+    private applyScope(rows: PowerSnapshotRow[], scope: LeaderboardScope, filter?: string): PowerSnapshotRow[] {
+        switch (scope) {
+            case 'class':
+                return rows.filter((row) => row.class === filter);
+            case 'owner':
+                return rows.filter((row) => row.owner === filter);
+            default:
+                return rows;
+        }
+    }
+
+    private rank(rows: PowerSnapshotRow[]): RankedRow[] {
+        return rows
+            .slice()
+            .sort((a, b) => b.power - a.power || b.level - a.level || a.tokenId - b.tokenId)
+            .map((row, index) => ({ ...row, rank: index + 1 }));
+    }
+
+    // Keeps the season's own order, by seasonal power earned from recorded activity.
+    // Characters minted after the snapshot join the board with the next one.
+    private rankSeason(rows: PowerSnapshotRow[], standings: SeasonStanding[]): RankedRow[] {
+        const rowsByToken = new Map(rows.map((row) => [row.tokenId, row]));
+
+        return standings
+            .flatMap(({ tokenId, experience, questsCompleted, seasonalPower }) => {
+                const row = rowsByToken.get(tokenId);
+                return row ? [{ ...row, seasonal: { experience, questsCompleted, seasonalPower } }] : [];
+            })
+            .map((row, index) => ({ ...row, rank: index + 1 }));
+    }
+
+    private snapshotKey(): string {
+        return 'leaderboard:snapshot';
+    }
+
+    private previousSnapshotKey(): string {
+        return 'leaderboard:snapshot:previous';
+    }
+
+    private classKey(tokenId: number): string {
+        return `leaderboard:class:${tokenId}`;
+    }
+}
@@ -0,0 +1,208 @@
+// src/services/LedgerService.ts
+
+import {
+    IKeyValueStore,
+    ILedgerService,
+    LedgerAccount,
+    LedgerSource,
+    LedgerSourceType,
+    LedgerTransaction,
+    ServiceError
+} from '../utils/types';
+import { Service, Inject } from 'typedi';
+import { Tokens } from '../utils/types';
+import { randomUUID } from 'crypto';
+import logger from '../utils/Logger';
+
+// Counter-accounts for every character posting: rewards are paid out of the
+// treasury and spending flows to the matching sink, so all postings balance.
+const REWARD_ACCOUNT = 'system:treasury';
+const SPENDING_ACCOUNTS: Partial<Record<LedgerSourceType, string>> = {
+    purchase: 'system:merchant',
+    repair: 'system:smith'
+};
+
+const DEFAULT_HISTORY_LIMIT = 50;
+
+@Service(Tokens.LedgerService)
+export class LedgerService implements ILedgerService {
+    // Postings touch shared system accounts, so they run one at a time; this
+    // also keeps concurrent requests from overdrawing a character
+    private queue: Promise<unknown> = Promise.resolve();
+
+    constructor(
+        @Inject(Tokens.Store) private store: IKeyValueStore
+    ) {}
+
+    async getBalance(tokenId: number): Promise<number> {
+        const account = await this.store.get<LedgerAccount>(this.accountKey(this.characterAccount(tokenId)));
+        return account?.balance || 0;
+    }
+
+    async getHistory(
+        tokenId: number,
+        options: { limit?: number; offset?: number } = {}
+    ): Promise<LedgerTransaction[]> {
+        const transactions = await this.store.get<LedgerTransaction[]>(this.historyKey(tokenId)) || [];
+        const offset = options.offset || 0;
+        const limit = options.limit || DEFAULT_HISTORY_LIMIT;
+
+        // Newest first
+        return transactions.slice().reverse().slice(offset, offset + limit);
+    }
+
+    async credit(
+        tokenId: number,
+        amount: number,
+        options: { reason: string; source: LedgerSource; rewardKey?: string }
+    ): Promise<LedgerTransaction> {
+        this.assertAmount(amount);
+
+        return this.serialize(async () => {
+            if (options.rewardKey) {
+                const existing = await this.store.get<LedgerTransaction>(this.rewardKey(options.rewardKey));
+                if (existing) {
+                    logger.warn('Reward already credited', { tokenId, rewardKey: options.rewardKey });
+                    return existing;
+                }
+            }
+
+            // A credit for spending is a refund, paid back out of the account that took the gold
+            const counterAccount = SPENDING_ACCOUNTS[options.source.type] || REWARD_ACCOUNT;
+            const transaction = await this.post(tokenId, 'credit', amount, options, counterAccount);
+
+            if (options.rewardKey) {
+                await this.store.set(this.rewardKey(options.rewardKey), transaction);
+            }
+
+            return transaction;
+        });
+    }
+
+    async debit(
+        tokenId: number,
+        amount: number,
+        options: { reason: string; source: LedgerSource }
+    ): Promise<LedgerTransaction> {
+        this.assertAmount(amount);
+
+        const counterAccount = SPENDING_ACCOUNTS[options.source.type];
+        if (!counterAccount) {
+            const serviceError = new ServiceError(`Gold cannot be spent on ${options.source.type}`);
+            serviceError.code = 'INVALID_LEDGER_SOURCE';
+            serviceError.statusCode = 400;
+            throw serviceError;
+        }
+
+        return this.serialize(async () => {
+            const balance = await this.getBalance(tokenId);
+            if (balance < amount) {
+                const serviceError = new ServiceError(`Insufficient gold: balance ${balance}, required ${amount}`);
+                serviceError.code = 'INSUFFICIENT_FUNDS';
+                serviceError.statusCode = 409;
+                throw serviceError;
+            }
+
+            return this.post(tokenId, 'debit', amount, options, counterAccount);
+        });
+    }
+
+    private async post(
+        tokenId: number,
+        kind: LedgerTransaction['kind'],
+        amount: number,
+        options: { reason: string; source: LedgerSource; rewardKey?: string },
+        counterAccount: string
+    ): Promise<LedgerTransaction> {
+        const characterAccount = this.characterAccount(tokenId);
+
+        // A credit to the character is a debit to the counter-account and vice versa
+        const entries = kind === 'credit'
+            ? [
+                { account: characterAccount, debit: 0, credit: amount },
+                { account: counterAccount, debit: amount, credit: 0 }
+            ]
+            : [
+                { account: characterAccount, debit: amount, credit: 0 },
+                { account: counterAccount, debit: 0, credit: amount }
+            ];
+
+        const balances: number[] = [];
+        for (const entry of entries) {
+            balances.push(await this.applyEntry(entry));
+        }
+
+        const transaction: LedgerTransaction = {
+            id: randomUUID(),
+            tokenId,
+            kind,
+            amount,
+            reason: options.reason,
+            source: options.source,
+            entries,
+            balanceAfter: balances[0],
+            rewardKey: options.rewardKey,
+            createdAt: new Date().toISOString()
+        };
+
+        const history = await this.store.get<LedgerTransaction[]>(this.historyKey(tokenId)) || [];
+        await this.store.set(this.historyKey(tokenId), [...history, transaction]);
+
+        logger.info('Ledger transaction posted', {
+            tokenId,
+            transactionId: transaction.id,
+            kind,
+            amount,
+            source: options.source,
+            balanceAfter: transaction.balanceAfter
+        });
+
+        return transaction;
+    }
+
+    private async applyEntry(entry: { account: string; debit: number; credit: number }): Promise<number> {
+        const key = this.accountKey(entry.account);
+        const account = await this.store.get<LedgerAccount>(key);
+        const balance = (account?.balance || 0) + entry.credit - entry.debit;
+
+        await this.store.set(key, {
+            id: entry.account,
+            balance,
+            updatedAt: new Date().toISOString()
+        });
+
+        return balance;
+    }
+
+    private serialize<T>(task: () => Promise<T>): Promise<T> {
+        const result = this.queue.then(task);
+        // A failed posting must not block the ones queued behind it
+        this.queue = result.catch(() => undefined);
+        return result;
+    }
+
+    private assertAmount(amount: number): void {
+        if (!Number.isInteger(amount) || amount <= 0) {
+            const serviceError = new ServiceError(`Invalid gold amount: ${amount}`);
+            serviceError.code = 'INVALID_AMOUNT';
+            serviceError.statusCode = 400;
+            throw serviceError;
+        }
+    }
+
+    private characterAccount(tokenId: number): string {
+        return `character:${tokenId}`;
+    }
+
+    private accountKey(accountId: string): string {
+        return `ledger:account:${accountId}`;
+    }
+
+    private historyKey(tokenId: number): string {
+        return `ledger:transactions:${tokenId}`;
+    }
+
+    private rewardKey(rewardKey: string): string {
+        return `ledger:reward:${rewardKey}`;
+    }
+}
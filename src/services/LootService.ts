@@ -0,0 +1,201 @@
+// src/services/LootService.ts
+
+import {
+    EncounterDifficulty,
+    IItemCatalogService,
+    ILootService,
+    LootDrop,
+    LootQuantity,
+    LootTable,
+    ServiceError
+} from '../utils/types';
+import { Service, Inject } from 'typedi';
+import { Tokens } from '../utils/types';
+import { createSeededRandom, RandomSource } from '../utils/dice';
+import * as fs from 'fs';
+import * as path from 'path';
+import logger from '../utils/Logger';
+
+// Guards against loot tables that reference each other in a loop
+const MAX_TABLE_DEPTH = 5;
+
+const QUEST_TABLE = 'quest-completion';
+
+@Service(Tokens.LootService)
+export class LootService implements ILootService {
+    private readonly tables = new Map<string, LootTable>();
+
+    constructor(
+        @Inject(Tokens.ItemCatalogService) private itemCatalog: IItemCatalogService,
+        tablesPath: string = process.env.LOOT_TABLES_PATH || path.join(__dirname, '../data/loot-tables.json')
+    ) {
+        this.load(tablesPath);
+    }
+
+    rollTable(
+        tableId: string,
+        options: { characterLevel: number; seed?: string | number }
+    ): LootDrop {
+        const random = options.seed !== undefined ? createSeededRandom(options.seed) : Math.random;
+        const drop: LootDrop = { gold: 0, items: [] };
+        this.roll(tableId, options.characterLevel, random, drop, 0);
+        return drop;
+    }
+
+    generateCombatLoot(options: {
+        lootTables: string[];
+        difficulty: EncounterDifficulty;
+        characterLevel: number;
+        seed: string | number;
+    }): LootDrop {
+        const random = createSeededRandom(options.seed);
+        const drop: LootDrop = { gold: 0, items: [] };
+
+        // Each defeated monster drops from its own table, then the encounter pays out once
+        for (const tableId of options.lootTables) {
+            this.roll(tableId, options.characterLevel, random, drop, 0);
+        }
+        this.roll(`encounter-${options.difficulty}`, options.characterLevel, random, drop, 0);
+
+        return drop;
+    }
+
+    generateQuestLoot(options: {
+        characterLevel: number;
+        seed: string | number;
+        suggestedItems?: string[];
+    }): LootDrop {
+        const random = createSeededRandom(options.seed);
+        const drop: LootDrop = { gold: 0, items: [] };
+        this.roll(QUEST_TABLE, options.characterLevel, random, drop, 0);
+
+        // The questline may promise specific rewards; honour those that exist in the catalog
+        for (const name of options.suggestedItems || []) {
+            const item = this.itemCatalog.findItemByName(name);
+            if (item) {
+                this.addItem(drop, item.id, 1);
+            } else {
+                logger.debug('Ignoring unknown quest reward item', { name });
+            }
+        }
+
+        return drop;
+    }
+
+    private roll(
+        tableId: string,
+        characterLevel: number,
+        random: RandomSource,
+        drop: LootDrop,
+        depth: number
+    ): void {
+        if (depth >= MAX_TABLE_DEPTH) {
+            logger.warn('Loot table nesting limit reached', { tableId });
+            return;
+        }
+
+        const table = this.tables.get(tableId);
+        if (!table) {
+            logger.warn('Unknown loot table', { tableId });
+            return;
+        }
+
+        if (table.gold) {
+            drop.gold += this.randomInt(table.gold.min, table.gold.max, random);
+        }
+
+        for (const guaranteed of table.guaranteed || []) {
+            this.addItem(drop, guaranteed.item, this.resolveQuantity(guaranteed.quantity, random));
+        }
+
+        const entries = table.entries.filter((entry) =>
+            (entry.minLevel === undefined || characterLevel >= entry.minLevel) &&
+            (entry.maxLevel === undefined || characterLevel <= entry.maxLevel)
+        );
+        const totalWeight = entries.reduce((total, entry) => total + entry.weight, 0);
+        if (totalWeight <= 0) {
+            return;
+        }
+
+        for (let i = 0; i < (table.rolls ?? 1); i++) {
+            let target = random() * totalWeight;
+            const entry = entries.find((candidate) => (target -= candidate.weight) < 0) || entries[entries.length - 1];
+
+            if (entry.table) {
+                this.roll(entry.table, characterLevel, random, drop, depth + 1);
+            } else if (entry.item) {
+                this.addItem(drop, entry.item, this.resolveQuantity(entry.quantity, random));
+            }
+            // Entries with neither an item nor a table are "nothing" results
+        }
+    }
+
+    private addItem(drop: LootDrop, itemId: string, quantity: number): void {
+        const item = this.itemCatalog.getItem(itemId);
+        const existing = drop.items.find((entry) => entry.itemId === itemId);
+
+        if (existing) {
+            existing.quantity += quantity;
+            return;
+        }
+
+        drop.items.push({
+            itemId,
+            name: item.name,
+            rarity: item.rarity,
+            quantity
+        });
+    }
+
+    private resolveQuantity(quantity: LootQuantity | undefined, random: RandomSource): number {
+        if (quantity === undefined) {
+            return 1;
+        }
+        if (typeof quantity === 'number') {
+            return quantity;
+        }
+        return this.randomInt(quantity.min, quantity.max, random);
+    }
+
+    private randomInt(min: number, max: number, random: RandomSource): number {
+        return Math.floor(random() * (max - min + 1)) + min;
+    }
+
+    private load(tablesPath: string): void {
+        if (!fs.existsSync(tablesPath)) {
+            const serviceError = new ServiceError(`Loot tables not found: ${tablesPath}`);
+            serviceError.code = 'LOOT_TABLES_LOAD_FAILED';
+            serviceError.statusCode = 500;
+            throw serviceError;
+        }
+
+        const tables: LootTable[] = JSON.parse(fs.readFileSync(tablesPath, 'utf8'));
+        for (const table of tables) {
+            this.tables.set(table.id, table);
+        }
+
+        // Validate references only once every table is known, so order in the file doesn't matter
+        for (const table of tables) {
+            const references = [
+                ...table.entries.map((entry) => entry.item),
+                ...(table.guaranteed || []).map((entry) => entry.item)
+            ].filter((id): id is string => id !== undefined);
+
+            const unknownItems = references.filter((id) => !this.itemCatalog.findItem(id));
+            const unknownTables = table.entries
+                .map((entry) => entry.table)
+                .filter((id): id is string => id !== undefined && !this.tables.has(id));
+
+            if (unknownItems.length > 0 || unknownTables.length > 0) {
+                const serviceError = new ServiceError(
+                    `Loot table ${table.id} references unknown ${[...unknownItems, ...unknownTables].join(', ')}`
+                );
+                serviceError.code = 'LOOT_TABLES_LOAD_FAILED';
+                serviceError.statusCode = 500;
+                throw serviceError;
+            }
+        }
+
+        logger.info('Loot tables loaded', { tables: this.tables.size, tablesPath });
+    }
+}
@@ -0,0 +1,359 @@
+// src/services/MetadataService.ts
+
+import {
+    CharacterMetadata,
+    CharacterUpdate,
+    IIndexerService,
+    IInventoryService,
+    IIPFSService,
+    IKeyValueStore,
+    IMetadataService,
+    ITransactionManager,
+    IWalletService,
+    MetadataRefreshResult,
+    MetadataVersion,
+    ServiceError
+} from '../utils/types';
+import { Service, Inject } from 'typedi';
+import { Tokens } from '../utils/types';
+import { getActiveDeployment } from '../chain/deployments';
+import logger from '../utils/Logger';
+
+// On-chain events that leave the pinned attributes stale
+const REFRESH_EVENTS = ['LevelUp', 'CharacterEvolved'];
+
+const STAT_TRAITS: Record<string, string> = {
+    strength: 'Strength',
+    dexterity: 'Dexterity',
+    constitution: 'Constitution',
+    intelligence: 'Intelligence',
+    wisdom: 'Wisdom',
+    charisma: 'Charisma'
+};
+
+// Traits InventoryService.getEquipmentAttributes writes; an empty slot drops its trait
+const EQUIPMENT_TRAITS = ['Weapon', 'Armor', 'Accessory'];
+
+@Service(Tokens.MetadataService)
+export class MetadataService implements IMetadataService {
+    private contractConfig: any;
+    // Tokens waiting in the refresh queue, so bursts of level-ups collapse into one refresh
+    private readonly queued = new Set<number>();
+    private readonly refreshing = new Set<number>();
+    private queue: Promise<void> = Promise.resolve();
+    private unsubscribers: Array<() => void> = [];
+    // Equipment refreshes waiting out their interval, so toggling gear can't
+    // send a pin and a transaction per change
+    private readonly equipmentTimers = new Map<number, NodeJS.Timeout>();
+
+    constructor(
+        @Inject(Tokens.WalletService) private walletService: IWalletService,
+        @Inject(Tokens.IPFSService) private ipfsService: IIPFSService,
+        @Inject(Tokens.IndexerService) private indexerService: IIndexerService,
+        @Inject(Tokens.InventoryService) private inventoryService: IInventoryService,
+        @Inject(Tokens.Store) private store: IKeyValueStore,
+        @Inject(Tokens.TransactionManager) private transactionManager: ITransactionManager,
+        private equipmentRefreshIntervalMs: number = Number(process.env.METADATA_EQUIPMENT_INTERVAL_MS) || 15 * 60 * 1000
+    ) {
+        try {
+            this.contractConfig = getActiveDeployment('DnDCharacterNFT');
+        } catch (error) {
+            logger.warn('Contract configuration not loaded - deployment may be pending');
+            this.contractConfig = null;
+        }
+    }
+
+    start(): void {
+        if (this.unsubscribers.length > 0 || !this.contractConfig) {
+            return;
+        }
+        if (!this.supportsTokenURIUpdates()) {
+            logger.warn('Deployed contract has no setTokenURI, metadata refresh disabled');
+            return;
+        }
+
+        this.unsubscribers = [
+            this.indexerService.onCharacterUpdated((update) => this.handleUpdate(update)),
+            // Equipped gear is shown as traits, so a changed loadout needs new metadata too
+            this.inventoryService.onEquipmentChanged((tokenId) => this.scheduleEquipmentRefresh(tokenId))
+        ];
+        logger.info('Metadata refresh started');
+    }
+
+    async refreshMetadata(tokenId: number, reason: string = 'manual'): Promise<MetadataRefreshResult> {
+        this.assertConfigured();
+
+        if (this.refreshing.has(tokenId)) {
+            const serviceError = new ServiceError('A metadata refresh is already running for this character');
+            serviceError.code = 'METADATA_REFRESH_IN_PROGRESS';
+            serviceError.statusCode = 409;
+            throw serviceError;
+        }
+        this.refreshing.add(tokenId);
+
+        try {
+            const args = { tokenId: tokenId.toString() };
+            const [character, tokenURI] = await Promise.all([
+                this.walletService.readContract(this.contractConfig.address, 'getCharacter', args),
+                this.walletService.readContract(this.contractConfig.address, 'tokenURI', args)
+            ]).catch((error) => {
+                const message = error instanceof Error ? error.message : 'Unknown error';
+                const serviceError = new ServiceError(`Failed to read character ${tokenId}: ${message}`);
+                serviceError.code = 'CHARACTER_NOT_FOUND';
+                serviceError.statusCode = 404;
+                throw serviceError;
+            });
+
+            const currentUri = String(tokenURI);
+            const current = JSON.parse(
+                (await this.ipfsService.getContent(currentUri)).toString('utf8')
+            ) as CharacterMetadata;
+            const history = await this.loadHistory(tokenId, currentUri, current);
+
+            const level = Number(character.level);
+            const [indexed, equipment] = await Promise.all([
+                this.indexerService.getCharacter(tokenId),
+                this.inventoryService.getEquipmentAttributes(tokenId)
+            ]);
+            const metadata = this.regenerate(current, {
+                level,
+                stats: Object.keys(STAT_TRAITS).reduce((stats, stat) => ({
+                    ...stats,
+                    [stat]: Number(character[stat])
+                }), {} as Record<string, number>),
+                evolvedInto: indexed?.evolvedInto,
+                equipment
+            });
+
+            const latest = history[history.length - 1];
+            if (JSON.stringify(metadata.attributes) === JSON.stringify(current.attributes)) {
+                return { tokenId, status: 'unchanged', metadataUri: currentUri, version: latest.version };
+            }
+
+            const version = latest.version + 1;
+            const metadataUri = await this.ipfsService.uploadMetadata(metadata, {
+                name: `${metadata.name}_metadata_v${version}`
+            });
+
+            const operation = this.operation(tokenId, version);
+            let transactionHash: string;
+            try {
+                const result = await this.walletService.invokeContract(
+                    this.contractConfig.address,
+                    'setTokenURI',
+                    [tokenId, metadataUri],
+                    this.contractConfig.abi,
+                    { operation }
+                );
+                transactionHash = result.hash!;
+            } catch (error) {
+                const message = error instanceof Error ? error.message : 'Unknown error';
+                const sent = (await this.transactionManager.getTransactionsByOperation(operation))
+                    .find((transaction) => transaction.status !== 'failed');
+
+                if (sent) {
+                    // Timed out but may still be mined, so the token may end up
+                    // pointing at the new pin; the next refresh or history read settles it
+                    await this.store.set(this.historyKey(tokenId), [
+                        ...history,
+                        {
+                            version,
+                            metadataUri,
+                            level,
+                            reason,
+                            transactionHash: sent.hash,
+                            status: 'pending',
+                            createdAt: new Date().toISOString()
+                        }
+                    ]);
+                    logger.warn('Token URI update not confirmed yet', { tokenId, version, transactionHash: sent.hash });
+
+                    const serviceError = new ServiceError(`Token URI update not confirmed yet: ${message}`);
+                    serviceError.code = 'METADATA_UPDATE_PENDING';
+                    serviceError.statusCode = 504;
+                    throw serviceError;
+                }
+
+                // Never sent or reverted, so the new pin is unreferenced
+                await this.ipfsService.unpin(metadataUri).catch(() => false);
+                const serviceError = new ServiceError(`Failed to update token URI: ${message}`);
+                serviceError.code = 'METADATA_UPDATE_FAILED';
+                serviceError.statusCode = 502;
+                throw serviceError;
+            }
+
+            await this.store.set(this.historyKey(tokenId), [
+                ...history,
+                { version, metadataUri, level, reason, transactionHash, createdAt: new Date().toISOString() }
+            ]);
+
+            logger.info('Character metadata refreshed', { tokenId, version, metadataUri, reason });
+            return { tokenId, status: 'updated', metadataUri, version, transactionHash };
+        } finally {
+            this.refreshing.delete(tokenId);
+        }
+    }
+
+    async getHistory(tokenId: number): Promise<MetadataVersion[]> {
+        const history = await this.store.get<MetadataVersion[]>(this.historyKey(tokenId)) || [];
+        return this.settlePending(tokenId, history);
+    }
+
+    private handleUpdate(update: CharacterUpdate): void {
+        if (REFRESH_EVENTS.includes(update.event)) {
+            this.enqueueRefresh(update.tokenId, update.event);
+        }
+    }
+
+    // At most one equipment refresh per token per interval. It reads the
+    // loadout when it runs, so gear swapped back in the meantime changes nothing
+    private scheduleEquipmentRefresh(tokenId: number): void {
+        if (this.equipmentTimers.has(tokenId)) {
+            return;
+        }
+
+        const timer = setTimeout(() => {
+            this.equipmentTimers.delete(tokenId);
+            this.enqueueRefresh(tokenId, 'equipment');
+        }, this.equipmentRefreshIntervalMs);
+        timer.unref();
+        this.equipmentTimers.set(tokenId, timer);
+    }
+
+    private enqueueRefresh(tokenId: number, reason: string): void {
+        if (this.queued.has(tokenId)) {
+            return;
+        }
+        this.queued.add(tokenId);
+
+        // One refresh at a time keeps the backend wallet's transactions in order
+        this.queue = this.queue.then(async () => {
+            this.queued.delete(tokenId);
+            try {
+                await this.refreshMetadata(tokenId, reason);
+            } catch (error) {
+                logger.error('Metadata refresh failed', {
+                    tokenId,
+                    reason,
+                    error: error instanceof Error ? error.message : 'Unknown error'
+                });
+            }
+        });
+    }
+
+    // Resolves versions whose setTokenURI transaction timed out. A failed one
+    // never became the token URI, so its pin is released
+    private async settlePending(tokenId: number, history: MetadataVersion[]): Promise<MetadataVersion[]> {
+        const pending = history.filter((entry) => entry.status === 'pending');
+        if (pending.length === 0) {
+            return history;
+        }
+
+        let changed = false;
+        for (const entry of pending) {
+            const transactions = await this.transactionManager.getTransactionsByOperation(
+                this.operation(tokenId, entry.version)
+            );
+            const confirmed = transactions.find((transaction) => transaction.status === 'confirmed');
+
+            if (confirmed) {
+                entry.transactionHash = confirmed.hash;
+                delete entry.status;
+                changed = true;
+            } else if (transactions.length > 0 && transactions.every((transaction) => transaction.status === 'failed')) {
+                await this.ipfsService.unpin(entry.metadataUri).catch(() => false);
+                entry.status = 'failed';
+                changed = true;
+            }
+        }
+
+        if (changed) {
+            await this.store.set(this.historyKey(tokenId), history);
+            logger.info('Settled pending metadata versions', { tokenId, versions: pending.map((entry) => entry.version) });
+        }
+        return history;
+    }
+
+    // Starts the history with the metadata the token was minted with
+    private async loadHistory(
+        tokenId: number,
+        currentUri: string,
+        current: CharacterMetadata
+    ): Promise<MetadataVersion[]> {
+        const history = await this.getHistory(tokenId);
+        if (history.length > 0) {
+            return history;
+        }
+
+        const level = current.attributes?.find((attr) => attr.trait_type === 'Level')?.value;
+        return [{
+            version: 1,
+            metadataUri: currentUri,
+            level: Number(level) || 1,
+            reason: 'mint',
+            createdAt: new Date().toISOString()
+        }];
+    }
+
+    // Replaces the traits derived from on-chain state and equipped gear, and
+    // keeps everything else
+    private regenerate(
+        metadata: CharacterMetadata,
+        state: {
+            level: number;
+            stats: Record<string, number>;
+            evolvedInto?: number;
+            equipment: CharacterMetadata['attributes'];
+        }
+    ): CharacterMetadata {
+        const values: Record<string, string | number | boolean> = { Level: state.level };
+        Object.entries(STAT_TRAITS).forEach(([stat, trait]) => {
+            values[trait] = state.stats[stat];
+        });
+        if (state.evolvedInto !== undefined) {
+            values['Evolved Into'] = state.evolvedInto;
+        }
+
+        state.equipment.forEach((attr) => {
+            values[attr.trait_type] = attr.value;
+        });
+
+        const attributes = (metadata.attributes || [])
+            .filter((attr) => !EQUIPMENT_TRAITS.includes(attr.trait_type) || attr.trait_type in values)
+            .map((attr) => attr.trait_type in values ? { ...attr, value: values[attr.trait_type] } : attr);
+        Object.entries(values)
+            .filter(([trait]) => !attributes.some((attr) => attr.trait_type === trait))
+            .forEach(([trait_type, value]) => attributes.push({ trait_type, value }));
+
+        return { ...metadata, attributes };
+    }
+
+    private supportsTokenURIUpdates(): boolean {
+        return this.contractConfig.abi.some(
+            (entry: { type?: string; name?: string }) => entry.type === 'function' && entry.name === 'setTokenURI'
+        );
+    }
+
+    private assertConfigured(): void {
+        if (!this.contractConfig) {
+            const serviceError = new ServiceError('Contract configuration not loaded');
+            serviceError.code = 'CONTRACT_NOT_CONFIGURED';
+            serviceError.statusCode = 503;
+            throw serviceError;
+        }
+        if (!this.supportsTokenURIUpdates()) {
+            const serviceError = new ServiceError('Deployed contract does not support metadata updates; redeploy it');
+            serviceError.code = 'METADATA_UPDATE_UNSUPPORTED';
+            serviceError.statusCode = 501;
+            throw serviceError;
+        }
+    }
+
+    private operation(tokenId: number, version: number): string {
+        return `metadata:${tokenId}:v${version}`;
+    }
+
+    private historyKey(tokenId: number): string {
+        return `metadata:history:${tokenId}`;
+    }
+}
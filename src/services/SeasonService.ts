@@ -0,0 +1,293 @@
+// src/services/SeasonService.ts
+
+import {
+    IKeyValueStore,
+    ISeasonService,
+    ITransactionManager,
+    IWalletService,
+    SeasonActivity,
+    SeasonArchive,
+    SeasonInfo,
+    SeasonStanding,
+    ServiceError
+} from '../utils/types';
+import { Service, Inject } from 'typedi';
+import { Tokens } from '../utils/types';
+import { getActiveDeployment } from '../chain/deployments';
+import { withStoreLock } from '../utils/storeLock';
+import logger from '../utils/Logger';
+
+// Seasonal power rules: one point per EXPERIENCE_PER_POWER XP earned in the
+// season, plus a flat bonus for every quest completed
+const EXPERIENCE_PER_POWER = 100;
+const POWER_PER_QUEST = 25;
+
+@Service(Tokens.SeasonService)
+export class SeasonService implements ISeasonService {
+    private contractConfig: any;
+
+    constructor(
+        @Inject(Tokens.WalletService) private walletService: IWalletService,
+        @Inject(Tokens.Store) private store: IKeyValueStore,
+        @Inject(Tokens.TransactionManager) private transactionManager: ITransactionManager
+    ) {
+        try {
+            this.contractConfig = getActiveDeployment('DnDCharacterNFT');
+        } catch (error) {
+            logger.warn('Contract configuration not loaded - deployment may be pending');
+            this.contractConfig = null;
+        }
+    }
+
+    async getCurrentSeason(): Promise<SeasonInfo & { participants: number }> {
+        const season = await this.resolveCurrentSeason();
+        const participants = await this.store.keys(this.activityPrefix(season.seasonId));
+        return { ...season, participants: participants.length };
+    }
+
+    async recordActivity(
+        tokenId: number,
+        activity: { experience?: number; questsCompleted?: number },
+        activityKey?: string
+    ): Promise<void> {
+        // Season bookkeeping must never fail the gameplay action that triggered it
+        try {
+            const { seasonId } = await this.resolveCurrentSeason();
+            const key = this.activityKey(seasonId, tokenId);
+
+            if (activityKey && !await this.store.setIfAbsent(this.recordedKey(seasonId, activityKey), true)) {
+                logger.debug('Season activity already recorded', { tokenId, activityKey });
+                return;
+            }
+
+            await withStoreLock(this.store, key, async () => {
+                const current = await this.store.get<SeasonActivity>(key);
+                await this.store.set(key, {
+                    tokenId,
+                    seasonId,
+                    experience: (current?.experience || 0) + (activity.experience || 0),
+                    questsCompleted: (current?.questsCompleted || 0) + (activity.questsCompleted || 0),
+                    syncedPower: current?.syncedPower,
+                    updatedAt: new Date().toISOString()
+                });
+            });
+        } catch (error) {
+            logger.error('Failed to record season activity', {
+                tokenId,
+                activity,
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+
+    async getStandings(seasonId?: number): Promise<SeasonStanding[]> {
+        const current = await this.resolveCurrentSeason();
+        const targetSeason = seasonId ?? current.seasonId;
+
+        // Finished seasons are served from their archive
+        if (targetSeason !== current.seasonId) {
+            const archive = await this.getArchive(targetSeason);
+            if (!archive) {
+                const serviceError = new ServiceError(`No standings for season ${targetSeason}`);
+                serviceError.code = 'SEASON_NOT_FOUND';
+                serviceError.statusCode = 404;
+                throw serviceError;
+            }
+            return archive.standings;
+        }
+
+        return this.rankActivities(await this.listActivities(targetSeason));
+    }
+
+    async getArchive(seasonId: number): Promise<SeasonArchive | null> {
+        return this.store.get<SeasonArchive>(this.archiveKey(seasonId));
+    }
+
+    async syncSeasonalPower(): Promise<{ seasonId: number; updated: number[] }> {
+        const { seasonId } = await this.resolveCurrentSeason();
+        const activities = await this.listActivities(seasonId);
+        const updated: number[] = [];
+
+        for (const activity of activities) {
+            const power = this.calculateSeasonalPower(activity);
+            if (power === activity.syncedPower) {
+                continue;
+            }
+
+            try {
+                await this.walletService.invokeContract(
+                    this.contractConfig.address,
+                    'setSeasonalPower',
+                    [activity.tokenId, power],
+                    this.contractConfig.abi,
+                    { operation: `seasonal-power:${seasonId}:${activity.tokenId}` }
+                );
+            } catch (error) {
+                const message = error instanceof Error ? error.message : 'Unknown error';
+                const serviceError = new ServiceError(
+                    `Failed to set seasonal power for token ${activity.tokenId}: ${message}`
+                );
+                serviceError.code = 'SEASONAL_POWER_SYNC_FAILED';
+                serviceError.statusCode = 500;
+                throw serviceError;
+            }
+
+            // Activity recorded since the read above must survive this write
+            const key = this.activityKey(seasonId, activity.tokenId);
+            await withStoreLock(this.store, key, async () => {
+                const current = await this.store.get<SeasonActivity>(key) || activity;
+                await this.store.set(key, {
+                    ...current,
+                    syncedPower: power,
+                    updatedAt: new Date().toISOString()
+                });
+            });
+            updated.push(activity.tokenId);
+        }
+
+        logger.info('Seasonal power synced', { seasonId, updated: updated.length });
+        return { seasonId, updated };
+    }
+
+    async advanceSeason(expectedSeasonId: number): Promise<{ archived: SeasonArchive; current: SeasonInfo }> {
+        const seasonId = Number(await this.readCurrentSeason());
+
+        // A retry after an advance that timed out: the chain already moved on,
+        // so only the archive is missing
+        if (seasonId === expectedSeasonId + 1) {
+            return this.archiveSeason(expectedSeasonId);
+        }
+        if (seasonId !== expectedSeasonId) {
+            const serviceError = new ServiceError(
+                `Current season is ${seasonId}, not ${expectedSeasonId}`
+            );
+            serviceError.code = 'SEASON_MISMATCH';
+            serviceError.statusCode = 409;
+            throw serviceError;
+        }
+
+        // Settle the outgoing season on-chain before its power stops counting
+        await this.syncSeasonalPower();
+
+        const operation = `season-advance:${seasonId}`;
+        try {
+            // An advance still in flight from an earlier attempt is waited on, not sent twice
+            const earlier = (await this.transactionManager.getTransactionsByOperation(operation))
+                .find((transaction) => transaction.status !== 'failed');
+
+            if (earlier) {
+                await this.transactionManager.waitForTransaction(earlier.hash);
+            } else {
+                await this.walletService.invokeContract(
+                    this.contractConfig.address,
+                    'advanceSeason',
+                    [],
+                    this.contractConfig.abi,
+                    { operation }
+                );
+            }
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            const serviceError = new ServiceError(`Failed to advance season: ${message}`);
+            serviceError.code = 'SEASON_ADVANCE_FAILED';
+            serviceError.statusCode = 500;
+            throw serviceError;
+        }
+
+        return this.archiveSeason(seasonId);
+    }
+
+    // Activity is recorded against the chain's season, so once the chain has
+    // moved on the ended season's standings are final
+    private async archiveSeason(seasonId: number): Promise<{ archived: SeasonArchive; current: SeasonInfo }> {
+        const current = await this.resolveCurrentSeason();
+        const existing = await this.getArchive(seasonId);
+        if (existing) {
+            return { archived: existing, current };
+        }
+
+        const standings = this.rankActivities(await this.listActivities(seasonId));
+        const archived: SeasonArchive = {
+            seasonId,
+            startedAt: await this.store.get<string>(this.startedKey(seasonId)) || current.startedAt,
+            endedAt: current.startedAt,
+            standings
+        };
+        await this.store.set(this.archiveKey(seasonId), archived);
+
+        logger.info('Season advanced', {
+            endedSeason: seasonId,
+            currentSeason: current.seasonId,
+            participants: standings.length
+        });
+
+        return { archived, current };
+    }
+
+    private calculateSeasonalPower(activity: SeasonActivity): number {
+        return Math.floor(activity.experience / EXPERIENCE_PER_POWER) +
+            activity.questsCompleted * POWER_PER_QUEST;
+    }
+
+    private rankActivities(activities: SeasonActivity[]): SeasonStanding[] {
+        return activities
+            .map((activity) => ({
+                tokenId: activity.tokenId,
+                experience: activity.experience,
+                questsCompleted: activity.questsCompleted,
+                seasonalPower: this.calculateSeasonalPower(activity)
+            }))
+            .sort((a, b) => b.seasonalPower - a.seasonalPower || b.experience - a.experience || a.tokenId - b.tokenId)
+            .map((standing, index) => ({ rank: index + 1, ...standing }));
+    }
+
+    private async listActivities(seasonId: number): Promise<SeasonActivity[]> {
+        const keys = await this.store.keys(this.activityPrefix(seasonId));
+        const activities = await Promise.all(keys.map((key) => this.store.get<SeasonActivity>(key)));
+        return activities.filter((activity): activity is SeasonActivity => activity !== null);
+    }
+
+    // The chain is the source of truth, so a season advanced by another
+    // process or directly on the contract is picked up at once
+    private async resolveCurrentSeason(): Promise<SeasonInfo> {
+        const seasonId = Number(await this.readCurrentSeason());
+
+        // The chain doesn't record when a season began; the first sighting stands in
+        const startedAt = new Date().toISOString();
+        if (await this.store.setIfAbsent(this.startedKey(seasonId), startedAt)) {
+            return { seasonId, startedAt };
+        }
+        return { seasonId, startedAt: await this.store.get<string>(this.startedKey(seasonId)) || startedAt };
+    }
+
+    private async readCurrentSeason(): Promise<bigint> {
+        if (!this.contractConfig) {
+            const serviceError = new ServiceError('Contract configuration not loaded');
+            serviceError.code = 'CONTRACT_NOT_CONFIGURED';
+            serviceError.statusCode = 503;
+            throw serviceError;
+        }
+
+        return this.walletService.readContract(this.contractConfig.address, 'currentSeason', {});
+    }
+
+    private startedKey(seasonId: number): string {
+        return `season:${seasonId}:started`;
+    }
+
+    private activityPrefix(seasonId: number): string {
+        return `season:${seasonId}:activity:`;
+    }
+
+    private activityKey(seasonId: number, tokenId: number): string {
+        return `${this.activityPrefix(seasonId)}${tokenId}`;
+    }
+
+    private recordedKey(seasonId: number, activityKey: string): string {
+        return `season:${seasonId}:recorded:${activityKey}`;
+    }
+
+    private archiveKey(seasonId: number): string {
+        return `season:${seasonId}:archive`;
+    }
+}
@@ -0,0 +1,243 @@
+// src/services/SessionService.ts
+
+import {
+    AdventureSession,
+    IAIService,
+    IKeyValueStore,
+    ISessionService,
+    QuestCompletion,
+    Questline,
+    ServiceError,
+    SessionTurn
+} from '../utils/types';
+import { Service, Inject } from 'typedi';
+import { Tokens } from '../utils/types';
+import { randomUUID } from 'crypto';
+import logger from '../utils/Logger';
+
+// Turns kept verbatim in the prompt; anything older is folded into the summary.
+// The session itself keeps every turn.
+const MAX_RECENT_TURNS = 10;
+const TURNS_KEPT_AFTER_SUMMARY = 5;
+
+const DEFAULT_SCENE = 'Starting scene';
+
+@Service(Tokens.SessionService)
+export class SessionService implements ISessionService {
+    constructor(
+        @Inject(Tokens.Store) private store: IKeyValueStore,
+        @Inject(Tokens.AIService) private aiService: IAIService
+    ) {}
+
+    async startSession(
+        tokenId: number,
+        options: {
+            questId?: string;
+            quest?: Questline;
+            scene?: string;
+        } = {}
+    ): Promise<AdventureSession> {
+        const active = await this.getActiveSession(tokenId);
+
+        // Resume the running session unless the caller is switching quests
+        if (active && (!options.questId || active.questId === options.questId)) {
+            logger.info('Resuming adventure session', { tokenId, sessionId: active.id });
+            return active;
+        }
+
+        if (active) {
+            await this.endSession(tokenId);
+        }
+
+        const now = new Date().toISOString();
+        const session: AdventureSession = {
+            id: randomUUID(),
+            tokenId,
+            status: 'active',
+            questId: options.questId,
+            quest: options.quest,
+            questProgress: 0,
+            currentScene: options.scene || options.quest?.description || DEFAULT_SCENE,
+            summary: '',
+            turns: [],
+            summarizedTurns: 0,
+            totalExperience: 0,
+            startedAt: now,
+            updatedAt: now
+        };
+
+        await this.store.set(this.sessionKey(session.id), session);
+        await this.store.set(this.activeKey(tokenId), session.id);
+
+        logger.info('Adventure session started', {
+            tokenId,
+            sessionId: session.id,
+            questId: session.questId
+        });
+
+        return session;
+    }
+
+    async getActiveSession(tokenId: number): Promise<AdventureSession | null> {
+        const sessionId = await this.store.get<string>(this.activeKey(tokenId));
+        if (!sessionId) {
+            return null;
+        }
+        return this.getSession(sessionId);
+    }
+
+    async getSession(sessionId: string): Promise<AdventureSession | null> {
+        return this.store.get<AdventureSession>(this.sessionKey(sessionId));
+    }
+
+    async endSession(tokenId: number): Promise<AdventureSession> {
+        const session = await this.getActiveSession(tokenId);
+        if (!session) {
+            const serviceError = new ServiceError('No active session for this character');
+            serviceError.code = 'SESSION_NOT_FOUND';
+            serviceError.statusCode = 404;
+            throw serviceError;
+        }
+
+        const now = new Date().toISOString();
+        const ended: AdventureSession = {
+            ...session,
+            status: 'ended',
+            updatedAt: now,
+            endedAt: now
+        };
+
+        await this.store.set(this.sessionKey(ended.id), ended);
+        await this.store.delete(this.activeKey(tokenId));
+
+        logger.info('Adventure session ended', {
+            tokenId,
+            sessionId: ended.id,
+            turns: ended.turns.length,
+            totalExperience: ended.totalExperience
+        });
+
+        return ended;
+    }
+
+    async recordTurn(sessionId: string, turn: SessionTurn, nextScene?: string): Promise<AdventureSession> {
+        const session = await this.getSession(sessionId);
+        if (!session || session.status !== 'active') {
+            const serviceError = new ServiceError('Session is not active');
+            serviceError.code = 'SESSION_NOT_ACTIVE';
+            serviceError.statusCode = 409;
+            throw serviceError;
+        }
+
+        const updated: AdventureSession = {
+            ...session,
+            turns: [...session.turns, turn],
+            totalExperience: session.totalExperience + turn.experience,
+            questProgress: session.questProgress + (turn.outcome === 'success' ? 1 : 0),
+            currentScene: nextScene || session.currentScene,
+            updatedAt: new Date().toISOString()
+        };
+
+        if (updated.turns.length - updated.summarizedTurns > MAX_RECENT_TURNS) {
+            await this.summarizeOlderTurns(updated);
+        }
+
+        await this.store.set(this.sessionKey(updated.id), updated);
+        return updated;
+    }
+
+    async completeQuest(
+        sessionId: string,
+        completion: QuestCompletion
+    ): Promise<{ completion: QuestCompletion; claimed: boolean }> {
+        const session = await this.getSession(sessionId);
+        if (!session) {
+            const serviceError = new ServiceError('Session not found');
+            serviceError.code = 'SESSION_NOT_FOUND';
+            serviceError.statusCode = 404;
+            throw serviceError;
+        }
+
+        // Concurrent final turns can all see the quest as unfinished; only the
+        // first to record its completion may grant the rewards
+        if (!await this.store.setIfAbsent(this.completionKey(sessionId), completion)) {
+            const recorded = await this.store.get<QuestCompletion>(this.completionKey(sessionId));
+            logger.warn('Quest completion already recorded', { sessionId, questId: completion.questId });
+            return { completion: recorded || completion, claimed: false };
+        }
+
+        const updated: AdventureSession = {
+            ...session,
+            questCompletion: completion,
+            totalExperience: session.totalExperience + completion.experience,
+            updatedAt: new Date().toISOString()
+        };
+
+        await this.store.set(this.sessionKey(updated.id), updated);
+
+        logger.info('Quest completed', {
+            sessionId,
+            questId: completion.questId,
+            experience: completion.experience,
+            gold: completion.loot.gold
+        });
+
+        return { completion, claimed: true };
+    }
+
+    buildPromptContext(session: AdventureSession): {
+        sessionHistory: string[];
+        currentScene: string;
+    } {
+        const history = session.turns
+            .slice(session.summarizedTurns)
+            .map((turn) => this.formatTurn(turn));
+
+        return {
+            sessionHistory: session.summary
+                ? [`Story so far: ${session.summary}`, ...history]
+                : history,
+            currentScene: session.currentScene
+        };
+    }
+
+    private async summarizeOlderTurns(session: AdventureSession): Promise<void> {
+        const foldUntil = session.turns.length - TURNS_KEPT_AFTER_SUMMARY;
+        const olderTurns = session.turns.slice(session.summarizedTurns, foldUntil);
+
+        try {
+            session.summary = await this.aiService.summarizeSession(
+                session.summary,
+                olderTurns.map((turn) => this.formatTurn(turn))
+            );
+            session.summarizedTurns = foldUntil;
+
+            logger.debug('Session history summarized', {
+                sessionId: session.id,
+                foldedTurns: olderTurns.length
+            });
+        } catch (error) {
+            // Prompt with the unsummarized turns and try again on the next turn
+            logger.error('Session summarization failed', {
+                sessionId: session.id,
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+
+    private formatTurn(turn: SessionTurn): string {
+        return `Player: ${turn.action} | Game Master: ${turn.response} (${turn.outcome}, +${turn.experience} XP)`;
+    }
+
+    private sessionKey(sessionId: string): string {
+        return `session:${sessionId}`;
+    }
+
+    private completionKey(sessionId: string): string {
+        return `session:${sessionId}:completion`;
+    }
+
+    private activeKey(tokenId: number): string {
+        return `session:active:${tokenId}`;
+    }
+}
@@ -0,0 +1,346 @@
+// src/services/TransferService.ts
+
+import {
+    ICharacterService,
+    IIndexerService,
+    IKeyValueStore,
+    ISessionService,
+    ITransferService,
+    IWalletService,
+    ServiceError,
+    TransferAuthorization,
+    TransferResult,
+    TransferTypedData,
+    UnsignedTransaction
+} from '../utils/types';
+import { Service, Inject } from 'typedi';
+import { Tokens } from '../utils/types';
+import { ethers } from 'ethers';
+import { getNetworkConfig, getProvider } from '../chain/network';
+import { getActiveDeployment } from '../chain/deployments';
+import logger from '../utils/Logger';
+
+// EIP-712 domain; name matches the ERC721 name the contract was deployed with
+const DOMAIN_NAME = 'DnD Characters';
+const DOMAIN_VERSION = '1';
+const TRANSFER_TYPES: Record<string, ethers.TypedDataField[]> = {
+    CharacterTransfer: [
+        { name: 'from', type: 'address' },
+        { name: 'to', type: 'address' },
+        { name: 'tokenId', type: 'uint256' },
+        { name: 'nonce', type: 'uint256' },
+        { name: 'deadline', type: 'uint256' }
+    ]
+};
+const DEFAULT_AUTHORIZATION_TTL_SECONDS = 15 * 60;
+
+@Service(Tokens.TransferService)
+export class TransferService implements ITransferService {
+    private contractConfig: any;
+    private readonly contractInterface: ethers.Interface | null = null;
+    private readonly provider: ethers.JsonRpcProvider;
+    private readonly chainId: number;
+    private readonly authorizationTtlSeconds: number;
+    // Tokens with a transfer being verified or relayed right now
+    private pending = new Set<number>();
+
+    constructor(
+        @Inject(Tokens.WalletService) private walletService: IWalletService,
+        @Inject(Tokens.CharacterService) private characterService: ICharacterService,
+        @Inject(Tokens.SessionService) private sessionService: ISessionService,
+        @Inject(Tokens.IndexerService) private indexerService: IIndexerService,
+        @Inject(Tokens.Store) private store: IKeyValueStore
+    ) {
+        try {
+            this.contractConfig = getActiveDeployment('DnDCharacterNFT');
+            this.contractInterface = new ethers.Interface(this.contractConfig.abi);
+        } catch (error) {
+            logger.warn('Contract configuration not loaded - deployment may be pending');
+            this.contractConfig = null;
+        }
+
+        this.provider = getProvider();
+        this.chainId = getNetworkConfig().chainId;
+        this.authorizationTtlSeconds =
+            Number(process.env.TRANSFER_AUTHORIZATION_TTL_SECONDS) || DEFAULT_AUTHORIZATION_TTL_SECONDS;
+    }
+
+    async getAuthorizationRequest(tokenId: number, to: string): Promise<TransferTypedData> {
+        this.assertConfigured();
+        this.assertRecipient(to);
+
+        const owner = await this.characterService.getOwnerOf(tokenId);
+        this.assertNotSelfTransfer(owner, to);
+
+        return this.buildTypedData({
+            from: ethers.getAddress(owner),
+            to: ethers.getAddress(to),
+            tokenId,
+            nonce: await this.getNonce(tokenId),
+            deadline: Math.floor(Date.now() / 1000) + this.authorizationTtlSeconds
+        });
+    }
+
+    async transfer(
+        tokenId: number,
+        authorization: TransferAuthorization,
+        signature: string,
+        options: { relay?: boolean } = {}
+    ): Promise<TransferResult> {
+        this.assertConfigured();
+
+        if (this.pending.has(tokenId)) {
+            const serviceError = new ServiceError('A transfer for this character is already in progress');
+            serviceError.code = 'TRANSFER_IN_PROGRESS';
+            serviceError.statusCode = 409;
+            throw serviceError;
+        }
+        this.pending.add(tokenId);
+
+        try {
+            const owner = await this.verifyAuthorization(tokenId, authorization, signature);
+            const to = authorization.to.toLowerCase();
+
+            // The signature is single-use whichever way the transfer is executed. The
+            // claim is atomic, so a replay racing through another process loses here
+            const nonce = Number(authorization.nonce);
+            const claimTtl = Math.max(Number(authorization.deadline) - Math.floor(Date.now() / 1000), 0) + 1;
+            if (!await this.store.setIfAbsent(this.usedNonceKey(tokenId, nonce), true, claimTtl)) {
+                const serviceError = new ServiceError('Transfer authorization has already been used or superseded');
+                serviceError.code = 'TRANSFER_NONCE_MISMATCH';
+                serviceError.statusCode = 409;
+                throw serviceError;
+            }
+            await this.store.set(this.nonceKey(tokenId), nonce + 1);
+
+            const backendAddress = (await this.walletService.getBackendAddress()).toLowerCase();
+            const relayable = await this.isApprovedOperator(owner, backendAddress, tokenId);
+
+            if (relayable && options.relay !== false) {
+                return await this.relayTransfer(tokenId, owner, to);
+            }
+
+            logger.info('Returning unsigned character transfer', { tokenId, from: owner, to, relayable });
+            return {
+                tokenId,
+                from: owner,
+                to,
+                status: 'awaiting_signature',
+                transaction: this.buildTransaction(owner, 'safeTransferFrom(address,address,uint256)', [owner, to, tokenId]),
+                approvalTransaction: relayable
+                    ? undefined
+                    : this.buildTransaction(owner, 'setApprovalForAll', [backendAddress, true])
+            };
+        } finally {
+            this.pending.delete(tokenId);
+        }
+    }
+
+    async completeTransfer(tokenId: number, transactionHash: string): Promise<TransferResult> {
+        this.assertConfigured();
+
+        const receipt = await this.provider.getTransactionReceipt(transactionHash);
+        if (!receipt) {
+            const serviceError = new ServiceError('Transfer transaction has not been mined yet');
+            serviceError.code = 'TRANSFER_NOT_CONFIRMED';
+            serviceError.statusCode = 409;
+            throw serviceError;
+        }
+        if (receipt.status !== 1) {
+            const serviceError = new ServiceError('Transfer transaction reverted');
+            serviceError.code = 'TRANSFER_FAILED';
+            serviceError.statusCode = 502;
+            throw serviceError;
+        }
+
+        const transfer = receipt.logs
+            .filter((log) => log.address.toLowerCase() === String(this.contractConfig.address).toLowerCase())
+            .map((log) => this.contractInterface!.parseLog(log))
+            .find((parsed) => parsed?.name === 'Transfer' && Number(parsed.args.tokenId) === tokenId);
+
+        if (!transfer) {
+            const serviceError = new ServiceError('Transaction does not transfer this character');
+            serviceError.code = 'TRANSFER_NOT_FOUND';
+            serviceError.statusCode = 400;
+            throw serviceError;
+        }
+
+        const from = String(transfer.args.from).toLowerCase();
+        const to = String(transfer.args.to).toLowerCase();
+
+        // Index whoever owns the token now, in case it has moved on again since
+        await this.applyTransfer(tokenId, from, await this.characterService.getOwnerOf(tokenId), receipt.blockNumber);
+
+        return { tokenId, from, to, status: 'completed', transactionHash };
+    }
+
+    private async verifyAuthorization(
+        tokenId: number,
+        authorization: TransferAuthorization,
+        signature: string
+    ): Promise<string> {
+        if (Number(authorization.tokenId) !== tokenId) {
+            const serviceError = new ServiceError('Authorization was signed for a different character');
+            serviceError.code = 'INVALID_TRANSFER_AUTHORIZATION';
+            serviceError.statusCode = 400;
+            throw serviceError;
+        }
+        this.assertRecipient(authorization.to);
+
+        if (Number(authorization.deadline) < Math.floor(Date.now() / 1000)) {
+            const serviceError = new ServiceError('Transfer authorization has expired');
+            serviceError.code = 'TRANSFER_AUTHORIZATION_EXPIRED';
+            serviceError.statusCode = 400;
+            throw serviceError;
+        }
+        if (Number(authorization.nonce) !== await this.getNonce(tokenId)) {
+            const serviceError = new ServiceError('Transfer authorization has already been used or superseded');
+            serviceError.code = 'TRANSFER_NONCE_MISMATCH';
+            serviceError.statusCode = 409;
+            throw serviceError;
+        }
+
+        let signer: string;
+        try {
+            const typedData = this.buildTypedData(authorization);
+            signer = ethers.verifyTypedData(typedData.domain, typedData.types, typedData.message, signature);
+        } catch (error) {
+            const serviceError = new ServiceError('Transfer signature is malformed');
+            serviceError.code = 'INVALID_TRANSFER_SIGNATURE';
+            serviceError.statusCode = 400;
+            throw serviceError;
+        }
+
+        // Ownership is checked against the chain, not the indexer projection
+        const owner = await this.characterService.getOwnerOf(tokenId);
+        if (signer.toLowerCase() !== owner || authorization.from.toLowerCase() !== owner) {
+            logger.warn('Transfer authorization not signed by owner', { tokenId, signer, owner });
+            const serviceError = new ServiceError('Transfer must be signed by the current owner');
+            serviceError.code = 'TRANSFER_NOT_AUTHORIZED';
+            serviceError.statusCode = 403;
+            throw serviceError;
+        }
+        this.assertNotSelfTransfer(owner, authorization.to);
+
+        return owner;
+    }
+
+    private async relayTransfer(tokenId: number, from: string, to: string): Promise<TransferResult> {
+        let result: any;
+        try {
+            result = await this.walletService.invokeContract(
+                this.contractConfig.address,
+                'transferFrom',
+                [from, to, tokenId],
+                this.contractConfig.abi,
+                { operation: `transfer:${tokenId}:${to.toLowerCase()}` }
+            );
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            const serviceError = new ServiceError(`Failed to relay character transfer: ${message}`);
+            serviceError.code = 'TRANSFER_FAILED';
+            serviceError.statusCode = 502;
+            throw serviceError;
+        }
+
+        await this.applyTransfer(tokenId, from, to, result.blockNumber);
+
+        return { tokenId, from, to, status: 'completed', transactionHash: result.hash };
+    }
+
+    private async applyTransfer(tokenId: number, from: string, to: string, blockNumber: number): Promise<void> {
+        await this.indexerService.applyTransfer(tokenId, to, blockNumber);
+
+        // The previous owner's adventure must not carry over to the new one
+        const session = await this.sessionService.getActiveSession(tokenId);
+        if (session) {
+            await this.sessionService.endSession(tokenId);
+        }
+
+        logger.info('Character transferred', {
+            tokenId,
+            from,
+            to,
+            endedSession: session?.id
+        });
+    }
+
+    private async isApprovedOperator(owner: string, operator: string, tokenId: number): Promise<boolean> {
+        const [approvedForAll, approved] = await Promise.all([
+            this.walletService.readContract(this.contractConfig.address, 'isApprovedForAll', { owner, operator }),
+            this.walletService.readContract(this.contractConfig.address, 'getApproved', { tokenId: tokenId.toString() })
+        ]);
+
+        return Boolean(approvedForAll) || String(approved).toLowerCase() === operator;
+    }
+
+    private buildTypedData(authorization: TransferAuthorization): TransferTypedData {
+        return {
+            domain: {
+                name: DOMAIN_NAME,
+                version: DOMAIN_VERSION,
+                chainId: this.chainId,
+                verifyingContract: this.contractConfig.address
+            },
+            types: TRANSFER_TYPES,
+            primaryType: 'CharacterTransfer',
+            message: {
+                from: authorization.from,
+                to: authorization.to,
+                tokenId: Number(authorization.tokenId),
+                nonce: Number(authorization.nonce),
+                deadline: Number(authorization.deadline)
+            }
+        };
+    }
+
+    private buildTransaction(from: string, method: string, args: any[]): UnsignedTransaction {
+        return {
+            from,
+            to: this.contractConfig.address,
+            data: this.contractInterface!.encodeFunctionData(method, args),
+            value: '0',
+            chainId: this.chainId
+        };
+    }
+
+    private async getNonce(tokenId: number): Promise<number> {
+        return await this.store.get<number>(this.nonceKey(tokenId)) || 0;
+    }
+
+    private assertConfigured(): void {
+        if (!this.contractConfig) {
+            const serviceError = new ServiceError('Contract configuration not loaded');
+            serviceError.code = 'CONTRACT_NOT_CONFIGURED';
+            serviceError.statusCode = 503;
+            throw serviceError;
+        }
+    }
+
+    private assertRecipient(to: string): void {
+        if (!to || !ethers.isAddress(to) || BigInt(to) === BigInt(0)) {
+            const serviceError = new ServiceError('Invalid transfer recipient address');
+            serviceError.code = 'INVALID_TRANSFER_RECIPIENT';
+            serviceError.statusCode = 400;
+            throw serviceError;
+        }
+    }
+
+    private assertNotSelfTransfer(owner: string, to: string): void {
+        if (owner.toLowerCase() === to.toLowerCase()) {
+            const serviceError = new ServiceError('Character is already owned by the recipient');
+            serviceError.code = 'INVALID_TRANSFER_RECIPIENT';
+            serviceError.statusCode = 400;
+            throw serviceError;
+        }
+    }
+
+
+    private nonceKey(tokenId: number): string {
+        return `transfer:nonce:${tokenId}`;
+    }
+
+    private usedNonceKey(tokenId: number, nonce: number): string {
+        return `transfer:used:${tokenId}:${nonce}`;
+    }
+}
@@ -1,95 +1,45 @@
 // src/services/WalletService.ts
 
-import { Coinbase, Wallet, readContract } from "@coinbase/coinbase-sdk";
 import { ethers } from 'ethers';
-import * as fs from 'fs';
-import * as path from 'path';
-import { IWalletService, NetworkConfig, ServiceError } from '../utils/types';
+import {
+  ContractInvocationOptions,
+  ContractInvocationResult,
+  DecodedEvent,
+  IChainClient,
+  ITransactionManager,
+  IWalletService,
+  ServiceError
+} from '../utils/types';
+import { getActiveDeployment } from '../chain/deployments';
 import logger from '../utils/Logger';
 
+// The backend's wallet. Keys live in the configured chain client and every
+// transaction goes through the transaction manager.
 export class WalletService implements IWalletService {
-  private wallet: Wallet | null = null;
-  private ethersWallet: ethers.Wallet | null = null;
-  private readonly networkConfig: NetworkConfig;
-  private readonly storageDir: string;
   private readonly contractConfig: any;
   private readonly isDeployment: boolean;
 
-  constructor(isDeployment: boolean = false) {
+  constructor(
+    private readonly chainClient: IChainClient,
+    private readonly transactionManager: ITransactionManager,
+    isDeployment: boolean = false
+  ) {
     this.isDeployment = isDeployment;
     
     // Only check for contract config if not in deployment mode
     if (!isDeployment) {
-      const deploymentPath = path.join(__dirname, '../../deployments/DnDCharacterNFT.json');
-      if (!fs.existsSync(deploymentPath)) {
-        throw new Error('Contract configuration not found. Please run: npm run deploy');
-      }
-      this.contractConfig = JSON.parse(fs.readFileSync(deploymentPath, 'utf8'));
-    }
-
-    this.networkConfig = {
-      url: process.env.BASE_SEPOLIA_URL || 'https://sepolia.base.org',
-      chainId: parseInt(process.env.CHAIN_ID || '84532'),
-      name: process.env.NETWORK || 'base-sepolia'
-    };
-    this.storageDir = path.join(__dirname, '../../.wallet');
-    if (!fs.existsSync(this.storageDir)) {
-      fs.mkdirSync(this.storageDir, { recursive: true });
+      this.contractConfig = getActiveDeployment('DnDCharacterNFT');
     }
   }
 
   async initialize(): Promise<void> {
     try {
-      logger.info('Initializing wallet service');
-      
-      // Configure Coinbase SDK first
-      Coinbase.configure({
-        apiKeyName: process.env.CDP_API_KEY_NAME!,
-        privateKey: process.env.CDP_PRIVATE_KEY!.replace(/\\n/g, '\n')
-      });
-      logger.debug('Coinbase SDK configured');
-
-      const walletDataPath = path.join(this.storageDir, 'wallet.json');
-      
-      if (fs.existsSync(walletDataPath)) {
-        logger.info('Loading existing wallet');
-        const walletData = JSON.parse(fs.readFileSync(walletDataPath, 'utf8'));
-        this.wallet = await Wallet.import(walletData);
-      } else {
-        logger.info('Creating new wallet');
-        this.wallet = await Wallet.create({
-          networkId: Coinbase.networks.BaseSepolia,
-        });
-        
-        // Save wallet data
-        fs.writeFileSync(walletDataPath, JSON.stringify(await this.wallet.export()));
-        logger.debug('Wallet data saved');
-      }
-
-      // Initialize ethers wallet
-      const address = await this.wallet.getDefaultAddress();
-      const walletId = address.getId();
-      const privateKey = await address.export();
-      this.ethersWallet = new ethers.Wallet(privateKey);
-
-      // Check balance and request test tokens if needed
-      const balance = await this.wallet.listBalances();
-      const ethBalance = balance.get('eth') || '0';
-      const balanceInEth = ethBalance.toString();
-
-      logger.info('Current wallet balance', { balanceInEth });
-      logger.info('Wallet address', { walletId });
-
-      if (parseFloat(balanceInEth) < 0.1) {
-        logger.warn('Low balance detected, requesting test tokens');
-        await this.requestTestTokens();
-      }
-
+      logger.info('Initializing wallet service', { chainClient: this.chainClient.name });
+      await this.chainClient.initialize();
     } catch (error) {
       logger.error('Wallet initialization failed', {
         error: error instanceof Error ? error.message : 'Unknown error',
-        apiKeyName: process.env.CDP_API_KEY_NAME,
-        privateKeyPreview: process.env.CDP_PRIVATE_KEY?.substring(0, 10) + '...'
+        chainClient: this.chainClient.name
       });
       const serviceError = new ServiceError(`Wallet initialization failed: ${error}`);
       serviceError.code = 'WALLET_INIT_FAILED';
@@ -99,73 +49,40 @@ export class WalletService implements IWalletService {
   }
 
   async requestTestTokens(): Promise<void> {
-    if (!this.wallet) throw new Error('Wallet not initialized');
     try {
-      logger.info('Requesting test tokens from faucet');
-      const faucetTx = await this.wallet.faucet();
-      await faucetTx.wait();
-      logger.info('Successfully received test tokens');
+      await this.chainClient.requestTestTokens();
     } catch (error) {
       logger.error('Faucet request failed', { error });
       throw error;
     }
   }
 
-  async getPrivateKey(): Promise<string> {
-    if (!this.wallet) throw new Error('Wallet not initialized');
-    const address = await this.wallet.getDefaultAddress();
-    return await address.export();
-  }
-
-  getEthersWallet(): ethers.Wallet {
-    if (!this.ethersWallet) {
-      throw new Error('Wallet not initialized');
-    }
-    return this.ethersWallet;
+  async getSigner(): Promise<ethers.Signer> {
+    return this.chainClient.getSigner();
   }
 
   async getBalance(): Promise<string> {
-    if (!this.wallet) throw new Error('Wallet not initialized');
-    const balances = await this.wallet.listBalances();
-    return balances.toString();
+    return this.chainClient.getBalance();
   }
 
   async getAddress(): Promise<string> {
-    if (!this.wallet) throw new Error('Wallet not initialized');
-    const address = await this.wallet.getDefaultAddress();
-    return address.toString();
+    return this.chainClient.getAddress();
   }
 
+  // Calls any function in the ABI. Arguments may be positional or named after the
+  // ABI inputs. View and pure functions are read; anything else is sent as a
+  // transaction, waited on, and returned with its decoded events.
   async invokeContract(
     contractAddress: string,
     method: string,
-    args: any[],
-    abi: any[]
-  ): Promise<any> {
+    args: any[] | Record<string, any> = [],
+    abi: any[] = this.contractConfig?.abi,
+    options: ContractInvocationOptions = {}
+  ): Promise<ContractInvocationResult> {
     try {
-      if (!this.wallet) throw new Error('Wallet not initialized');
-      
-      let namedArgs: object = {};
-      
-      switch (method) {
-        case 'mint':
-          namedArgs = {
-            player: args[0],
-            stats: args[1].map((n: number) => n.toString()),
-            tokenURI: args[2]
-          };
-          break;
-        case 'transferFrom':
-        case 'safeTransferFrom':
-          namedArgs = {
-            from: args[0],
-            to: args[1],
-            tokenId: args[2].toString()
-          };
-          break;
-        default:
-          throw new Error(`Unsupported method: ${method}`);
-      }
+      const contractInterface = new ethers.Interface(abi);
+      const fragment = this.getFunction(contractInterface, method);
+      const namedArgs = this.toNamedArgs(fragment, args);
 
       logger.debug('Contract invocation details', {
         contractAddress,
@@ -173,29 +90,29 @@ export class WalletService implements IWalletService {
         args: namedArgs
       });
 
-      const tx = await this.wallet.invokeContract({
-        contractAddress,
+      if (fragment.constant) {
+        const result = await this.chainClient.readContract(contractAddress, method, namedArgs, abi);
+        return { kind: 'call', method, result, events: [] };
+      }
+
+      const { transaction, receipt } = await this.transactionManager.send({
+        to: contractAddress,
+        data: contractInterface.encodeFunctionData(fragment, fragment.inputs.map((input) => namedArgs[input.name])),
         method,
-        args: namedArgs,
-        abi
+        operation: options.operation,
+        confirmations: options.confirmations
       });
 
-      if (method === 'mint') {
-        // Wait for transaction confirmation
-        const receipt = await tx.wait();
-        const txHash = tx.getTransactionHash();
-        
-        logger.info('Transaction confirmed', { txHash });
-        logger.debug('Transaction receipt', { receipt });  // Detailed receipt only in debug mode
-        
-        return {
-          status: 'success',
-          hash: txHash,
-          receipt
-        };
-      }
-
-      return tx;
+      return {
+        kind: 'transaction',
+        method,
+        status: transaction.status,
+        hash: transaction.hash,
+        blockNumber: transaction.blockNumber,
+        transactionLink: transaction.transactionLink,
+        transaction,
+        events: this.decodeEvents(contractInterface, contractAddress, receipt.logs)
+      };
     } catch (error) {
       logger.error('Contract invocation error', {
         error: error instanceof Error ? error.message : 'Unknown error',
@@ -207,20 +124,16 @@ export class WalletService implements IWalletService {
   }
 
   async getDefaultAddress(): Promise<{ addressId: string }> {
-    if (!this.wallet) throw new Error('Wallet not initialized');
-    const address = await this.wallet.getDefaultAddress();
-    return { addressId: address.toString() };
+    return { addressId: await this.chainClient.getAddress() };
   }
 
   async getBackendAddress(): Promise<string> {
-    if (!this.wallet) throw new Error('Wallet not initialized');
-    const address = await this.wallet.getDefaultAddress();
-    return address.getId();
+    return this.chainClient.getAddress();
   }
 
   async getTokenId(contractAddress: string, abi: any[]): Promise<string> {
     try {
-        const result = await this.invokeContract(
+        const { result } = await this.invokeContract(
             contractAddress,
             'totalSupply',
             [],
@@ -238,7 +151,7 @@ export class WalletService implements IWalletService {
 
 async getTotalSupply(contractAddress: string, abi: any[]): Promise<number> {
   try {
-      const result = await this.invokeContract(
+      const { result } = await this.invokeContract(
           contractAddress,
           'totalSupply',
           [],
@@ -256,13 +169,13 @@ async getTotalSupply(contractAddress: string, abi: any[]): Promise<number> {
 
 async getOwnerOf(contractAddress: string, tokenId: number, abi: any[]): Promise<string> {
   try {
-      const result = await this.invokeContract(
+      const { result } = await this.invokeContract(
           contractAddress,
           'ownerOf',
           [tokenId],
           abi
       );
-      return result.toLowerCase();
+      return String(result).toLowerCase();
   } catch (error) {
       logger.error('Error getting owner of token', {
           error: error instanceof Error ? error.message : 'Unknown error',
@@ -273,13 +186,89 @@ async getOwnerOf(contractAddress: string, tokenId: number, abi: any[]): Promise<
   }
 }
 
-async readContract(contractAddress: string, method: string, args: any = {}): Promise<any> {
-  return await readContract({
-    networkId: process.env.NETWORK_ID || 'base-sepolia',
-    contractAddress: contractAddress as `0x${string}`,
+async readContract(contractAddress: string, method: string, args: any[] | Record<string, any> = {}): Promise<any> {
+  const fragment = this.getFunction(new ethers.Interface(this.contractConfig.abi), method);
+  return await this.chainClient.readContract(
+    contractAddress,
     method,
-    args,  // Pass args directly as object
-    abi: this.contractConfig.abi as any
+    this.toNamedArgs(fragment, args),
+    this.contractConfig.abi
+  );
+}
+
+private getFunction(contractInterface: ethers.Interface, method: string): ethers.FunctionFragment {
+  const fragment = contractInterface.getFunction(method);
+  if (!fragment) {
+    const serviceError = new ServiceError(`Method ${method} not found in contract ABI`);
+    serviceError.code = 'UNKNOWN_CONTRACT_METHOD';
+    serviceError.statusCode = 500;
+    throw serviceError;
+  }
+  return fragment;
+}
+
+// Chain clients take arguments by ABI input name, with numbers as decimal
+// strings as the CDP SDK requires
+private toNamedArgs(fragment: ethers.FunctionFragment, args: any[] | Record<string, any>): Record<string, any> {
+  const positional = Array.isArray(args);
+  const count = positional ? args.length : Object.keys(args).length;
+  if (count !== fragment.inputs.length) {
+    const serviceError = new ServiceError(
+      `${fragment.format()} takes ${fragment.inputs.length} arguments, got ${count}`
+    );
+    serviceError.code = 'INVALID_CONTRACT_ARGUMENTS';
+    serviceError.statusCode = 500;
+    throw serviceError;
+  }
+
+  const namedArgs: Record<string, any> = {};
+  fragment.inputs.forEach((input, index) => {
+    const value = positional ? args[index] : (args as Record<string, any>)[input.name];
+    if (value === undefined) {
+      const serviceError = new ServiceError(`Missing argument ${input.name} for ${fragment.format()}`);
+      serviceError.code = 'INVALID_CONTRACT_ARGUMENTS';
+      serviceError.statusCode = 500;
+      throw serviceError;
+    }
+    namedArgs[input.name] = this.normalizeArg(value);
   });
+  return namedArgs;
+}
+
+private normalizeArg(value: any): any {
+  if (typeof value === 'number' || typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => this.normalizeArg(item));
+  }
+  if (value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    // Struct argument
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, this.normalizeArg(item)]));
+  }
+  return value;
+}
+
+private decodeEvents(
+  contractInterface: ethers.Interface,
+  contractAddress: string,
+  logs: readonly ethers.Log[]
+): DecodedEvent[] {
+  const events: DecodedEvent[] = [];
+  for (const log of logs) {
+    if (log.address.toLowerCase() !== contractAddress.toLowerCase()) {
+      continue;
+    }
+    const parsed = contractInterface.parseLog(log);
+    if (parsed) {
+      events.push({
+        name: parsed.name,
+        address: log.address,
+        logIndex: log.index,
+        args: parsed.args.toObject(true)
+      });
+    }
+  }
+  return events;
 }
 }
\ No newline at end of file
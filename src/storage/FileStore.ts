@@ -0,0 +1,193 @@
+// src/storage/FileStore.ts
+
+import * as fs from 'fs';
+import path from 'path';
+import { IKeyValueStore } from '../utils/types';
+import logger from '../utils/Logger';
+
+interface FileEntry {
+    value: string;
+    expiresAt?: number;
+}
+
+// One line of the append log; a record without an entry is a delete
+interface LogRecord {
+    key: string;
+    entry?: FileEntry;
+}
+
+// The log is folded into the snapshot once it outgrows both this and the snapshot
+const COMPACT_MIN_BYTES = 1024 * 1024;
+
+// Single-process persistent store for running without Redis. Writes are
+// appended to a log next to the snapshot, so each costs the size of the entry
+// rather than of the whole store. Writes that arrive while one is being
+// flushed go out together in the next append, and every write resolves once
+// its line is on disk.
+export class FileStore implements IKeyValueStore {
+    private readonly entries = new Map<string, FileEntry>();
+    private readonly logPath: string;
+    private pending: string[] = [];
+    // The append the next write joins, and the chain of appends before it
+    private scheduled: Promise<void> | null = null;
+    private writing: Promise<void> = Promise.resolve();
+    private logBytes = 0;
+    private snapshotBytes = 0;
+
+    constructor(private readonly filePath: string) {
+        this.logPath = `${filePath}.log`;
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+        if (fs.existsSync(filePath)) {
+            const snapshot = fs.readFileSync(filePath, 'utf8');
+            this.snapshotBytes = Buffer.byteLength(snapshot);
+            const stored: Record<string, FileEntry> = JSON.parse(snapshot);
+            for (const [key, entry] of Object.entries(stored)) {
+                this.entries.set(key, entry);
+            }
+        }
+        if (fs.existsSync(this.logPath)) {
+            const log = fs.readFileSync(this.logPath, 'utf8');
+            this.replayLog(log);
+            // End a line torn by a crash so the next append starts cleanly
+            if (log && !log.endsWith('\n')) {
+                fs.appendFileSync(this.logPath, '\n');
+            }
+        }
+
+        logger.info('File store loaded', { filePath, entries: this.entries.size, logBytes: this.logBytes });
+    }
+
+    async get<T>(key: string): Promise<T | null> {
+        const entry = this.entries.get(key);
+        if (!entry) {
+            return null;
+        }
+
+        if (this.isExpired(entry)) {
+            this.entries.delete(key);
+            return null;
+        }
+        return JSON.parse(entry.value) as T;
+    }
+
+    async set<T>(key: string, value: T, ttlSeconds?: number): Promise<void> {
+        const entry = this.createEntry(value, ttlSeconds);
+        this.entries.set(key, entry);
+        await this.append({ key, entry });
+    }
+
+    async setIfAbsent<T>(key: string, value: T, ttlSeconds?: number): Promise<boolean> {
+        // Checked and written without yielding, so concurrent callers can't both win
+        const existing = this.entries.get(key);
+        if (existing && !this.isExpired(existing)) {
+            return false;
+        }
+
+        const entry = this.createEntry(value, ttlSeconds);
+        this.entries.set(key, entry);
+        await this.append({ key, entry });
+        return true;
+    }
+
+    async delete(key: string): Promise<void> {
+        if (this.entries.delete(key)) {
+            await this.append({ key });
+        }
+    }
+
+    async keys(prefix: string): Promise<string[]> {
+        return Array.from(this.entries.entries())
+            .filter(([key, entry]) => key.startsWith(prefix) && !this.isExpired(entry))
+            .map(([key]) => key);
+    }
+
+    private createEntry<T>(value: T, ttlSeconds?: number): FileEntry {
+        return {
+            value: JSON.stringify(value),
+            expiresAt: ttlSeconds ? Date.now() + ttlSeconds * 1000 : undefined
+        };
+    }
+
+    private isExpired(entry: FileEntry): boolean {
+        return entry.expiresAt !== undefined && entry.expiresAt <= Date.now();
+    }
+
+    private replayLog(log: string): void {
+        this.logBytes = Buffer.byteLength(log);
+
+        for (const line of log.split('\n')) {
+            if (!line) {
+                continue;
+            }
+
+            let record: LogRecord;
+            try {
+                record = JSON.parse(line);
+            } catch (error) {
+                // Only the last line can be cut short, by a crash mid-append
+                logger.warn('Skipping unreadable file store log line', { logPath: this.logPath });
+                continue;
+            }
+
+            if (record.entry) {
+                this.entries.set(record.key, record.entry);
+            } else {
+                this.entries.delete(record.key);
+            }
+        }
+    }
+
+    private append(record: LogRecord): Promise<void> {
+        this.pending.push(`${JSON.stringify(record)}\n`);
+
+        if (!this.scheduled) {
+            const scheduled = this.writing.then(() => {
+                // Lines added from here on wait for the next append
+                this.scheduled = null;
+                return this.writePending();
+            });
+            this.scheduled = scheduled;
+            this.writing = scheduled.catch(() => undefined);
+        }
+        return this.scheduled;
+    }
+
+    private async writePending(): Promise<void> {
+        const lines = this.pending.join('');
+        this.pending = [];
+
+        await fs.promises.appendFile(this.logPath, lines);
+        this.logBytes += Buffer.byteLength(lines);
+
+        // The lines are already durable, so a failed compaction is retried on the next append
+        if (this.logBytes > Math.max(COMPACT_MIN_BYTES, this.snapshotBytes)) {
+            await this.compact().catch((error) => {
+                logger.error('File store compaction failed', {
+                    error: error instanceof Error ? error.message : 'Unknown error'
+                });
+            });
+        }
+    }
+
+    // Runs between appends, so nothing is added to the log while it is replaced.
+    // A crash before the log is emptied only replays writes the snapshot holds.
+    private async compact(): Promise<void> {
+        const live: Record<string, FileEntry> = {};
+        for (const [key, entry] of this.entries) {
+            if (!this.isExpired(entry)) {
+                live[key] = entry;
+            }
+        }
+
+        const snapshot = JSON.stringify(live);
+        const tempPath = `${this.filePath}.tmp`;
+        await fs.promises.writeFile(tempPath, snapshot);
+        await fs.promises.rename(tempPath, this.filePath);
+        await fs.promises.writeFile(this.logPath, '');
+
+        logger.debug('File store compacted', { entries: Object.keys(live).length, logBytes: this.logBytes });
+        this.snapshotBytes = Buffer.byteLength(snapshot);
+        this.logBytes = 0;
+    }
+}
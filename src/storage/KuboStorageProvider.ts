@@ -0,0 +1,46 @@
+// src/storage/KuboStorageProvider.ts
+
+import { IPFSUploadOptions, IStorageProvider } from '../utils/types';
+
+// Talks to a local Kubo (go-ipfs) node through its RPC API, by default on port 5001
+export class KuboStorageProvider implements IStorageProvider {
+    readonly name = 'kubo';
+    readonly defaultGatewayUrl = 'http://127.0.0.1:8080/ipfs';
+    private readonly apiUrl: string;
+
+    constructor(apiUrl: string) {
+        this.apiUrl = `${apiUrl.replace(/\/$/, '')}/api/v0`;
+    }
+
+    async addFile(data: Buffer, options: IPFSUploadOptions & { name: string }): Promise<string> {
+        const form = new FormData();
+        form.append('file', new Blob([data]), options.name);
+
+        // Same CID settings the local backend computes
+        const response = await this.call('add?cid-version=1&raw-leaves=true&pin=true', form);
+        const result = await response.json() as { Hash: string };
+        return result.Hash;
+    }
+
+    async addJSON(json: Record<string, any>, options: IPFSUploadOptions & { name: string }): Promise<string> {
+        return this.addFile(Buffer.from(JSON.stringify(json)), options);
+    }
+
+    async get(cid: string): Promise<Buffer> {
+        const response = await this.call(`cat?arg=${encodeURIComponent(cid)}`);
+        return Buffer.from(await response.arrayBuffer());
+    }
+
+    async remove(cid: string): Promise<void> {
+        await this.call(`pin/rm?arg=${encodeURIComponent(cid)}`);
+    }
+
+    // Every Kubo RPC endpoint is a POST
+    private async call(endpoint: string, body?: FormData): Promise<Response> {
+        const response = await fetch(`${this.apiUrl}/${endpoint}`, { method: 'POST', body });
+        if (!response.ok) {
+            throw new Error(`Kubo API error ${response.status}: ${(await response.text()).trim()}`);
+        }
+        return response;
+    }
+}
@@ -0,0 +1,68 @@
+// src/storage/LocalStorageProvider.ts
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { IPFSUploadOptions, IStorageProvider } from '../utils/types';
+import { computeCid, isCid } from '../utils/cid';
+
+// Offline stand-in for IPFS. Content is addressed by its real CIDv1, so the
+// ipfs:// URIs it hands out stay valid if the files are later added to a node.
+// Without a directory everything is kept in memory and lost on restart.
+export class LocalStorageProvider implements IStorageProvider {
+    readonly name: string;
+    readonly defaultGatewayUrl: string;
+    private readonly blocks = new Map<string, Buffer>();
+
+    constructor(gatewayUrl: string, private readonly directory?: string) {
+        this.name = directory ? 'local' : 'memory';
+        this.defaultGatewayUrl = gatewayUrl;
+    }
+
+    async addFile(data: Buffer, options: IPFSUploadOptions & { name: string }): Promise<string> {
+        const cid = computeCid(data);
+
+        if (this.directory) {
+            await fs.mkdir(this.directory, { recursive: true });
+            await fs.writeFile(this.pathFor(cid), data);
+        } else {
+            this.blocks.set(cid, Buffer.from(data));
+        }
+        return cid;
+    }
+
+    async addJSON(json: Record<string, any>, options: IPFSUploadOptions & { name: string }): Promise<string> {
+        return this.addFile(Buffer.from(JSON.stringify(json)), options);
+    }
+
+    async get(cid: string): Promise<Buffer> {
+        if (!this.directory) {
+            const data = this.blocks.get(cid);
+            if (!data) {
+                throw new Error(`Content not found: ${cid}`);
+            }
+            return Buffer.from(data);
+        }
+
+        try {
+            return await fs.readFile(this.pathFor(cid));
+        } catch (error) {
+            throw new Error(`Content not found: ${cid}`);
+        }
+    }
+
+    async remove(cid: string): Promise<void> {
+        if (!this.directory) {
+            this.blocks.delete(cid);
+            return;
+        }
+        await fs.rm(this.pathFor(cid), { force: true });
+    }
+
+    private pathFor(cid: string): string {
+        // CIDs name the files, so anything else could escape the directory
+        if (!isCid(cid)) {
+            throw new Error(`Invalid CID: ${cid}`);
+        }
+        return path.join(this.directory!, cid);
+    }
+}
@@ -0,0 +1,62 @@
+// src/storage/MemoryStore.ts
+
+import { IKeyValueStore } from '../utils/types';
+
+interface MemoryEntry {
+    value: string;
+    expiresAt?: number;
+}
+
+export class MemoryStore implements IKeyValueStore {
+    private readonly entries = new Map<string, MemoryEntry>();
+
+    async get<T>(key: string): Promise<T | null> {
+        const entry = this.entries.get(key);
+        if (!entry) {
+            return null;
+        }
+
+        if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+            this.entries.delete(key);
+            return null;
+        }
+
+        // Values are stored serialized so callers never share mutable state
+        return JSON.parse(entry.value) as T;
+    }
+
+    async set<T>(key: string, value: T, ttlSeconds?: number): Promise<void> {
+        this.entries.set(key, {
+            value: JSON.stringify(value),
+            expiresAt: ttlSeconds ? Date.now() + ttlSeconds * 1000 : undefined
+        });
+    }
+
+    async setIfAbsent<T>(key: string, value: T, ttlSeconds?: number): Promise<boolean> {
+        // Checked and written without yielding, so concurrent callers can't both win
+        const entry = this.entries.get(key);
+        if (entry && (entry.expiresAt === undefined || entry.expiresAt > Date.now())) {
+            return false;
+        }
+
+        this.entries.set(key, {
+            value: JSON.stringify(value),
+            expiresAt: ttlSeconds ? Date.now() + ttlSeconds * 1000 : undefined
+        });
+        return true;
+    }
+
+    async delete(key: string): Promise<void> {
+        this.entries.delete(key);
+    }
+
+    async keys(prefix: string): Promise<string[]> {
+        const now = Date.now();
+        return Array.from(this.entries.entries())
+            .filter(([key, entry]) =>
+                key.startsWith(prefix) &&
+                (entry.expiresAt === undefined || entry.expiresAt > now)
+            )
+            .map(([key]) => key);
+    }
+}
@@ -0,0 +1,50 @@
+// src/storage/PinataStorageProvider.ts
+
+import PinataSDK from '@pinata/sdk';
+import fetch from 'node-fetch';
+import { Readable } from 'stream';
+import { IPFSUploadOptions, IStorageProvider, PinataMetadata } from '../utils/types';
+
+export class PinataStorageProvider implements IStorageProvider {
+    readonly name = 'pinata';
+    readonly defaultGatewayUrl = 'https://ipfs.io/ipfs';
+    private readonly pinata: PinataSDK;
+    // Pinata has no read API for pinned content, so reads go through a gateway
+    private readonly gatewayUrl: string;
+
+    constructor(apiKey: string, apiSecret: string, gatewayUrl?: string) {
+        this.pinata = new PinataSDK(apiKey, apiSecret);
+        this.gatewayUrl = (gatewayUrl || this.defaultGatewayUrl).replace(/\/$/, '');
+    }
+
+    async addFile(data: Buffer, options: IPFSUploadOptions & { name: string }): Promise<string> {
+        // Pinata needs a stream it can name, not a bare buffer
+        const readableStream = new Readable();
+        readableStream.push(data);
+        readableStream.push(null);
+
+        const result = await this.pinata.pinFileToIPFS(readableStream, {
+            pinataMetadata: { name: options.name, keyvalues: options.keyvalues } as PinataMetadata
+        });
+        return result.IpfsHash;
+    }
+
+    async addJSON(json: Record<string, any>, options: IPFSUploadOptions & { name: string }): Promise<string> {
+        const result = await this.pinata.pinJSONToIPFS(json, {
+            pinataMetadata: { name: options.name, keyvalues: options.keyvalues } as PinataMetadata
+        });
+        return result.IpfsHash;
+    }
+
+    async get(cid: string): Promise<Buffer> {
+        const response = await fetch(`${this.gatewayUrl}/${cid}`);
+        if (!response.ok) {
+            throw new Error(`HTTP error! status: ${response.status}`);
+        }
+        return Buffer.from(await response.arrayBuffer());
+    }
+
+    async remove(cid: string): Promise<void> {
+        await this.pinata.unpin(cid);
+    }
+}
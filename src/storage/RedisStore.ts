@@ -0,0 +1,70 @@
+// src/storage/RedisStore.ts
+
+import Redis from 'ioredis';
+import { IKeyValueStore } from '../utils/types';
+import logger from '../utils/Logger';
+
+export class RedisStore implements IKeyValueStore {
+    private readonly client: Redis;
+
+    constructor(url: string, private readonly namespace: string = 'dnd') {
+        this.client = new Redis(url);
+        this.client.on('error', (error) => {
+            logger.error('Redis connection error', { error: error.message });
+        });
+    }
+
+    async get<T>(key: string): Promise<T | null> {
+        const value = await this.client.get(this.namespaced(key));
+        return value === null ? null : JSON.parse(value) as T;
+    }
+
+    async set<T>(key: string, value: T, ttlSeconds?: number): Promise<void> {
+        const serialized = JSON.stringify(value);
+        if (ttlSeconds) {
+            await this.client.set(this.namespaced(key), serialized, 'EX', ttlSeconds);
+        } else {
+            await this.client.set(this.namespaced(key), serialized);
+        }
+    }
+
+    async setIfAbsent<T>(key: string, value: T, ttlSeconds?: number): Promise<boolean> {
+        const serialized = JSON.stringify(value);
+        const result = ttlSeconds
+            ? await this.client.set(this.namespaced(key), serialized, 'EX', ttlSeconds, 'NX')
+            : await this.client.set(this.namespaced(key), serialized, 'NX');
+        return result === 'OK';
+    }
+
+    async delete(key: string): Promise<void> {
+        await this.client.del(this.namespaced(key));
+    }
+
+    async keys(prefix: string): Promise<string[]> {
+        const keys: string[] = [];
+        let cursor = '0';
+
+        // SCAN instead of KEYS so large keyspaces don't block the server
+        do {
+            const [nextCursor, batch] = await this.client.scan(
+                cursor,
+                'MATCH',
+                `${this.namespaced(prefix)}*`,
+                'COUNT',
+                100
+            );
+            cursor = nextCursor;
+            keys.push(...batch.map((key) => key.slice(this.namespace.length + 1)));
+        } while (cursor !== '0');
+
+        return keys;
+    }
+
+    async disconnect(): Promise<void> {
+        await this.client.quit();
+    }
+
+    private namespaced(key: string): string {
+        return `${this.namespace}:${key}`;
+    }
+}
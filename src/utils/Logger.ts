@@ -12,13 +12,15 @@ if (!fs.existsSync(logsDir)) {
 // Define levels explicitly
 const levels = {
   error: 0,
-  http: 1,
-  info: 2,
-  debug: 3
+  warn: 1,
+  http: 2,
+  info: 3,
+  debug: 4
 };
 
 const colors = {
   error: 'red',
+  warn: 'yellow',
   http: 'cyan',
   info: 'green',
   debug: 'gray'
@@ -0,0 +1,51 @@
+// src/utils/cid.ts
+
+import { createHash } from 'crypto';
+
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567';
+// Multicodec and multihash prefixes: CIDv1, raw codec, sha2-256 with a 32-byte digest
+const CID_V1 = 0x01;
+const RAW_CODEC = 0x55;
+const SHA2_256 = 0x12;
+const SHA2_256_LENGTH = 0x20;
+
+// Base32 CIDv1 strings (multibase prefix "b") as produced below
+const CID_V1_PATTERN = /^b[a-z2-7]{58}$/;
+// Base58 CIDv0 strings, still returned by Pinata
+const CID_V0_PATTERN = /^Qm[1-9A-HJ-NP-Za-km-z]{44}$/;
+
+function toBase32(bytes: Buffer): string {
+    let output = '';
+    let buffer = 0;
+    let bits = 0;
+
+    for (const byte of bytes) {
+        buffer = (buffer << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+    if (bits > 0) {
+        output += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+    }
+    return output;
+}
+
+// CIDv1 of the content as a single raw block. This is the CID
+// `ipfs add --cid-version 1 --raw-leaves` gives files up to one chunk (256 KiB);
+// larger files still get a valid CID, just not the one a chunked UnixFS DAG would have.
+export function computeCid(data: Buffer): string {
+    const digest = createHash('sha256').update(data).digest();
+    return `b${toBase32(Buffer.concat([Buffer.from([CID_V1, RAW_CODEC, SHA2_256, SHA2_256_LENGTH]), digest]))}`;
+}
+
+export function isCid(value: string): boolean {
+    return CID_V1_PATTERN.test(value) || CID_V0_PATTERN.test(value);
+}
+
+// "ipfs://<cid>" and a bare CID both resolve to the CID
+export function stripIpfsScheme(uri: string): string {
+    return uri.replace(/^ipfs:\/\//, '');
+}
@@ -0,0 +1,64 @@
+// src/utils/dice.ts
+
+// Returns a float in [0, 1), same contract as Math.random
+export type RandomSource = () => number;
+
+const DICE_PATTERN = /^(\d*)d(\d+)([+-]\d+)?$/i;
+
+export function rollDie(sides: number, random: RandomSource = Math.random): number {
+    return Math.floor(random() * sides) + 1;
+}
+
+// Rolls standard dice notation such as "d20", "2d6" or "1d8+3"
+export function rollDice(
+    notation: string,
+    random: RandomSource = Math.random,
+    options: { critical?: boolean } = {}
+): number {
+    const match = DICE_PATTERN.exec(notation.replace(/\s+/g, ''));
+    if (!match) {
+        throw new Error(`Invalid dice notation: ${notation}`);
+    }
+
+    const count = (match[1] ? parseInt(match[1], 10) : 1) * (options.critical ? 2 : 1);
+    const sides = parseInt(match[2], 10);
+    const modifier = match[3] ? parseInt(match[3], 10) : 0;
+
+    let total = modifier;
+    for (let i = 0; i < count; i++) {
+        total += rollDie(sides, random);
+    }
+    return Math.max(total, 0);
+}
+
+export function abilityModifier(score: number): number {
+    return Math.floor((score - 10) / 2);
+}
+
+export function proficiencyBonus(level: number): number {
+    return 2 + Math.floor((Math.max(level, 1) - 1) / 4);
+}
+
+// Deterministic generator (mulberry32) so a given seed always produces the
+// same rolls, e.g. loot for a specific encounter id.
+export function createSeededRandom(seed: string | number): RandomSource {
+    let state = typeof seed === 'number' ? seed >>> 0 : hashSeed(seed);
+
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+function hashSeed(seed: string): number {
+    // FNV-1a
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < seed.length; i++) {
+        hash ^= seed.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
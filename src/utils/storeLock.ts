@@ -0,0 +1,40 @@
+// src/utils/storeLock.ts
+
+import { randomUUID } from 'crypto';
+import { IKeyValueStore, ServiceError } from './types';
+
+// A holder that dies mid-task releases the lock when it expires
+const LOCK_TTL_SECONDS = 30;
+const LOCK_RETRY_MS = 50;
+const LOCK_WAIT_MS = 10000;
+
+// Runs a read-modify-write task while holding a lock in the shared store, so
+// it stays serialized across server processes and not just within one
+export async function withStoreLock<T>(
+    store: IKeyValueStore,
+    name: string,
+    task: () => Promise<T>
+): Promise<T> {
+    const key = `lock:${name}`;
+    const owner = randomUUID();
+    const deadline = Date.now() + LOCK_WAIT_MS;
+
+    while (!await store.setIfAbsent(key, owner, LOCK_TTL_SECONDS)) {
+        if (Date.now() >= deadline) {
+            const serviceError = new ServiceError(`Timed out waiting for lock ${name}`);
+            serviceError.code = 'LOCK_TIMEOUT';
+            serviceError.statusCode = 503;
+            throw serviceError;
+        }
+        await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+
+    try {
+        return await task();
+    } finally {
+        // An expired lock may already belong to someone else
+        if (await store.get<string>(key) === owner) {
+            await store.delete(key);
+        }
+    }
+}
@@ -30,6 +30,9 @@ export interface NetworkConfig {
   url: string;
   chainId: number;
   name: string;
+  // Network id the CDP SDK knows the chain by; unset for local devnets
+  cdpNetworkId?: string;
+  explorerUrl?: string;
 }
 
 // Character Types
@@ -79,6 +82,64 @@ export interface CreateCharacterResponse {
   };
 }
 
+export interface CharacterMetadata {
+  name: string;
+  description: string;
+  image: string;
+  attributes: Array<{
+    trait_type: string;
+    value: string | number | boolean;
+  }>;
+}
+
+export interface EvolveCharacterResponse {
+  success: boolean;
+  originalTokenId: number;
+  evolvedTokenId: number;
+  transactionHash: string;
+  transactionLink?: string;
+  character: {
+    name: string;
+    class: CharacterClass;
+    backstory: string;
+    personality?: string;
+    stats: CharacterStats;
+    imageUri: string;
+    metadataUri: string;
+  };
+}
+
+export interface CharacterDetails {
+  tokenId: number;
+  owner: string;
+  name: string;
+  class: CharacterClass;
+  backstory: string;
+  personality?: string;
+  image: string;
+  imageUri: string;
+  metadataUri: string;
+  stats: CharacterStats;
+  experience: number;
+  // Granted but not yet written on-chain; included in experience and level
+  pendingExperience: number;
+  level: number;
+  levelProgress: {
+    currentLevelExperience: number;
+    nextLevelExperience: number;
+    experienceToNextLevel: number;
+    percent: number;
+  };
+  seasonId: number;
+  evolved: boolean;
+  evolution: {
+    eligible: boolean;
+    threshold: number;
+    reason?: 'ALREADY_EVOLVED' | 'LEVEL_TOO_LOW';
+  };
+  attributes: CharacterMetadata['attributes'];
+}
+
 // Contract Types
 export interface ContractDeploymentResult {
   address: string;
@@ -88,6 +149,25 @@ export interface ContractDeploymentResult {
 export interface DeploymentInfo extends ContractDeploymentResult {
   network: string;
   deploymentTime: string;
+  blockNumber?: number;
+  // Not recorded by deployments made before the registry
+  chainId?: number;
+  contractName?: string;
+  transactionHash?: string;
+  deployer?: string;
+  abiHash?: string;
+  // keccak256 of the runtime bytecode at the address right after deployment
+  codeHash?: string;
+  sourceHash?: string;
+  compilerVersion?: string;
+}
+
+// Every deployment of one contract on one network, oldest first
+export interface DeploymentRegistryEntry {
+  network: string;
+  chainId: number;
+  contractName: string;
+  deployments: DeploymentInfo[];
 }
 
 // Compiler Types
@@ -114,6 +194,7 @@ export interface CompilerInput {
 export interface CompilationResult {
   abi: any[];
   bytecode: string;
+  compilerVersion: string;
 }
 
 // IPFS Types
@@ -136,6 +217,17 @@ export interface IPFSServiceError extends ServiceError {
         'INVALID_CID';
 }
 
+// Backend the IPFS service stores content in; every method works with bare CIDs
+export interface IStorageProvider {
+  readonly name: string;
+  // Gateway used when IPFS_GATEWAY_URL is unset
+  readonly defaultGatewayUrl: string;
+  addFile(data: Buffer, options: IPFSUploadOptions & { name: string }): Promise<string>;
+  addJSON(json: Record<string, any>, options: IPFSUploadOptions & { name: string }): Promise<string>;
+  get(cid: string): Promise<Buffer>;
+  remove(cid: string): Promise<void>;
+}
+
 // AI Types
 export interface ImageGenerationOptions {
   size?: '1024x1024' | '512x512' | '256x256';
@@ -161,6 +253,14 @@ export interface GameMasterResponse {
     effects?: string[];
   };
   nextOptions?: string[];
+  questCompleted?: QuestCompletion;
+}
+
+export interface QuestCompletion {
+  questId: string;
+  experience: number;
+  loot: LootDrop;
+  completedAt: string;
 }
 
 export interface AIServiceError extends ServiceError {
@@ -172,23 +272,115 @@ export interface AIServiceError extends ServiceError {
 }
 
 // Service Interfaces
+export type TransactionStatus = 'pending' | 'confirmed' | 'failed';
+
+// One nonce's worth of backend transaction. Speed-ups re-send it under a new
+// hash, so every hash broadcast for it is kept.
+export interface TransactionRecord {
+  id: string;
+  // The hash that was mined once confirmed, otherwise the latest broadcast
+  hash: string;
+  hashes: string[];
+  // Caller-chosen label for the work that sent it, e.g. "mint:<metadata uri>"
+  operation?: string;
+  method: string;
+  from: string;
+  to: string;
+  // Kept so the transaction can be re-sent after a restart
+  data?: string;
+  nonce: number;
+  gasLimit: string;
+  // EIP-1559 fees, or gasPrice on networks without them; wei as decimal strings
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+  gasPrice?: string;
+  replacements: number;
+  confirmations: number;
+  status: TransactionStatus;
+  blockNumber?: number;
+  transactionLink?: string;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TransactionRequest {
+  to: string;
+  data: string;
+  method: string;
+  operation?: string;
+  // Defaults to TX_CONFIRMATIONS
+  confirmations?: number;
+}
+
+export interface ITransactionManager {
+  start(): Promise<void>;
+  // Resolves once the transaction has the requested confirmations
+  send(request: TransactionRequest): Promise<{ transaction: TransactionRecord; receipt: ethers.TransactionReceipt }>;
+  // Waits on a transaction sent earlier, possibly before a restart
+  waitForTransaction(hash: string): Promise<{ transaction: TransactionRecord; receipt: ethers.TransactionReceipt }>;
+  getTransaction(hash: string): Promise<TransactionRecord | null>;
+  getTransactionsByOperation(operation: string): Promise<TransactionRecord[]>;
+}
+
+// An event from a transaction receipt, decoded against the contract ABI
+export interface DecodedEvent<T = Record<string, any>> {
+  name: string;
+  address: string;
+  logIndex: number;
+  args: T;
+}
+
+// View and pure functions are read without a transaction and only carry a
+// result; transactions carry their record and events
+export interface ContractInvocationResult {
+  kind: 'call' | 'transaction';
+  method: string;
+  result?: any;
+  status?: TransactionStatus;
+  hash?: string;
+  blockNumber?: number;
+  transactionLink?: string;
+  transaction?: TransactionRecord;
+  events: DecodedEvent[];
+}
+
+export interface ContractInvocationOptions {
+  operation?: string;
+  confirmations?: number;
+}
+
+// Holds the backend's key and reads contracts. Transactions are signed with
+// getSigner() by the transaction manager. Contract arguments are passed by ABI
+// parameter name.
+export interface IChainClient {
+  readonly name: string;
+  initialize(): Promise<void>;
+  getAddress(): Promise<string>;
+  getBalance(): Promise<string>;
+  getSigner(): Promise<ethers.Signer>;
+  requestTestTokens(): Promise<void>;
+  readContract(contractAddress: string, method: string, args: Record<string, any>, abi: any[]): Promise<any>;
+}
+
 export interface IWalletService {
   initialize(): Promise<void>;
-  getEthersWallet(): ethers.Wallet;
+  getSigner(): Promise<ethers.Signer>;
   getBalance(): Promise<string>;
   getAddress(): Promise<string>;
   requestTestTokens(): Promise<void>;
   invokeContract(
     contractAddress: string,
     method: string,
-    args: Record<string, any>,
-    abi: any[]
-  ): Promise<any>;
+    args?: any[] | Record<string, any>,
+    abi?: any[],
+    options?: ContractInvocationOptions
+  ): Promise<ContractInvocationResult>;
   getDefaultAddress(): Promise<{ addressId: string }>;
   getBackendAddress(): Promise<string>;
   getTotalSupply(contractAddress: string, abi: any[]): Promise<number>;
   getOwnerOf(contractAddress: string, tokenId: number, abi: any[]): Promise<string>;
-  readContract(contractAddress: string, method: string, args?: Record<string, any>): Promise<any>;
+  readContract(contractAddress: string, method: string, args?: any[] | Record<string, any>): Promise<any>;
 }
 
 export interface IContractService {
@@ -201,8 +393,10 @@ export interface IContractService {
 export interface ICharacterService {
   createCharacter(
     playerAddress: string, 
-    characterClass: CharacterClass
-  ): Promise<CreateCharacterResponse>;
+    characterClass: CharacterClass,
+    progress?: CharacterCreationProgress,
+    onStage?: CharacterCreationStageListener
+  ): Promise<CharacterCreationResult>;
   
   getCharacter(tokenId: number): Promise<CharacterBase>;
   
@@ -216,11 +410,50 @@ export interface ICharacterService {
     page?: number,
     limit?: number
   ): Promise<{ characters: any[], total: number }>;
+
+  evolveCharacter(tokenId: number): Promise<EvolveCharacterResponse>;
+
+  getOwnerOf(tokenId: number): Promise<string>;
+
+  getMetadata(tokenId: number): Promise<CharacterMetadata>;
+
+  getCharacterDetails(tokenId: number): Promise<CharacterDetails>;
+
+  compensateCreation(
+    playerAddress: string,
+    progress: CharacterCreationProgress
+  ): Promise<{ unpinned: string[]; failed: string[] }>;
 }
 
 export interface IIPFSService {
   uploadFile(data: Buffer, filename: string): Promise<string>;
   uploadMetadata(metadata: any, options?: { name?: string }): Promise<string>;
+  getContent(cid: string): Promise<Buffer>;
+  getGatewayUrl(uri: string): string;
+  unpin(cid: string): Promise<boolean>;
+}
+
+// What a text request is for; offline providers use it to shape their answer
+export type AITask =
+  | 'character_story'
+  | 'evolution_story'
+  | 'character_name'
+  | 'game_action'
+  | 'session_summary'
+  | 'encounter'
+  | 'questline';
+
+export interface AITextRequest {
+  task: AITask;
+  prompt: string;
+  // The values the prompt template was filled with
+  variables: Record<string, string | number>;
+}
+
+export interface IAIProvider {
+  readonly name: string;
+  generateText(request: AITextRequest): Promise<string>;
+  generateImage(prompt: string): Promise<Buffer>;
 }
 
 export interface IAIService {
@@ -243,6 +476,20 @@ export interface IAIService {
     personality?: string;
   }>;
 
+  generateEvolutionStory(
+    characterClass: CharacterClass,
+    previous: {
+      name: string;
+      backstory: string;
+      personality?: string;
+    }
+  ): Promise<{
+    name: string;
+    backstory: string;
+    appearance: string;
+    personality?: string;
+  }>;
+
   processGameAction(
     action: string,
     context: {
@@ -256,6 +503,11 @@ export interface IAIService {
     }
   ): Promise<GameMasterResponse>;
 
+  summarizeSession(
+    previousSummary: string,
+    turns: string[]
+  ): Promise<string>;
+
   generateEncounter(
     characterLevel: number,
     type: 'combat' | 'social' | 'exploration',
@@ -263,6 +515,7 @@ export interface IAIService {
   ): Promise<{
     description: string;
     challenges: string[];
+    enemies: MonsterDefinition[];
     rewards: {
       experience: number;
       loot?: string[];
@@ -334,21 +587,844 @@ export class ServiceError extends Error {
     }
 }
 
+// Storage Types
+export interface IKeyValueStore {
+    get<T>(key: string): Promise<T | null>;
+    set<T>(key: string, value: T, ttlSeconds?: number): Promise<void>;
+    // Atomic; resolves false when the key already exists
+    setIfAbsent<T>(key: string, value: T, ttlSeconds?: number): Promise<boolean>;
+    delete(key: string): Promise<void>;
+    keys(prefix: string): Promise<string[]>;
+}
+
+// Session Types
+export interface SessionTurn {
+    action: string;
+    response: string;
+    outcome: GameMasterResponse['outcome'];
+    experience: number;
+    rewards?: GameMasterResponse['rewards'];
+    timestamp: string;
+}
+
+export interface AdventureSession {
+    id: string;
+    tokenId: number;
+    status: 'active' | 'ended';
+    questId?: string;
+    quest?: Questline;
+    questProgress: number;
+    currentScene: string;
+    summary: string;
+    // Every turn played; the summary stands in for the first summarizedTurns in prompts
+    turns: SessionTurn[];
+    summarizedTurns: number;
+    totalExperience: number;
+    questCompletion?: QuestCompletion;
+    startedAt: string;
+    updatedAt: string;
+    endedAt?: string;
+}
+
+export interface ISessionService {
+    startSession(
+        tokenId: number,
+        options?: {
+            questId?: string;
+            quest?: Questline;
+            scene?: string;
+        }
+    ): Promise<AdventureSession>;
+    getActiveSession(tokenId: number): Promise<AdventureSession | null>;
+    getSession(sessionId: string): Promise<AdventureSession | null>;
+    endSession(tokenId: number): Promise<AdventureSession>;
+    recordTurn(sessionId: string, turn: SessionTurn, nextScene?: string): Promise<AdventureSession>;
+    // Records the completion unless one was recorded first; claimed says which
+    completeQuest(sessionId: string, completion: QuestCompletion): Promise<{ completion: QuestCompletion; claimed: boolean }>;
+    buildPromptContext(session: AdventureSession): {
+        sessionHistory: string[];
+        currentScene: string;
+    };
+}
+
 export enum ServiceState {
   UNINITIALIZED = 'UNINITIALIZED',
   DEPLOYMENT = 'DEPLOYMENT',
   RUNTIME = 'RUNTIME'
 }
 
+export interface Questline {
+    title: string;
+    description: string;
+    objectives: string[];
+    rewards: {
+        experience: number;
+        items?: string[];
+        gold?: number;
+    };
+    encounters: Array<{
+        type: 'combat' | 'social' | 'exploration';
+        description: string;
+    }>;
+}
+
+// Item & Loot Types
+export type ItemRarity = 'common' | 'uncommon' | 'rare' | 'very_rare' | 'legendary';
+
+export type ItemType = 'weapon' | 'armor' | 'accessory' | 'consumable' | 'material' | 'treasure';
+
+export interface ItemDefinition {
+    id: string;
+    name: string;
+    type: ItemType;
+    rarity: ItemRarity;
+    value: number;
+    description: string;
+    stackable: boolean;
+    damage?: string;
+    damageType?: DamageType;
+    finesse?: boolean;
+    attackBonus?: number;
+    armorClass?: number;
+    statModifiers?: Partial<CharacterStats>;
+}
+
+export type LootQuantity = number | { min: number; max: number };
+
+export interface LootTableEntry {
+    weight: number;
+    item?: string;
+    table?: string;
+    quantity?: LootQuantity;
+    minLevel?: number;
+    maxLevel?: number;
+}
+
+export interface LootTable {
+    id: string;
+    rolls?: number;
+    gold?: { min: number; max: number };
+    guaranteed?: Array<{ item: string; quantity?: LootQuantity }>;
+    entries: LootTableEntry[];
+}
+
+export interface LootItemDrop {
+    itemId: string;
+    name: string;
+    rarity: ItemRarity;
+    quantity: number;
+}
+
+export interface LootDrop {
+    gold: number;
+    items: LootItemDrop[];
+}
+
+export interface IItemCatalogService {
+    getItem(id: string): ItemDefinition;
+    findItem(id: string): ItemDefinition | undefined;
+    findItemByName(name: string): ItemDefinition | undefined;
+    listItems(): ItemDefinition[];
+}
+
+export interface ILootService {
+    rollTable(
+        tableId: string,
+        options: { characterLevel: number; seed?: string | number }
+    ): LootDrop;
+    generateCombatLoot(options: {
+        lootTables: string[];
+        difficulty: EncounterDifficulty;
+        characterLevel: number;
+        seed: string | number;
+    }): LootDrop;
+    generateQuestLoot(options: {
+        characterLevel: number;
+        seed: string | number;
+        suggestedItems?: string[];
+    }): LootDrop;
+}
+
+// Ledger Types
+export type LedgerSourceType = 'combat' | 'quest' | 'session' | 'purchase' | 'repair';
+
+export interface LedgerSource {
+    type: LedgerSourceType;
+    id?: string;
+}
+
+export interface LedgerEntry {
+    account: string;
+    debit: number;
+    credit: number;
+}
+
+export interface LedgerTransaction {
+    id: string;
+    tokenId: number;
+    kind: 'credit' | 'debit';
+    amount: number;
+    reason: string;
+    source: LedgerSource;
+    entries: LedgerEntry[];
+    balanceAfter: number;
+    rewardKey?: string;
+    createdAt: string;
+}
+
+export interface LedgerAccount {
+    id: string;
+    balance: number;
+    updatedAt: string;
+}
+
+export interface ILedgerService {
+    getBalance(tokenId: number): Promise<number>;
+    getHistory(tokenId: number, options?: { limit?: number; offset?: number }): Promise<LedgerTransaction[]>;
+    credit(
+        tokenId: number,
+        amount: number,
+        options: { reason: string; source: LedgerSource; rewardKey?: string }
+    ): Promise<LedgerTransaction>;
+    debit(
+        tokenId: number,
+        amount: number,
+        options: { reason: string; source: LedgerSource }
+    ): Promise<LedgerTransaction>;
+}
+
+// Season Types
+export interface SeasonInfo {
+    seasonId: number;
+    startedAt: string;
+}
+
+export interface SeasonActivity {
+    tokenId: number;
+    seasonId: number;
+    experience: number;
+    questsCompleted: number;
+    // Last value written on-chain through setSeasonalPower
+    syncedPower?: number;
+    updatedAt: string;
+}
+
+export interface SeasonStanding {
+    rank: number;
+    tokenId: number;
+    experience: number;
+    questsCompleted: number;
+    seasonalPower: number;
+}
+
+export interface SeasonArchive extends SeasonInfo {
+    endedAt: string;
+    standings: SeasonStanding[];
+}
+
+export interface ISeasonService {
+    getCurrentSeason(): Promise<SeasonInfo & { participants: number }>;
+    // An activityKey records the activity at most once, like a ledger rewardKey
+    recordActivity(
+        tokenId: number,
+        activity: { experience?: number; questsCompleted?: number },
+        activityKey?: string
+    ): Promise<void>;
+    getStandings(seasonId?: number): Promise<SeasonStanding[]>;
+    getArchive(seasonId: number): Promise<SeasonArchive | null>;
+    syncSeasonalPower(): Promise<{ seasonId: number; updated: number[] }>;
+    // Ends expectedSeasonId; retrying after the advance went through only archives it
+    advanceSeason(expectedSeasonId: number): Promise<{ archived: SeasonArchive; current: SeasonInfo }>;
+}
+
+// Leaderboard Types
+export type LeaderboardScope = 'global' | 'class' | 'season' | 'owner';
+
+export interface PowerSnapshotRow {
+    tokenId: number;
+    owner: string;
+    class?: CharacterClass;
+    level: number;
+    evolved: boolean;
+    seasonId: number;
+    power: number;
+}
+
+export interface PowerSnapshot {
+    generatedAt: string;
+    rows: PowerSnapshotRow[];
+    // Standings of the season that was current when the snapshot was taken
+    season?: { seasonId: number; standings: SeasonStanding[] };
+}
+
+export interface LeaderboardEntry extends PowerSnapshotRow {
+    rank: number;
+    // Set on season boards, which rank by what was earned during the season
+    seasonal?: Omit<SeasonStanding, 'rank' | 'tokenId'>;
+    previousRank: number | null;
+    // Positive when the character climbed since the previous snapshot
+    rankChange: number | null;
+}
+
+export interface LeaderboardPage {
+    scope: LeaderboardScope;
+    filter?: string;
+    generatedAt: string;
+    previousGeneratedAt?: string;
+    total: number;
+    page: number;
+    limit: number;
+    entries: LeaderboardEntry[];
+}
+
+export interface ILeaderboardService {
+    getLeaderboard(
+        scope: LeaderboardScope,
+        options?: { filter?: string; page?: number; limit?: number }
+    ): Promise<LeaderboardPage>;
+    refresh(): Promise<PowerSnapshot>;
+    start(): void;
+    stop(): void;
+}
+
+// Experience Types
+export interface ExperienceGrant {
+    id: string;
+    tokenId: number;
+    amount: number;
+    createdAt: string;
+}
+
+export type ExperienceBatchStatus = 'submitting' | 'confirmed' | 'failed';
+
+// Grants flushed together in one batchGainExperience transaction
+export interface ExperienceBatch {
+    id: string;
+    // Store keys of the grants it covers; they are deleted once it confirms
+    grantKeys: string[];
+    totals: { tokenId: number; amount: number }[];
+    // With the block it was sent from, lets recovery find the batch on chain
+    // even if the process died before its transaction was recorded
+    calldata: string;
+    startBlock: number;
+    status: ExperienceBatchStatus;
+    transactionHash?: string;
+    error?: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface IExperienceService {
+    start(): Promise<void>;
+    stop(): void;
+    // Recorded off-chain at once and written on the next flush
+    grant(tokenId: number, amount: number): Promise<ExperienceGrant>;
+    getPendingExperience(tokenId: number): Promise<number>;
+    flush(): Promise<ExperienceBatch | null>;
+    // Grants for tokens whose experience reverted, held back from every flush
+    listParked(): Promise<ExperienceGrant[]>;
+    retryParked(tokenId: number): Promise<ExperienceGrant[]>;
+}
+
+// Indexer Types
+export interface IndexedCharacter {
+    tokenId: number;
+    owner: string;
+    stats: CharacterStats;
+    experience: number;
+    level: number;
+    seasonId: number;
+    evolved: boolean;
+    evolvedFrom?: number;
+    evolvedInto?: number;
+    mintedBlock: number;
+    updatedBlock: number;
+}
+
+export interface IndexerCheckpoint {
+    blockNumber: number;
+    blockHash: string;
+}
+
+export interface IndexerStatus {
+    startBlock: number | null;
+    confirmations: number;
+    cursor: IndexerCheckpoint | null;
+    currentSeason: number | null;
+    synced: boolean;
+}
+
+export interface IIndexerService {
+    start(): void;
+    stop(): void;
+    sync(): Promise<IndexerCheckpoint | null>;
+    getStatus(): Promise<IndexerStatus>;
+    getCharacter(tokenId: number): Promise<IndexedCharacter | null>;
+    // Every token in the projection; burned tokens are not included
+    listCharacters(): Promise<IndexedCharacter[]>;
+    getCharactersByOwner(owner: string): Promise<IndexedCharacter[]>;
+    // Optimistic owner update for a transfer confirmed in blockNumber
+    applyTransfer(tokenId: number, to: string, blockNumber: number): Promise<void>;
+    onCharacterUpdated(listener: (update: CharacterUpdate) => void): () => void;
+}
+
+// Emitted once the batch holding the event is committed to the projection
+export interface CharacterUpdate {
+    tokenId: number;
+    event: string;
+    blockNumber: number;
+}
+
+// Job Types
+// pending_mint: pinned artifacts are kept after a failed mint, waiting for an operator
+export type JobStatus = 'queued' | 'running' | 'pending_mint' | 'completed' | 'failed';
+
+export type CharacterCreationStage =
+    | 'story'
+    | 'image'
+    | 'image_pin'
+    | 'metadata_pin'
+    | 'mint'
+    | 'confirmed';
+
+export interface JobStageRecord<S extends string = string> {
+    stage: S;
+    status: 'pending' | 'running' | 'completed' | 'failed';
+    attempts: number;
+    startedAt?: string;
+    completedAt?: string;
+}
+
+// Output of every creation stage finished so far; a resumed run skips the
+// stages whose output is already present
+export interface CharacterCreationProgress {
+    characterDetails?: {
+        name: string;
+        backstory: string;
+        appearance: string;
+        personality?: string;
+    };
+    // Base64 PNG, dropped once it is pinned
+    image?: string;
+    imageUri?: string;
+    baseStats?: Record<string, number>;
+    metadataUri?: string;
+    // Chain head when the mint was first submitted
+    mintStartBlock?: number;
+    transactionHash?: string;
+    transactionLink?: string;
+    tokenId?: number;
+}
+
+export type CharacterCreationStageListener = (
+    stage: CharacterCreationStage,
+    state: 'started' | 'completed',
+    progress: CharacterCreationProgress
+) => Promise<void>;
+
+export interface CharacterCreationResult {
+    tokenId: number;
+    transactionHash?: string;
+    transactionLink?: string;
+    metadataUri: string;
+    character: {
+        owner: string;
+        class: CharacterClass;
+        name: string;
+        stats: number[];
+    };
+}
+
+export interface CharacterCreationJob {
+    id: string;
+    type: 'character_creation';
+    status: JobStatus;
+    playerAddress: string;
+    characterClass: CharacterClass;
+    stages: JobStageRecord<CharacterCreationStage>[];
+    progress: CharacterCreationProgress;
+    result?: CharacterCreationResult;
+    error?: {
+        message: string;
+        code?: string;
+        stage?: CharacterCreationStage;
+    };
+    compensation?: CreationCompensation;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface CreationCompensation {
+    unpinned: string[];
+    failed: string[];
+    compensatedAt: string;
+}
+
+export interface IJobService {
+    createCharacterJob(playerAddress: string, characterClass: CharacterClass): Promise<CharacterCreationJob>;
+    getJob(jobId: string): Promise<CharacterCreationJob>;
+    subscribe(jobId: string, listener: (job: CharacterCreationJob) => void): () => void;
+    resumePending(): Promise<number>;
+    getStuckJobs(): Promise<CharacterCreationJob[]>;
+    retryJob(jobId: string): Promise<CharacterCreationJob>;
+    abandonJob(jobId: string): Promise<CharacterCreationJob>;
+}
+
+// Metadata Types
+export interface MetadataVersion {
+    version: number;
+    metadataUri: string;
+    level: number;
+    reason: string;
+    transactionHash?: string;
+    // Set while the setTokenURI transaction is unsettled, and if it failed
+    status?: Exclude<TransactionStatus, 'confirmed'>;
+    createdAt: string;
+}
+
+export interface MetadataRefreshResult {
+    tokenId: number;
+    status: 'updated' | 'unchanged';
+    metadataUri: string;
+    version: number;
+    transactionHash?: string;
+}
+
+export interface IMetadataService {
+    start(): void;
+    refreshMetadata(tokenId: number, reason?: string): Promise<MetadataRefreshResult>;
+    getHistory(tokenId: number): Promise<MetadataVersion[]>;
+}
+
+// Auth Types
+export interface SiweMessageFields {
+    domain: string;
+    address: string;
+    statement?: string;
+    uri: string;
+    version: string;
+    chainId: number;
+    nonce: string;
+    issuedAt: string;
+    expirationTime?: string;
+    notBefore?: string;
+}
+
+export interface AuthNonce {
+    nonce: string;
+    expiresAt: string;
+}
+
+export interface AuthSession {
+    address: string;
+    accessToken: string;
+    expiresIn: number;
+    refreshToken: string;
+    refreshExpiresIn: number;
+}
+
+export interface AccessTokenClaims {
+    sub: string;
+    iat: number;
+    exp: number;
+}
+
+export interface AuthenticatedCaller {
+    address: string;
+}
+
+export interface IAuthService {
+    createNonce(): Promise<AuthNonce>;
+    signIn(message: string, signature: string): Promise<AuthSession>;
+    refresh(refreshToken: string): Promise<AuthSession>;
+    signOut(refreshToken: string): Promise<void>;
+    verifyAccessToken(token: string): AccessTokenClaims;
+}
+
+// Transfer Types
+export interface TransferAuthorization {
+    from: string;
+    to: string;
+    tokenId: number;
+    nonce: number;
+    deadline: number;
+}
+
+export interface TransferTypedData {
+    domain: ethers.TypedDataDomain;
+    types: Record<string, ethers.TypedDataField[]>;
+    primaryType: string;
+    message: TransferAuthorization;
+}
+
+export interface UnsignedTransaction {
+    from: string;
+    to: string;
+    data: string;
+    value: string;
+    chainId: number;
+}
+
+export interface TransferResult {
+    tokenId: number;
+    from: string;
+    to: string;
+    status: 'completed' | 'awaiting_signature';
+    transactionHash?: string;
+    transaction?: UnsignedTransaction;
+    // Lets the player opt in to relayed transfers for future requests
+    approvalTransaction?: UnsignedTransaction;
+}
+
+export interface ITransferService {
+    getAuthorizationRequest(tokenId: number, to: string): Promise<TransferTypedData>;
+    transfer(
+        tokenId: number,
+        authorization: TransferAuthorization,
+        signature: string,
+        options?: { relay?: boolean }
+    ): Promise<TransferResult>;
+    completeTransfer(tokenId: number, transactionHash: string): Promise<TransferResult>;
+}
+
+// Inventory Types
+export type EquipmentSlot = 'weapon' | 'armor' | 'accessory';
+
+export interface InventoryStack {
+    itemId: string;
+    quantity: number;
+}
+
+export interface CharacterInventory {
+    tokenId: number;
+    items: InventoryStack[];
+    equipment: Partial<Record<EquipmentSlot, string>>;
+    updatedAt: string;
+}
+
+export interface EffectiveLoadout {
+    stats: CharacterStats;
+    armorClassBonus: number;
+    attackBonus: number;
+    weapon?: ItemDefinition;
+}
+
+export interface IInventoryService {
+    getInventory(tokenId: number): Promise<CharacterInventory>;
+    addItems(tokenId: number, items: InventoryStack[]): Promise<CharacterInventory>;
+    addItemsByName(tokenId: number, names: string[]): Promise<CharacterInventory>;
+    removeItem(tokenId: number, itemId: string, quantity?: number): Promise<CharacterInventory>;
+    purchaseItem(tokenId: number, itemId: string, quantity?: number): Promise<CharacterInventory>;
+    equip(tokenId: number, itemId: string): Promise<CharacterInventory>;
+    unequip(tokenId: number, slot: EquipmentSlot): Promise<CharacterInventory>;
+    getLoadout(tokenId: number, baseStats: CharacterStats): Promise<EffectiveLoadout>;
+    getEquipmentAttributes(tokenId: number): Promise<CharacterMetadata['attributes']>;
+    // Fires after an equip or unequip is saved; returns an unsubscribe function
+    onEquipmentChanged(listener: (tokenId: number) => void): () => void;
+}
+
+// Bestiary Types
+export type DamageType =
+    | 'slashing'
+    | 'piercing'
+    | 'bludgeoning'
+    | 'fire'
+    | 'cold'
+    | 'lightning'
+    | 'poison'
+    | 'necrotic'
+    | 'radiant'
+    | 'psychic'
+    | 'force';
+
+export interface MonsterAttack {
+    name: string;
+    attackBonus: number;
+    damage: string;
+    damageType: DamageType;
+}
+
+export interface MonsterDefinition {
+    id: string;
+    name: string;
+    description: string;
+    challengeRating: number;
+    hitPoints: number;
+    armorClass: number;
+    initiativeBonus: number;
+    attacks: MonsterAttack[];
+    resistances: DamageType[];
+    vulnerableAbility: keyof CharacterStats;
+    experience: number;
+    lootTable: string;
+    tags?: string[];
+}
+
+export interface IBestiaryService {
+    getMonster(id: string): MonsterDefinition;
+    findMonster(id: string): MonsterDefinition | undefined;
+    listMonsters(filter?: { minChallenge?: number; maxChallenge?: number }): MonsterDefinition[];
+    buildEncounter(
+        characterLevel: number,
+        difficulty: EncounterDifficulty,
+        random?: () => number
+    ): MonsterDefinition[];
+    composeEncounter(
+        characterLevel: number,
+        monsterIds: string[]
+    ): { monsters: MonsterDefinition[]; difficulty: EncounterDifficulty };
+}
+
+// Combat Types
+export type CombatActionType = 'attack' | 'defend' | 'use_ability' | 'use_item';
+
+export type EncounterDifficulty = 'easy' | 'medium' | 'hard';
+
+export interface CombatantBase {
+    id: string;
+    name: string;
+    hp: number;
+    maxHp: number;
+    armorClass: number;
+    initiative: number;
+    defending: boolean;
+}
+
+export interface CharacterCombatant extends CombatantBase {
+    tokenId: number;
+    class: CharacterClass;
+    level: number;
+    stats: CharacterStats;
+    abilityUses: number;
+    potions: number;
+    attackBonus: number;
+    weaponDamage: string;
+    weaponDamageType: DamageType;
+    weaponFinesse: boolean;
+}
+
+export interface EnemyCombatant extends CombatantBase {
+    type: string;
+    challengeRating: number;
+    attacks: MonsterAttack[];
+    resistances: DamageType[];
+    vulnerableAbility: keyof CharacterStats;
+    experience: number;
+    lootTable: string;
+}
+
+export interface CombatLogEntry {
+    round: number;
+    actor: string;
+    action: string;
+    target?: string;
+    roll?: number;
+    hit?: boolean;
+    critical?: boolean;
+    damage?: number;
+    healing?: number;
+    message: string;
+}
+
+export interface CombatEncounter {
+    id: string;
+    tokenId: number;
+    status: 'active' | 'victory' | 'defeat';
+    difficulty: EncounterDifficulty;
+    round: number;
+    turnOrder: string[];
+    turnIndex: number;
+    character: CharacterCombatant;
+    enemies: EnemyCombatant[];
+    log: CombatLogEntry[];
+    experienceGained?: number;
+    rewards?: LootDrop;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface CombatActionResult {
+    encounterId: string;
+    outcome: 'ongoing' | 'victory' | 'defeat';
+    events: CombatLogEntry[];
+    encounter: CombatEncounter;
+    experienceGained?: number;
+    rewards?: LootDrop;
+    nextActions: string[];
+}
+
+export interface ICombatService {
+    startEncounter(
+        tokenId: number,
+        difficulty?: EncounterDifficulty,
+        monsterIds?: string[]
+    ): Promise<CombatEncounter>;
+    getEncounter(tokenId: number, encounterId: string): Promise<CombatEncounter>;
+    takeAction(
+        tokenId: number,
+        encounterId: string,
+        action: CombatActionType,
+        targetId?: string
+    ): Promise<CombatActionResult>;
+}
+
 export interface IGameService {
     processAction(action: string, context: any): Promise<GameMasterResponse>;
+
+    processQuestAction(
+        tokenId: number,
+        questId: string,
+        action: string,
+        context?: {
+            currentScene?: string;
+        }
+    ): Promise<GameMasterResponse>;
+
+    startCombat(
+        tokenId: number,
+        difficulty?: EncounterDifficulty,
+        monsterIds?: string[]
+    ): Promise<CombatEncounter>;
+
+    processCombatAction(
+        tokenId: number,
+        encounterId: string,
+        action: string,
+        targetId?: string
+    ): Promise<CombatActionResult>;
+
+    startQuest(
+        tokenId: number,
+        theme?: string,
+        length?: 'short' | 'medium' | 'long'
+    ): Promise<Questline & { questId: string; sessionId: string }>;
 }
 
 export const Tokens = {
     WalletService: new Token<IWalletService>('WALLET_SERVICE'),
+    ChainClient: new Token<IChainClient>('CHAIN_CLIENT'),
+    TransactionManager: new Token<ITransactionManager>('TRANSACTION_MANAGER'),
     CharacterService: new Token<ICharacterService>('CHARACTER_SERVICE'),
     AIService: new Token<IAIService>('AI_SERVICE'),
+    AIProvider: new Token<IAIProvider>('AI_PROVIDER'),
     IPFSService: new Token<IIPFSService>('IPFS_SERVICE'),
+    StorageProvider: new Token<IStorageProvider>('STORAGE_PROVIDER'),
     ContractDeploymentService: new Token<IContractService>('CONTRACT_DEPLOYMENT_SERVICE'),
-    GameService: new Token<IGameService>('GAME_SERVICE')
+    GameService: new Token<IGameService>('GAME_SERVICE'),
+    Store: new Token<IKeyValueStore>('STORE'),
+    SessionService: new Token<ISessionService>('SESSION_SERVICE'),
+    CombatService: new Token<ICombatService>('COMBAT_SERVICE'),
+    ItemCatalogService: new Token<IItemCatalogService>('ITEM_CATALOG_SERVICE'),
+    LootService: new Token<ILootService>('LOOT_SERVICE'),
+    InventoryService: new Token<IInventoryService>('INVENTORY_SERVICE'),
+    LedgerService: new Token<ILedgerService>('LEDGER_SERVICE'),
+    SeasonService: new Token<ISeasonService>('SEASON_SERVICE'),
+    LeaderboardService: new Token<ILeaderboardService>('LEADERBOARD_SERVICE'),
+    IndexerService: new Token<IIndexerService>('INDEXER_SERVICE'),
+    ExperienceService: new Token<IExperienceService>('EXPERIENCE_SERVICE'),
+    TransferService: new Token<ITransferService>('TRANSFER_SERVICE'),
+    AuthService: new Token<IAuthService>('AUTH_SERVICE'),
+    JobService: new Token<IJobService>('JOB_SERVICE'),
+    MetadataService: new Token<IMetadataService>('METADATA_SERVICE'),
+    BestiaryService: new Token<IBestiaryService>('BESTIARY_SERVICE')
 };
\ No newline at end of file